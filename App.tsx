@@ -17,6 +17,15 @@ import { GuidedAnalysisWizard, type WizardSubmitData } from './components/Guided
 import { Modal } from './components/Modal';
 import { GoogleSearchConsoleConnect } from './components/GoogleSearchConsoleConnect';
 import { AiConfiguration } from './components/AiConfiguration';
+import { CrawlerSettingsPanel } from './components/CrawlerSettingsPanel';
+import { CrawlReportPanel } from './components/CrawlReportPanel';
+import { UrlStatusPanel } from './components/UrlStatusPanel';
+import { CompetitorInventoryPanel } from './components/CompetitorInventoryPanel';
+import { PageSnapshotPanel } from './components/PageSnapshotPanel';
+import { LinkGraphPanel } from './components/LinkGraphPanel';
+import { DuplicateContentPanel } from './components/DuplicateContentPanel';
+import { HreflangPanel } from './components/HreflangPanel';
+import { BrokenLinksPanel } from './components/BrokenLinksPanel';
 import { ActionPlanDashboard } from './components/ActionPlanDashboard';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -27,10 +36,27 @@ import {
   generateSeoAnalysis,
   generateExecutiveSummary,
 } from './services/aiService';
-import { rankUrls } from './utils/seoScoring';
-import { crawlSitemap } from './services/crawlingService';
+import { selectRepresentativeEntries } from './utils/seoScoring';
+import { runOnPageRules, mergeOnPageRuleItems } from './utils/onPageRules';
+import { auditImages } from './utils/imageAudit';
+import { analyzeLinkGraph, buildArchitectureGraph, buildOrphanFindings, isUnlinkedSitemapPage } from './utils/linkGraph';
+import { auditHreflang, buildHreflangFindings, collectHreflangTargets } from './utils/hreflang';
+import { buildRedirectFindings, buildVerifiedRedirects, collectCanonicalTargets, findUncheckedUrls, reconcileAiRedirects } from './utils/redirectAnalysis';
+import { buildBrokenLinkFindings, buildLinkCheckReport, collectLinkTargets } from './utils/brokenLinks';
+import { buildRenderingFindings, findRenderingRisks } from './utils/renderingRisk';
+import { scoreContentDecay, buildDecayPageActions, mergeDecayPageActions } from './utils/contentDecay';
+import { findDuplicateClusters, buildDuplicatePageActions, mergeDuplicatePageActions, buildDuplicateRedirects } from './utils/nearDuplicates';
+import { attachContentMetrics } from './utils/contentMetrics';
+import { OUTCOME_LABELS, countOutcomes, isFailedOutcome } from './utils/crawlReport';
+import { crawlSitemap, DEFAULT_CRAWLER_SETTINGS } from './services/crawlingService';
+import { checkUrlStatuses, buildUrlStatusFindings, isBrokenStatus } from './services/urlStatusService';
+import { fetchPageSnapshots } from './services/pageSnapshotService';
+import { measureImageSizes } from './services/imageSizeService';
+import { crawlCompetitors } from './services/competitorService';
 import { createActionPlan } from './services/actionPlanService';
 import { cacheService } from './services/cacheService';
+import type { CacheKeyPart } from './services/cacheService';
+import { fetchGscClickTrends } from './services/gscService';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Type Imports
@@ -41,11 +67,24 @@ import type {
   GscSite, 
   GscTokenResponse, 
   AiConfig,
+  CrawlerSettings,
+  CrawlStatus,
+  SectionCoverage,
+  CrawlReport,
   SitewideAnalysis,
   SeoAnalysisResult,
   ExecutiveSummary,
   DailyActionPlan,
   GroundingSource,
+  SitemapSource,
+  UrlStatusCheck,
+  AuditFinding,
+  CompetitorInventory,
+  PageSnapshot,
+  LinkGraphAnalysis,
+  DuplicateCluster,
+  HreflangAudit,
+  LinkCheckReport,
 } from './types';
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -63,6 +102,7 @@ export interface PipelineStage {
   itemsProcessed?: number;
   totalItems?: number;
   currentTask?: string;
+  warning?: string;
   startTime?: number;
   endTime?: number;
 }
@@ -81,6 +121,17 @@ export interface PartialResults {
   actionPlan?: DailyActionPlan[];
   urlsDiscovered?: number;
   urlsAnalyzed?: number;
+  crawlStatus?: CrawlStatus;
+  crawlStatusDetail?: string;
+  crawlReport?: CrawlReport;
+  urlStatus?: UrlStatusCheck[];
+  verifiedFindings?: AuditFinding[];
+  competitorInventories?: CompetitorInventory[];
+  pageSnapshots?: PageSnapshot[];
+  linkAnalysis?: LinkGraphAnalysis;
+  duplicateClusters?: DuplicateCluster[];
+  hreflangAudit?: HreflangAudit;
+  linkCheck?: LinkCheckReport;
 }
 
 const PIPELINE_STAGE_DEFINITIONS: Omit<PipelineStage, 'status' | 'progress'>[] = [
@@ -94,6 +145,21 @@ const PIPELINE_STAGE_DEFINITIONS: Omit<PipelineStage, 'status' | 'progress'>[] =
     name: 'URL Prioritization', 
     description: 'Scoring and ranking URLs by strategic SEO value' 
   },
+  { 
+    id: 'status', 
+    name: 'Status Verification', 
+    description: 'Requesting each URL to verify status codes, redirects and indexability' 
+  },
+  { 
+    id: 'pages', 
+    name: 'Page Extraction', 
+    description: 'Fetching top pages to extract titles, headings, canonicals and structured data' 
+  },
+  { 
+    id: 'links', 
+    name: 'Link Check', 
+    description: 'Checking every link on the fetched pages for broken targets' 
+  },
   { 
     id: 'competitor', 
     name: 'Competitor Intelligence', 
@@ -127,7 +193,47 @@ const PIPELINE_STAGE_DEFINITIONS: Omit<PipelineStage, 'status' | 'progress'>[] =
 
 const HISTORY_STORAGE_KEY = 'seo-analyzer-history-v13';
 const AI_CONFIG_STORAGE_KEY = 'seo-analyzer-ai-config-v13';
+const CRAWLER_SETTINGS_STORAGE_KEY = 'seo-analyzer-crawler-settings-v1';
 const MAX_URLS_FOR_ANALYSIS = 100;
+// Pages fetched in full for on-page facts; the rest of the analysis set is judged from sitemap data
+const MAX_PAGES_FOR_SNAPSHOTS = 40;
+// Alternate URLs outside the analysis set that get a status check for the hreflang audit
+const MAX_HREFLANG_TARGET_CHECKS = 60;
+// Likewise for canonical targets, and for the URLs in the model's redirect suggestions
+const MAX_CANONICAL_TARGET_CHECKS = 40;
+const MAX_AI_REDIRECT_CHECKS = 20;
+// Distinct link targets checked for the broken link report; internal targets and the most linked come first
+const MAX_LINK_TARGET_CHECKS = 250;
+
+// Raw JSON-LD, shingle sketches, image and link lists can be large and history lives in localStorage; the stored
+// snapshot keeps only the schema types, and duplicates, images and links are stored as the clusters and audits found
+const toStoredSnapshot = (snapshot: PageSnapshot): PageSnapshot => ({ ...snapshot, jsonLd: [], contentSketch: [], images: [], links: [] });
+// Likewise the link analysis keeps only its strongest pages, plus a capped list of the orphans the report lists
+const MAX_STORED_LINK_PAGES = 200;
+const MAX_STORED_ORPHAN_PAGES = 100;
+const toStoredLinkAnalysis = (analysis: LinkGraphAnalysis): LinkGraphAnalysis => ({
+  ...analysis,
+  pages: [
+    ...analysis.pages.slice(0, MAX_STORED_LINK_PAGES),
+    ...analysis.pages.slice(MAX_STORED_LINK_PAGES).filter(page => isUnlinkedSitemapPage(page, analysis.complete)).slice(0, MAX_STORED_ORPHAN_PAGES),
+  ],
+});
+
+/**
+ * Writes the history to localStorage, dropping the oldest analyses until it fits the storage quota.
+ * Returns how many entries were stored; the caller keeps the full list in memory for this session.
+ */
+const persistHistory = (history: HistoricalAnalysis[]): number => {
+  for (let count = history.length; count > 0; count--) {
+    try {
+      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history.slice(0, count)));
+      return count;
+    } catch (e) {
+      console.warn(`Analysis history doesn't fit in localStorage with ${count} entries, dropping the oldest`, e);
+    }
+  }
+  return 0;
+};
 
 type AppState = 'idle' | 'loading' | 'results' | 'error' | 'configure_ai';
 type LoadingPhase = 'crawling' | 'analyzing';
@@ -348,6 +454,10 @@ const StageCard: React.FC<StageCardProps> = ({ stage, index, isActive }) => {
               )}
             </div>
 
+            {stage.warning && (
+              <p className="mt-2 text-xs text-yellow-400">⚠ {stage.warning}</p>
+            )}
+
             {stage.status === 'running' && stage.currentTask && (
               <div className="mt-2 flex items-center gap-2">
                 <PulsingDot />
@@ -577,6 +687,57 @@ const AnalysisPipeline: React.FC<AnalysisPipelineProps> = ({
 // PROGRESSIVE RESULTS PANEL
 // ═══════════════════════════════════════════════════════════════════════════════
 
+const MAX_COVERAGE_ROWS = 8;
+
+const sectionLabel = (sitemapUrl: string): string => {
+  try {
+    const { pathname } = new URL(sitemapUrl);
+    return pathname.split('/').filter(Boolean).pop() || pathname;
+  } catch (e) {
+    return sitemapUrl;
+  }
+};
+
+const SectionCoverageSummary: React.FC<{ coverage: SectionCoverage[] }> = ({ coverage }) => {
+  const totalUrls = coverage.reduce((sum, c) => sum + c.totalUrls, 0);
+  const sampledUrls = coverage.reduce((sum, c) => sum + c.sampledUrls, 0);
+  const hiddenSections = coverage.slice(MAX_COVERAGE_ROWS);
+
+  return (
+    <div className="bg-gray-800/60 rounded-xl p-5 border border-gray-700/50">
+      <div className="flex items-baseline justify-between gap-4 mb-4">
+        <h4 className="font-semibold text-gray-200">Sampling Coverage</h4>
+        <span className="text-xs text-gray-400">
+          {sampledUrls.toLocaleString()} of {totalUrls.toLocaleString()} URLs sampled across {coverage.length} sections
+        </span>
+      </div>
+      <ul className="space-y-2.5">
+        {coverage.slice(0, MAX_COVERAGE_ROWS).map(section => {
+          const share = totalUrls > 0 ? (section.totalUrls / totalUrls) * 100 : 0;
+          return (
+            <li key={section.sitemap} title={section.sitemap}>
+              <div className="flex items-center justify-between text-xs mb-1">
+                <span className="text-gray-300 font-mono truncate">{sectionLabel(section.sitemap)}</span>
+                <span className="text-gray-500 shrink-0 ml-3">
+                  {section.sampledUrls.toLocaleString()} / {section.totalUrls.toLocaleString()}
+                </span>
+              </div>
+              <div className="w-full bg-gray-700/40 rounded-full h-1.5">
+                <div className="h-1.5 rounded-full bg-gradient-to-r from-blue-500 to-teal-400" style={{ width: `${Math.max(share, 1)}%` }} />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      {hiddenSections.length > 0 && (
+        <p className="text-xs text-gray-500 mt-3">
+          + {hiddenSections.length} smaller sections ({hiddenSections.reduce((sum, c) => sum + c.sampledUrls, 0).toLocaleString()} / {hiddenSections.reduce((sum, c) => sum + c.totalUrls, 0).toLocaleString()} URLs)
+        </p>
+      )}
+    </div>
+  );
+};
+
 interface ProgressiveResultsPanelProps {
   results: PartialResults;
 }
@@ -603,6 +764,19 @@ const ProgressiveResultsPanel: React.FC<ProgressiveResultsPanelProps> = ({ resul
         </div>
       </div>
 
+      {/* Partial Crawl Notice */}
+      {results.crawlStatus && results.crawlStatus !== 'complete' && (
+        <div className="flex items-start gap-3 p-4 bg-yellow-900/20 rounded-xl border border-yellow-500/30">
+          <span className="text-xl">⚠️</span>
+          <div>
+            <h4 className="font-semibold text-yellow-300">
+              {results.crawlStatus === 'cancelled' ? 'Crawl stopped early' : 'Crawl truncated'}
+            </h4>
+            <p className="text-sm text-gray-400 mt-1">{results.crawlStatusDetail}</p>
+          </div>
+        </div>
+      )}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
         {results.urlsDiscovered !== undefined && (
@@ -668,6 +842,51 @@ const ProgressiveResultsPanel: React.FC<ProgressiveResultsPanelProps> = ({ resul
         )}
       </div>
 
+      {/* Sampling Coverage */}
+      {results.crawlReport && results.crawlReport.coverage.length > 1 && (
+        <SectionCoverageSummary coverage={results.crawlReport.coverage} />
+      )}
+
+      {/* Crawl Diagnostics */}
+      {results.crawlReport && (results.crawlReport.sitemaps.length > 0 || results.crawlReport.method === 'spider' || !!results.crawlReport.urlVariantsMerged) && (
+        <CrawlReportPanel report={results.crawlReport} />
+      )}
+
+      {/* URL Status Verification */}
+      {results.urlStatus && results.urlStatus.length > 0 && (
+        <UrlStatusPanel checks={results.urlStatus} />
+      )}
+
+      {/* On-Page Extraction */}
+      {results.pageSnapshots && results.pageSnapshots.length > 0 && (
+        <PageSnapshotPanel snapshots={results.pageSnapshots} />
+      )}
+
+      {/* Internal Link Graph */}
+      {results.linkAnalysis && (
+        <LinkGraphPanel analysis={results.linkAnalysis} />
+      )}
+
+      {/* Near-Duplicate Content */}
+      {results.duplicateClusters && results.duplicateClusters.length > 0 && (
+        <DuplicateContentPanel clusters={results.duplicateClusters} />
+      )}
+
+      {/* Hreflang Clusters */}
+      {results.hreflangAudit && results.hreflangAudit.clustersFound > 0 && (
+        <HreflangPanel audit={results.hreflangAudit} />
+      )}
+
+      {/* Broken Links */}
+      {results.linkCheck && results.linkCheck.linksFound > 0 && (
+        <BrokenLinksPanel report={results.linkCheck} />
+      )}
+
+      {/* Competitor Inventory */}
+      {results.competitorInventories && results.competitorInventories.length > 0 && (
+        <CompetitorInventoryPanel competitors={results.competitorInventories} />
+      )}
+
       {/* Strategic Mission */}
       {results.sitewideAnalysis?.strategicRoadmap?.missionStatement && (
         <div className="bg-gradient-to-br from-gray-800/80 to-gray-900/80 rounded-xl p-5 border border-gray-700/50">
@@ -763,6 +982,9 @@ const App: React.FC = () => {
   const [gscSites, setGscSites] = useState<GscSite[]>([]);
   const [isGscModalOpen, setIsGscModalOpen] = useState<boolean>(false);
   const [aiConfig, setAiConfig] = useState<AiConfig | null>(null);
+  const [crawlerSettings, setCrawlerSettings] = useState<CrawlerSettings>(DEFAULT_CRAWLER_SETTINGS);
+  const [isCrawlerSettingsOpen, setIsCrawlerSettingsOpen] = useState<boolean>(false);
+  const [isStoppingCrawl, setIsStoppingCrawl] = useState<boolean>(false);
   
   const abortControllerRef = useRef<AbortController | null>(null);
   
@@ -807,7 +1029,7 @@ const App: React.FC = () => {
   const updateAnalysisInHistory = useCallback((id: string, updatedAnalysis: Partial<HistoricalAnalysis>) => {
     setAnalysisHistory(prev => {
       const updated = prev.map(h => h.id === id ? { ...h, ...updatedAnalysis } : h);
-      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(updated));
+      persistHistory(updated);
       return updated;
     });
   }, []);
@@ -839,6 +1061,17 @@ const App: React.FC = () => {
         setAppState('configure_ai');
       }
 
+      const storedCrawlerSettings = localStorage.getItem(CRAWLER_SETTINGS_STORAGE_KEY);
+      if (storedCrawlerSettings) {
+        const parsed = JSON.parse(storedCrawlerSettings) as Partial<CrawlerSettings>;
+        setCrawlerSettings({
+          ...DEFAULT_CRAWLER_SETTINGS,
+          ...parsed,
+          proxy: { ...DEFAULT_CRAWLER_SETTINGS.proxy, ...parsed.proxy },
+          urlNormalization: { ...DEFAULT_CRAWLER_SETTINGS.urlNormalization, ...parsed.urlNormalization },
+        });
+      }
+
       const storedHistory = localStorage.getItem(HISTORY_STORAGE_KEY);
       if (storedHistory) {
         const history = JSON.parse(storedHistory) as HistoricalAnalysis[];
@@ -872,6 +1105,12 @@ const App: React.FC = () => {
     setAppState('idle');
   }, []);
   
+  const handleCrawlerSettingsSave = useCallback((settings: CrawlerSettings) => {
+    setCrawlerSettings(settings);
+    localStorage.setItem(CRAWLER_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    setIsCrawlerSettingsOpen(false);
+  }, []);
+
   const handleAiSettingsChange = useCallback(() => {
     setAiConfig(null);
     localStorage.removeItem(AI_CONFIG_STORAGE_KEY);
@@ -882,8 +1121,8 @@ const App: React.FC = () => {
   // Main Analysis Handler
   // ─────────────────────────────────────────────────────────────────────────────
   const handleSubmit = useCallback(async (data: WizardSubmitData) => {
-    if (!data.sitemapUrl) {
-      setError('Please enter your sitemap.xml URL.');
+    if (!data.url) {
+      setError('Please enter your website URL.');
       setAppState('error');
       return;
     }
@@ -893,16 +1132,27 @@ const App: React.FC = () => {
       return;
     }
     
-    let initialSitemapUrl: URL;
+    let siteUrl: URL;
+    let initialSitemapUrl: URL | undefined;
     try {
-      initialSitemapUrl = new URL(data.sitemapUrl);
+      siteUrl = new URL(data.url);
     } catch (_) {
-      setError('Please enter a valid sitemap URL (e.g., https://example.com/sitemap.xml).');
+      setError('Please enter a valid website URL (e.g., https://example.com).');
       setAppState('error');
       return;
     }
+    if (data.sitemapUrl) {
+      try {
+        initialSitemapUrl = new URL(data.sitemapUrl);
+      } catch (_) {
+        setError('Please enter a valid sitemap URL (e.g., https://example.com/sitemap.xml).');
+        setAppState('error');
+        return;
+      }
+    }
     
-    const competitorUrls = data.competitorSitemaps.split('\n').map(u => u.trim()).filter(Boolean);
+    // Lines starting with "#" are notes the wizard leaves when competitor discovery finds nothing
+    const competitorUrls = data.competitorSitemaps.split('\n').map(u => u.trim()).filter(u => u && !u.startsWith('#'));
 
     // Initialize state
     abortControllerRef.current = new AbortController();
@@ -911,6 +1161,7 @@ const App: React.FC = () => {
     setError(null);
     setSelectedAnalysisId(null);
     setCrawlProgress(null);
+    setIsStoppingCrawl(false);
     resetPipeline();
     setAnalysisStartTime(Date.now());
     
@@ -925,7 +1176,9 @@ const App: React.FC = () => {
         currentTask: 'Initializing parallel crawler...'
       });
       
-      const allPageUrls = await crawlSitemap(initialSitemapUrl.toString(), (progress: CrawlProgress) => {
+      let sitemapSources: SitemapSource[] = [];
+      const crawlResult = await crawlSitemap(siteUrl.toString(), initialSitemapUrl?.toString(), (progress: CrawlProgress) => {
+        if (progress.sitemapSources) sitemapSources = progress.sitemapSources;
         requestAnimationFrame(() => {
           setCrawlProgress(progress);
           const progressPercent = progress.total > 0 ? (progress.count / progress.total) * 100 : 0;
@@ -933,43 +1186,378 @@ const App: React.FC = () => {
             progress: progressPercent,
             itemsProcessed: progress.count,
             totalItems: progress.total,
-            currentTask: `Processing ${progress.currentSitemap || 'sitemap'}...`
+            currentTask: progress.type === 'preflight'
+              ? 'Reading robots.txt and probing common sitemap locations...'
+              : progress.type === 'spidering'
+              ? `No sitemap URLs found, following links: ${progress.currentSitemap || 'homepage'}...`
+              : progress.type === 'linking'
+              ? `Mapping internal links: ${progress.currentSitemap || 'homepage'}...`
+              : `Processing ${progress.currentSitemap || 'sitemap'}...`
           });
         });
-      });
-      
-      updateStage('crawl', { status: 'complete', progress: 100, endTime: Date.now() });
-      addLog(`Discovered ${allPageUrls.size} URLs`, 'success', 'crawl');
-      setPartialResults(prev => ({ ...prev, urlsDiscovered: allPageUrls.size }));
+      }, crawlerSettings, abortControllerRef.current.signal);
+      // The link graph can be large; it feeds analysis but isn't persisted with the report
+      const { entries: sitemapEntries, linkGraph, linkGraphComplete, sitemapFindings, ...crawlReport } = crawlResult;
+      const isSpiderCrawl = crawlResult.method === 'spider';
+
+      const crawlStatusDetail = isSpiderCrawl && crawlResult.status !== 'complete'
+        ? (crawlResult.status === 'cancelled'
+          ? `Link-following was stopped after ${crawlResult.spider?.pagesFetched ?? 0} pages. The analysis covers only the ${sitemapEntries.length} URLs collected so far.`
+          : crawlResult.truncationReason === 'time-budget'
+          ? `The ${crawlerSettings.timeBudgetSeconds}s time budget ran out while following links. The analysis covers only the ${sitemapEntries.length} URLs collected.`
+          : `Reached the ${crawlerSettings.spiderMaxPages.toLocaleString()}-page link-following budget; deeper pages were not visited.`)
+        : crawlResult.status === 'cancelled'
+        ? `Stopped after ${crawlResult.sitemapsProcessed} of ${crawlResult.sitemapsDiscovered} sitemaps. The analysis covers only the ${sitemapEntries.length} URLs collected so far.`
+        : crawlResult.truncationReason === 'time-budget'
+        ? `The ${crawlerSettings.timeBudgetSeconds}s time budget ran out after ${crawlResult.sitemapsProcessed} of ${crawlResult.sitemapsDiscovered} sitemaps. The analysis covers only the ${sitemapEntries.length} URLs collected.`
+        : crawlResult.truncationReason === 'url-budget'
+        ? `Reached the ${crawlerSettings.maxUrls.toLocaleString()}-URL budget; remaining sitemap URLs were not collected.`
+        : undefined;
+
+      updateStage('crawl', { status: 'complete', progress: 100, endTime: Date.now(), warning: crawlStatusDetail });
+      if (sitemapSources.length > 0) {
+        addLog(`Sitemap sources: ${sitemapSources.map(s => `${s.url} (${s.origin})`).join(', ')}`, 'info', 'crawl');
+      } else if (crawlResult.status === 'complete' || isSpiderCrawl) {
+        addLog('No sitemaps found via robots.txt or common locations', 'warning', 'crawl');
+      }
+      if (isSpiderCrawl && crawlResult.spider) {
+        const { pagesFetched, pagesFailed, pagesNoindex, blockedByRobots, maxDepthReached } = crawlResult.spider;
+        addLog(`Followed links from the homepage: ${pagesFetched} pages fetched to depth ${maxDepthReached}, ${linkGraph?.length ?? 0} internal links recorded (${pagesFailed} failed, ${pagesNoindex} noindex, ${blockedByRobots} blocked by robots.txt)`, 'info', 'crawl');
+      } else if (crawlResult.linkMap) {
+        const { pagesFetched, maxDepthReached } = crawlResult.linkMap;
+        addLog(`Mapped internal links: ${pagesFetched} pages fetched to depth ${maxDepthReached}, ${linkGraph?.length ?? 0} links recorded${linkGraphComplete ? '' : ' (stopped at the page, depth or time budget)'}`, 'info', 'crawl');
+      }
 
-      const urlsFromSitemap = Array.from(allPageUrls);
+      // The architecture graph and orphan check use links found on crawled pages, not the model's guesses
+      const linkAnalysis = linkGraph && linkGraph.length > 0
+        ? analyzeLinkGraph(linkGraph, {
+          homepage: new URL('/', siteUrl).toString(),
+          sitemapUrls: isSpiderCrawl ? [] : sitemapEntries.map(entry => entry.loc),
+          complete: !!linkGraphComplete,
+          crawlLimits: { maxPages: crawlerSettings.spiderMaxPages, maxDepth: crawlerSettings.spiderMaxDepth },
+          urlNormalization: crawlerSettings.urlNormalization,
+        })
+        : undefined;
+      const architectureGraph = linkAnalysis
+        ? buildArchitectureGraph(linkAnalysis, linkGraph!, crawlerSettings.urlNormalization)
+        : { nodes: [], edges: [] };
+      const orphanFindings = linkAnalysis ? buildOrphanFindings(linkAnalysis) : [];
+      orphanFindings.forEach(finding => addLog(`Link graph: ${finding.title}`, 'warning', 'crawl'));
+      const failedSitemaps = crawlReport.sitemaps.filter(d => isFailedOutcome(d.outcome));
+      if (failedSitemaps.length > 0) {
+        const breakdown = countOutcomes(failedSitemaps).map(({ outcome, count }) => `${count} ${OUTCOME_LABELS[outcome].toLowerCase()}`).join(', ');
+        addLog(`${failedSitemaps.length} of ${crawlReport.sitemaps.length} sitemaps contributed no URLs (${breakdown})`, 'warning', 'crawl');
+      }
+      if (crawlStatusDetail) {
+        addLog(`Partial crawl (${crawlResult.status}): ${crawlStatusDetail}`, 'warning', 'crawl');
+      }
+      sitemapFindings.forEach(finding => addLog(`Sitemap validation: ${finding.title}`, 'warning', 'crawl'));
+      if (crawlResult.urlVariantsMerged) {
+        addLog(`Merged ${crawlResult.urlVariantsMerged} URL variant${crawlResult.urlVariantsMerged === 1 ? '' : 's'} (trailing slash, tracking parameters, fragments...) into their normalized URL`, 'info', 'crawl');
+      }
+      if (isSpiderCrawl) {
+        addLog(`Discovered ${sitemapEntries.length} URLs by following links`, sitemapEntries.length > 0 ? 'success' : 'warning', 'crawl');
+      } else if (crawlResult.samplingMode === 'stratified' && crawlResult.totalUrlsFound > sitemapEntries.length) {
+        addLog(`Discovered ${crawlResult.totalUrlsFound} URLs across ${crawlResult.coverage.length} sitemap sections; sampled ${sitemapEntries.length} proportionally`, 'success', 'crawl');
+      } else {
+        addLog(`Discovered ${sitemapEntries.length} URLs`, 'success', 'crawl');
+      }
+      setPartialResults(prev => ({
+        ...prev,
+        urlsDiscovered: crawlResult.totalUrlsFound,
+        crawlStatus: crawlResult.status,
+        crawlStatusDetail,
+        crawlReport,
+        linkAnalysis,
+      }));
+
+      const urlsFromSitemap = sitemapEntries.map(entry => entry.loc);
       if (urlsFromSitemap.length === 0) {
-        throw new Error("Crawl complete, but no URLs were found. Your sitemap might be empty or in a format that could not be parsed.");
+        if (crawlResult.status === 'cancelled') {
+          throw new Error("The crawl was stopped before any URLs were found.");
+        }
+        if (crawlResult.truncationReason === 'time-budget') {
+          throw new Error(`The crawl ran out of time (${crawlerSettings.timeBudgetSeconds}s) before any URLs were found. Increase the time budget in Crawler Settings or check that the site is reachable.`);
+        }
+        throw new Error("Crawl complete, but no URLs were found. No usable sitemap was discovered, and no indexable pages could be reached by following links from the homepage.");
       }
       
       // Switch to analysis phase
       setLoadingPhase('analyzing');
       setCrawlProgress(null);
 
+      // ═══════════════════════════════════════════════════════════════════════
+      // STAGE 2: RANK URLS
+      // ═══════════════════════════════════════════════════════════════════════
+      addLog('Prioritizing URLs by SEO value...', 'info', 'rank');
+      updateStage('rank', { status: 'running', startTime: Date.now(), currentTask: 'Scoring URL importance...' });
+      
+      // The crawler scores and ranks the sample off the main thread; here we only pick the analysis set
+      const rankedEntries = sitemapEntries;
+      const inputEntries = crawlResult.samplingMode === 'stratified'
+        ? selectRepresentativeEntries(rankedEntries, crawlResult.coverage, MAX_URLS_FOR_ANALYSIS)
+        : rankedEntries.slice(0, MAX_URLS_FOR_ANALYSIS);
+      
+      updateStage('rank', { status: 'complete', progress: 100, endTime: Date.now() });
+      addLog(`Ranked ${rankedEntries.length} URLs, analyzing top ${inputEntries.length}`, 'success', 'rank');
+      setPartialResults(prev => ({ ...prev, urlsAnalyzed: inputEntries.length }));
+
+      // ═══════════════════════════════════════════════════════════════════════
+      // STAGE 3: VERIFY URL STATUS
+      // ═══════════════════════════════════════════════════════════════════════
+      // Measured problems become action items directly instead of relying on the model to spot them
+      addLog(`Checking HTTP status of ${inputEntries.length} URLs...`, 'info', 'status');
+      updateStage('status', { status: 'running', startTime: Date.now(), totalItems: inputEntries.length, currentTask: 'Requesting each URL...' });
+      // The crawl's Stop button may have aborted the shared controller; status checks get a fresh one
+      abortControllerRef.current = new AbortController();
+      const urlStatus = await checkUrlStatuses(
+        inputEntries.map(entry => entry.loc),
+        crawlerSettings.proxy,
+        abortControllerRef.current.signal,
+        (checked, total) => updateStage('status', { progress: (checked / total) * 100, itemsProcessed: checked })
+      );
+      const statusFindings = buildUrlStatusFindings(urlStatus);
+      let verifiedFindings = [...sitemapFindings, ...orphanFindings, ...statusFindings];
+      const unreachableCount = urlStatus.filter(check => check.status === 0).length;
+      updateStage('status', {
+        status: 'complete',
+        progress: 100,
+        endTime: Date.now(),
+        warning: unreachableCount > 0 ? `${unreachableCount} URLs could not be reached through any fetch provider and were not verified.` : undefined,
+      });
+      statusFindings.forEach(finding => addLog(`Verified: ${finding.title}`, 'warning', 'status'));
+      addLog(`Verified ${urlStatus.length - unreachableCount} URLs, ${statusFindings.length} issue type(s) found`, 'success', 'status');
+      setPartialResults(prev => ({ ...prev, urlStatus, verifiedFindings }));
+
+      // ═══════════════════════════════════════════════════════════════════════
+      // STAGE 4: EXTRACT PAGE CONTENT
+      // ═══════════════════════════════════════════════════════════════════════
+      // The prompts get what the top pages actually say, not just their URLs. Pages that already
+      // answered a broken 4xx or a 5xx have nothing to extract.
+      const failedUrls = new Set(urlStatus.filter(check => isBrokenStatus(check.status) || check.status >= 500).map(check => check.url));
+      const snapshotUrls = inputEntries.map(entry => entry.loc).filter(url => !failedUrls.has(url)).slice(0, MAX_PAGES_FOR_SNAPSHOTS);
+      addLog(`Fetching ${snapshotUrls.length} top pages for on-page extraction...`, 'info', 'pages');
+      updateStage('pages', { status: 'running', startTime: Date.now(), totalItems: snapshotUrls.length, currentTask: 'Fetching page HTML...' });
+      const fetchedSnapshots = await fetchPageSnapshots(
+        snapshotUrls,
+        crawlerSettings.proxy,
+        abortControllerRef.current.signal,
+        (fetched, total) => updateStage('pages', { progress: (fetched / total) * 100, itemsProcessed: fetched })
+      );
+      // File sizes need a HEAD request per image; the rest of the image audit reads the HTML
+      updateStage('pages', { currentTask: 'Checking image file sizes...' });
+      const pageSnapshots = await measureImageSizes(
+        fetchedSnapshots,
+        crawlerSettings.proxy,
+        abortControllerRef.current.signal,
+        (checked, total) => updateStage('pages', { currentTask: `Checking image file sizes (${checked}/${total})...` })
+      );
+      const imageAudit = auditImages(pageSnapshots);
+      const failedSnapshots = pageSnapshots.filter(snapshot => snapshot.error).length;
+      updateStage('pages', {
+        status: 'complete',
+        progress: 100,
+        endTime: Date.now(),
+        warning: failedSnapshots > 0 ? `${failedSnapshots} pages could not be fetched; the AI judges them from their URLs only.` : undefined,
+      });
+      addLog(`Extracted on-page data from ${pageSnapshots.length - failedSnapshots} pages`, failedSnapshots < pageSnapshots.length ? 'success' : 'warning', 'pages');
+      if (imageAudit.imagesAudited > 0) {
+        addLog(`Audited ${imageAudit.imagesAudited} images (${imageAudit.imagesSized} sized by HEAD request)`, 'info', 'pages');
+      }
+      setPartialResults(prev => ({ ...prev, pageSnapshots }));
+
+      // Pages whose raw HTML is an empty JavaScript shell; the AI prompts mark them from the same snapshots
+      const renderingRisks = findRenderingRisks(pageSnapshots);
+      if (renderingRisks.length > 0) {
+        verifiedFindings = [...verifiedFindings, ...buildRenderingFindings(renderingRisks)];
+        addLog(`${renderingRisks.length} page${renderingRisks.length === 1 ? '' : 's'} only render their content with JavaScript`, 'warning', 'pages');
+        setPartialResults(prev => ({ ...prev, verifiedFindings }));
+      }
+
+      // Deterministic checks on the extracted pages; merged into the AI's technical health below.
+      // The content rules skip the shells found above, whose empty raw HTML says nothing about the rendered page
+      const onPageRuleItems = runOnPageRules(pageSnapshots, {
+        fromSitemap: !isSpiderCrawl,
+        urlNormalization: crawlerSettings.urlNormalization,
+        jsRenderedUrls: new Set(renderingRisks.map(risk => risk.url)),
+      });
+      if (onPageRuleItems.length > 0) {
+        addLog(`On-page rules flagged ${onPageRuleItems.length} issue types`, 'warning', 'pages');
+      }
+
+      // Near-duplicate body text becomes the merge/canonical page actions and the executive summary's redirects
+      const duplicateClusters = findDuplicateClusters(pageSnapshots, { urlNormalization: crawlerSettings.urlNormalization, linkAnalysis });
+      const duplicatePageActions = buildDuplicatePageActions(duplicateClusters);
+      const duplicateRedirects = buildDuplicateRedirects(duplicateClusters);
+      if (duplicateClusters.length > 0) {
+        const duplicateCount = duplicateClusters.reduce((sum, cluster) => sum + cluster.duplicates.length, 0);
+        addLog(`Found ${duplicateClusters.length} near-duplicate content cluster${duplicateClusters.length === 1 ? '' : 's'} (${duplicateCount} duplicate pages)`, 'warning', 'pages');
+        setPartialResults(prev => ({ ...prev, duplicateClusters }));
+      }
+
+      // Refresh actions come from measured dates, year mentions and, for a connected GSC property, the click trend
+      const gscSiteUrl = gscSites.some(site => site.siteUrl === data.url) ? data.url : undefined;
+      const clickTrends = gscToken && gscSiteUrl
+        ? await fetchGscClickTrends(gscSiteUrl, gscToken.access_token).catch(e => {
+            addLog(`Search Console clicks unavailable for decay scoring: ${e instanceof Error ? e.message : String(e)}`, 'warning', 'pages');
+            return undefined;
+          })
+        : undefined;
+      const contentDecay = scoreContentDecay(inputEntries, pageSnapshots, {
+        now: new Date(),
+        urlNormalization: crawlerSettings.urlNormalization,
+        clickTrends,
+      });
+      const decayPageActions = buildDecayPageActions(contentDecay);
+      if (contentDecay.length > 0) {
+        addLog(`Scored ${contentDecay.length} page${contentDecay.length === 1 ? '' : 's'} at risk of content decay${clickTrends ? ' (with GSC click trends)' : ''}`, 'warning', 'pages');
+      }
+
+      // Hreflang annotations from the sitemap and the fetched pages; alternates outside the analysis set get a status check
+      const hreflangTargets = collectHreflangTargets(inputEntries, pageSnapshots, urlStatus, crawlerSettings.urlNormalization).slice(0, MAX_HREFLANG_TARGET_CHECKS);
+      const hreflangStatus = hreflangTargets.length > 0
+        ? await checkUrlStatuses(hreflangTargets, crawlerSettings.proxy, abortControllerRef.current.signal, () => {})
+        : [];
+      const hreflangAudit = auditHreflang(inputEntries, pageSnapshots, {
+        urlNormalization: crawlerSettings.urlNormalization,
+        statusChecks: [...urlStatus, ...hreflangStatus],
+      });
+      const hreflangFindings = buildHreflangFindings(hreflangAudit);
+      if (hreflangAudit.clustersFound > 0) {
+        hreflangFindings.forEach(finding => addLog(`Hreflang: ${finding.title}`, 'warning', 'pages'));
+        verifiedFindings = [...verifiedFindings, ...hreflangFindings];
+        setPartialResults(prev => ({ ...prev, hreflangAudit, verifiedFindings }));
+      }
+
+      // Canonicals and redirect chains judged by status codes; only redirects this data supports are proposed
+      const canonicalTargets = findUncheckedUrls(collectCanonicalTargets(pageSnapshots, crawlerSettings.urlNormalization), [...urlStatus, ...hreflangStatus], crawlerSettings.urlNormalization)
+        .slice(0, MAX_CANONICAL_TARGET_CHECKS);
+      const canonicalStatus = canonicalTargets.length > 0
+        ? await checkUrlStatuses(canonicalTargets, crawlerSettings.proxy, abortControllerRef.current.signal, () => {})
+        : [];
+      const measuredStatus = [...urlStatus, ...hreflangStatus, ...canonicalStatus];
+      const redirectFindings = buildRedirectFindings(measuredStatus, pageSnapshots, {
+        urlNormalization: crawlerSettings.urlNormalization,
+        sitemapUrls: isSpiderCrawl ? [] : urlsFromSitemap,
+      });
+      const verifiedRedirects = [...duplicateRedirects, ...buildVerifiedRedirects(measuredStatus, pageSnapshots, crawlerSettings.urlNormalization)];
+      if (redirectFindings.length > 0) {
+        redirectFindings.forEach(finding => addLog(`Redirects & canonicals: ${finding.title}`, 'warning', 'pages'));
+        verifiedFindings = [...verifiedFindings, ...redirectFindings];
+        setPartialResults(prev => ({ ...prev, verifiedFindings }));
+      }
+
+      // ═══════════════════════════════════════════════════════════════════════
+      // STAGE 5: CHECK LINKS
+      // ═══════════════════════════════════════════════════════════════════════
+      // Every <a href> on the fetched pages, each distinct target requested once; URLs already checked above are reused
+      const linkCheckOptions = { siteUrl: siteUrl.toString(), urlNormalization: crawlerSettings.urlNormalization };
+      const linkTargets = findUncheckedUrls(collectLinkTargets(pageSnapshots, linkCheckOptions), measuredStatus, crawlerSettings.urlNormalization)
+        .slice(0, MAX_LINK_TARGET_CHECKS);
+      addLog(`Checking ${linkTargets.length} link targets from the fetched pages...`, 'info', 'links');
+      updateStage('links', { status: 'running', startTime: Date.now(), totalItems: linkTargets.length, currentTask: 'Requesting link targets...' });
+      const linkStatus = await checkUrlStatuses(
+        linkTargets,
+        crawlerSettings.proxy,
+        abortControllerRef.current.signal,
+        (checked, total) => updateStage('links', { progress: (checked / total) * 100, itemsProcessed: checked })
+      );
+      const linkCheck = buildLinkCheckReport(pageSnapshots, [...measuredStatus, ...linkStatus], linkCheckOptions);
+      const brokenLinkFindings = buildBrokenLinkFindings(linkCheck);
+      const uncheckedTargets = linkCheck.targetsFound - linkCheck.targetsChecked;
+      updateStage('links', {
+        status: 'complete',
+        progress: 100,
+        endTime: Date.now(),
+        warning: uncheckedTargets > 0 ? `${uncheckedTargets} link targets were over the check limit or unreachable and were not verified.` : undefined,
+      });
+      addLog(`Checked ${linkCheck.targetsChecked} link targets: ${linkCheck.internalBroken.length} broken internal, ${linkCheck.outboundBroken.length} broken outbound`, linkCheck.internalBroken.length > 0 ? 'warning' : 'success', 'links');
+      verifiedFindings = [...verifiedFindings, ...brokenLinkFindings];
+      setPartialResults(prev => ({ ...prev, linkCheck, verifiedFindings }));
+
+      // The model's redirect suggestions are kept only where the status codes back them; the rest are flagged
+      const verifyRedirects = async (summary: ExecutiveSummary): Promise<ExecutiveSummary> => {
+        const suggestedUrls = findUncheckedUrls(summary.redirects.flatMap(redirect => [redirect.from, redirect.to]), measuredStatus, crawlerSettings.urlNormalization)
+          .slice(0, MAX_AI_REDIRECT_CHECKS);
+        const suggestedStatus = suggestedUrls.length > 0
+          ? await checkUrlStatuses(suggestedUrls, crawlerSettings.proxy, abortControllerRef.current!.signal, () => {})
+          : [];
+        const { supported, flagged } = reconcileAiRedirects(summary.redirects, verifiedRedirects, [...measuredStatus, ...suggestedStatus], pageSnapshots, crawlerSettings.urlNormalization);
+        if (flagged.length > 0) {
+          addLog(`Flagged ${flagged.length} AI-suggested redirect${flagged.length === 1 ? '' : 's'} the measured status codes don't support`, 'warning', 'summary');
+        }
+        return { ...summary, redirects: [...verifiedRedirects, ...supported], flaggedRedirects: flagged };
+      };
+
+      // Competitors go through the same crawler and ranking; only the sitewide audit waits for them.
+      // A cache hit skips the AI but still crawls them, so the saved analysis shows the competitor inventory
+      const analysisSignal = abortControllerRef.current.signal;
+      let competitorInventories: CompetitorInventory[] = [];
+      const crawlCompetitorInventories = async () => {
+        if (competitorUrls.length === 0) return;
+        competitorInventories = await crawlCompetitors(competitorUrls, crawlerSettings, analysisSignal, (msg) => {
+          updateStage('competitor', { currentTask: msg });
+          addLog(msg, 'info', 'competitor');
+        });
+        const crawledCount = competitorInventories.filter(c => c.status !== 'failed').length;
+        addLog(`Crawled ${crawledCount} of ${competitorUrls.length} competitor sitemaps`, crawledCount > 0 ? 'success' : 'warning', 'competitor');
+        setPartialResults(prev => ({ ...prev, competitorInventories }));
+      };
+
       // ═══════════════════════════════════════════════════════════════════════
       // CACHE CHECK: Try to use cached results
       // ═══════════════════════════════════════════════════════════════════════
       addLog('Checking for cached analysis...', 'info');
-      const cachedAnalysis = await cacheService.getAnalysis(data.url, urlsFromSitemap);
+      // A stratified sample is only a slice of the site, so key the cache on the site's inventory rather than the sampled URLs.
+      // The sample is seeded per sitemap, so the page keys below stay the same while the sitemaps don't change
+      // Competitors shape the content gaps, so a different competitor set must not hit the same entry
+      // The cache normalizes every URL with the crawler's rules, so a re-crawl that lists /page/ instead of /page still hits
+      const cacheKeyParts: CacheKeyPart[] = [
+        ...(crawlResult.samplingMode === 'stratified'
+          ? crawlResult.coverage.map(section => ({ url: section.sitemap, detail: `inventory:${section.totalUrls}` }))
+          : urlsFromSitemap.map(url => ({ url }))),
+        ...competitorUrls.map(url => ({ url, detail: 'competitor' })),
+        // Rewritten titles, descriptions or H1s, or added or fixed schema, change what the AI sees, so they must miss the cache
+        ...pageSnapshots.filter(snapshot => !snapshot.error).map(snapshot => ({
+          url: snapshot.url,
+          detail: `page:${snapshot.title || ''}|${snapshot.metaDescription || ''}|${snapshot.headings.find(h => h.level === 1)?.text || ''}|${snapshot.structuredData.map(item => `${item.types.join('/')}:${item.errors.length}`).join(',')}`,
+        })),
+      ];
+      const cachedAnalysis = await cacheService.getAnalysis(data.url, cacheKeyParts, crawlerSettings.urlNormalization);
       
       if (cachedAnalysis) {
         addLog('🚀 Cache hit! Using cached analysis...', 'success');
+        const cachedSitewide: SitewideAnalysis = {
+          ...cachedAnalysis.sitewide,
+          technicalHealth: mergeOnPageRuleItems(cachedAnalysis.sitewide.technicalHealth, onPageRuleItems),
+          siteArchitectureGraph: architectureGraph,
+          imageAudit,
+        };
+        const cachedSeo: SeoAnalysisResult = {
+          ...cachedAnalysis.seo,
+          pageActions: attachContentMetrics(
+            mergeDecayPageActions(mergeDuplicatePageActions(cachedAnalysis.seo.pageActions, duplicatePageActions), decayPageActions),
+            pageSnapshots,
+            crawlerSettings.urlNormalization
+          ),
+        };
         
+        if (competitorUrls.length > 0) {
+          updateStage('competitor', { status: 'running', startTime: Date.now(), currentTask: 'Crawling competitor sitemaps...' });
+          await crawlCompetitorInventories();
+        }
+
         // Fast-forward completed stages
-        ['rank', 'competitor', 'technical', 'content'].forEach(stageId => {
+        ['competitor', 'technical', 'content'].forEach(stageId => {
           updateStage(stageId, { status: 'complete', progress: 100, endTime: Date.now() });
         });
         
-        setPartialResults({
-          urlsDiscovered: urlsFromSitemap.length,
-          sitewideAnalysis: cachedAnalysis.sitewide,
-          seoAnalysis: cachedAnalysis.seo,
-        });
+        setPartialResults(prev => ({
+          ...prev,
+          urlsDiscovered: crawlResult.totalUrlsFound,
+          sitewideAnalysis: cachedSitewide,
+          seoAnalysis: cachedSeo,
+        }));
         
         // Generate fresh action plan
         addLog('Generating fresh action plan from cache...', 'ai', 'actionplan');
@@ -977,12 +1565,13 @@ const App: React.FC = () => {
         
         const actionPlan = await createActionPlan(
           aiConfig, 
-          cachedAnalysis.sitewide, 
-          cachedAnalysis.seo, 
+          cachedSitewide, 
+          cachedSeo, 
           (msg) => {
             updateStage('actionplan', { currentTask: msg });
             addLog(msg, 'ai', 'actionplan');
-          }
+          },
+          verifiedFindings
         );
         
         updateStage('actionplan', { status: 'complete', progress: 100, endTime: Date.now() });
@@ -993,7 +1582,7 @@ const App: React.FC = () => {
         addLog('Synthesizing executive summary...', 'ai', 'summary');
         updateStage('summary', { status: 'running', startTime: Date.now(), currentTask: 'Creating 80/20 analysis...' });
         
-        const executiveSummary = await generateExecutiveSummary(aiConfig, cachedAnalysis.sitewide, cachedAnalysis.seo);
+        const executiveSummary = await verifyRedirects(await generateExecutiveSummary(aiConfig, cachedSitewide, cachedSeo));
         
         updateStage('summary', { status: 'complete', progress: 100, endTime: Date.now() });
         addLog('Executive summary complete', 'success', 'summary');
@@ -1005,18 +1594,33 @@ const App: React.FC = () => {
           date: new Date().toLocaleString(undefined, { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' }),
           sitemapUrl: data.url,
           competitorSitemaps: competitorUrls,
-          sitewideAnalysis: cachedAnalysis.sitewide,
-          analysis: cachedAnalysis.seo,
+          sitewideAnalysis: cachedSitewide,
+          analysis: cachedSeo,
           sources: [],
           analysisType: data.analysisType,
           location: data.targetLocation,
           actionPlan: actionPlan,
           executiveSummary: executiveSummary,
+          crawlReport,
+          urlStatus,
+          verifiedFindings,
+          competitorInventories,
+          pageSnapshots: pageSnapshots.map(toStoredSnapshot),
+          linkAnalysis: linkAnalysis && toStoredLinkAnalysis(linkAnalysis),
+          duplicateClusters,
+          hreflangAudit,
+          linkCheck,
+          contentDecay,
         };
         
         const updatedHistory = [newAnalysis, ...analysisHistory].slice(0, 10);
         setAnalysisHistory(updatedHistory);
-        localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(updatedHistory));
+        const storedCount = persistHistory(updatedHistory);
+        if (storedCount < updatedHistory.length) {
+          addLog(storedCount === 0
+            ? 'This analysis is too large to save in browser storage; it is only available until the page is reloaded'
+            : `Browser storage is full: kept the ${storedCount} most recent analyses in saved history`, 'warning');
+        }
         setSelectedAnalysisId(newAnalysis.id);
         setAppState('results');
         return;
@@ -1025,33 +1629,25 @@ const App: React.FC = () => {
       addLog('No valid cache found, running full analysis...', 'info');
 
       // ═══════════════════════════════════════════════════════════════════════
-      // STAGE 2: RANK URLS
-      // ═══════════════════════════════════════════════════════════════════════
-      addLog('Prioritizing URLs by SEO value...', 'info', 'rank');
-      updateStage('rank', { status: 'running', startTime: Date.now(), currentTask: 'Scoring URL importance...' });
-      
-      const rankedUrls = rankUrls(urlsFromSitemap);
-      const inputUrls = rankedUrls.slice(0, MAX_URLS_FOR_ANALYSIS);
-      
-      updateStage('rank', { status: 'complete', progress: 100, endTime: Date.now() });
-      addLog(`Ranked ${rankedUrls.length} URLs, analyzing top ${inputUrls.length}`, 'success', 'rank');
-      setPartialResults(prev => ({ ...prev, urlsAnalyzed: inputUrls.length }));
-
-      // ═══════════════════════════════════════════════════════════════════════
-      // STAGES 3-5: PARALLEL ANALYSIS (Competitor + Technical + Content)
+      // STAGES 6-8: PARALLEL ANALYSIS (Competitor + Technical + Content)
       // ═══════════════════════════════════════════════════════════════════════
       addLog('Starting parallel AI analysis engines...', 'ai');
       
       // Mark all parallel stages as running
-      updateStage('competitor', { status: 'running', startTime: Date.now(), currentTask: 'Analyzing competitor sitemaps...' });
+      if (competitorUrls.length > 0) {
+        updateStage('competitor', { status: 'running', startTime: Date.now(), currentTask: 'Crawling competitor sitemaps...' });
+      } else {
+        updateStage('competitor', { status: 'skipped', currentTask: 'No competitor sitemaps provided' });
+      }
       updateStage('technical', { status: 'running', startTime: Date.now(), currentTask: 'Auditing technical health...' });
       updateStage('content', { status: 'running', startTime: Date.now(), currentTask: 'Evaluating content quality...' });
-      
-      const [sitewideAnalysis, { analysis, sources }] = await Promise.all([
-        generateSitewideAudit(
+
+      const [aiSitewideAnalysis, { analysis: aiAnalysis, sources }] = await Promise.all([
+        crawlCompetitorInventories().then(() => generateSitewideAudit(
           aiConfig,
-          inputUrls, 
-          competitorUrls, 
+          inputEntries, 
+          pageSnapshots,
+          competitorInventories, 
           data.analysisType, 
           data.targetLocation, 
           (msg) => {
@@ -1062,11 +1658,13 @@ const App: React.FC = () => {
               updateStage('technical', { currentTask: msg });
               addLog(msg, 'ai', 'technical');
             }
-          }
-        ),
+          },
+          crawlResult.coverage
+        )),
         generateSeoAnalysis(
           aiConfig,
-          inputUrls, 
+          inputEntries, 
+          pageSnapshots,
           data.analysisType, 
           data.targetLocation,
           [],
@@ -1078,12 +1676,30 @@ const App: React.FC = () => {
       ]);
       
       // Mark parallel stages complete
-      updateStage('competitor', { status: 'complete', progress: 100, endTime: Date.now() });
+      if (competitorUrls.length > 0) {
+        updateStage('competitor', { status: 'complete', progress: 100, endTime: Date.now() });
+      }
       updateStage('technical', { status: 'complete', progress: 100, endTime: Date.now() });
       updateStage('content', { status: 'complete', progress: 100, endTime: Date.now() });
       
       addLog('Sitewide audit complete', 'success', 'technical');
       addLog('Content analysis complete', 'success', 'content');
+
+      // Rule findings, the crawled link graph, duplicate actions and page metrics are layered on top of the AI output; the cache keeps it as returned
+      const sitewideAnalysis: SitewideAnalysis = {
+        ...aiSitewideAnalysis,
+        technicalHealth: mergeOnPageRuleItems(aiSitewideAnalysis.technicalHealth, onPageRuleItems),
+        siteArchitectureGraph: architectureGraph,
+        imageAudit,
+      };
+      const analysis: SeoAnalysisResult = {
+        ...aiAnalysis,
+        pageActions: attachContentMetrics(
+          mergeDecayPageActions(mergeDuplicatePageActions(aiAnalysis.pageActions, duplicatePageActions), decayPageActions),
+          pageSnapshots,
+          crawlerSettings.urlNormalization
+        ),
+      };
       
       // Surface partial results immediately
       setPartialResults(prev => ({ 
@@ -1096,10 +1712,10 @@ const App: React.FC = () => {
       // CACHE: Store results for future use
       // ═══════════════════════════════════════════════════════════════════════
       addLog('Caching analysis for future use...', 'info');
-      await cacheService.setAnalysis(data.url, urlsFromSitemap, sitewideAnalysis, analysis);
+      await cacheService.setAnalysis(data.url, cacheKeyParts, crawlerSettings.urlNormalization, aiSitewideAnalysis, aiAnalysis);
 
       // ═══════════════════════════════════════════════════════════════════════
-      // STAGE 6: ACTION PLAN
+      // STAGE 9: ACTION PLAN
       // ═══════════════════════════════════════════════════════════════════════
       addLog('Generating implementation roadmap...', 'ai', 'actionplan');
       updateStage('actionplan', { 
@@ -1115,7 +1731,8 @@ const App: React.FC = () => {
         (msg) => {
           updateStage('actionplan', { currentTask: msg });
           addLog(msg, 'ai', 'actionplan');
-        }
+        },
+        verifiedFindings
       );
       
       updateStage('actionplan', { status: 'complete', progress: 100, endTime: Date.now() });
@@ -1123,7 +1740,7 @@ const App: React.FC = () => {
       setPartialResults(prev => ({ ...prev, actionPlan }));
 
       // ═══════════════════════════════════════════════════════════════════════
-      // STAGE 7: EXECUTIVE SUMMARY
+      // STAGE 10: EXECUTIVE SUMMARY
       // ═══════════════════════════════════════════════════════════════════════
       addLog('Synthesizing executive summary...', 'ai', 'summary');
       updateStage('summary', { 
@@ -1132,7 +1749,7 @@ const App: React.FC = () => {
         currentTask: 'Generating 80/20 analysis...'
       });
       
-      const executiveSummary = await generateExecutiveSummary(aiConfig, sitewideAnalysis, analysis);
+      const executiveSummary = await verifyRedirects(await generateExecutiveSummary(aiConfig, sitewideAnalysis, analysis));
       
       updateStage('summary', { status: 'complete', progress: 100, endTime: Date.now() });
       addLog('Executive summary complete', 'success', 'summary');
@@ -1155,11 +1772,26 @@ const App: React.FC = () => {
         location: data.targetLocation,
         actionPlan: actionPlan,
         executiveSummary: executiveSummary,
+        crawlReport,
+        urlStatus,
+        verifiedFindings,
+        competitorInventories,
+        pageSnapshots: pageSnapshots.map(toStoredSnapshot),
+        linkAnalysis: linkAnalysis && toStoredLinkAnalysis(linkAnalysis),
+        duplicateClusters,
+        hreflangAudit,
+        linkCheck,
+        contentDecay,
       };
       
       const updatedHistory = [newAnalysis, ...analysisHistory].slice(0, 10);
       setAnalysisHistory(updatedHistory);
-      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(updatedHistory));
+      const storedCount = persistHistory(updatedHistory);
+      if (storedCount < updatedHistory.length) {
+        addLog(storedCount === 0
+          ? 'This analysis is too large to save in browser storage; it is only available until the page is reloaded'
+          : `Browser storage is full: kept the ${storedCount} most recent analyses in saved history`, 'warning');
+      }
 
       setSelectedAnalysisId(newAnalysis.id);
       setAppState('results');
@@ -1177,7 +1809,13 @@ const App: React.FC = () => {
       
       setAppState('error');
     }
-  }, [aiConfig, analysisHistory, updateStage, addLog, resetPipeline]);
+  }, [aiConfig, crawlerSettings, analysisHistory, gscToken, gscSites, updateStage, addLog, resetPipeline]);
+
+  const handleStopCrawl = useCallback(() => {
+    setIsStoppingCrawl(true);
+    addLog('Stopping crawl at user request...', 'warning', 'crawl');
+    abortControllerRef.current?.abort();
+  }, [addLog]);
 
   // ─────────────────────────────────────────────────────────────────────────────
   // GSC Handlers
@@ -1211,7 +1849,7 @@ const App: React.FC = () => {
       case 'loading':
         // Show crawling animation during crawl phase
         if (loadingPhase === 'crawling' && crawlProgress) {
-          return <CrawlingAnimation progress={crawlProgress} />;
+          return <CrawlingAnimation progress={crawlProgress} onStop={handleStopCrawl} isStopping={isStoppingCrawl} />;
         }
         
         // Show pipeline + progressive results during analysis phase
@@ -1307,6 +1945,13 @@ const App: React.FC = () => {
   // ─────────────────────────────────────────────────────────────────────────────
   return (
     <div className="min-h-screen bg-gray-950 text-gray-300 font-sans">
+      {/* Crawler Settings Modal */}
+      {isCrawlerSettingsOpen && (
+        <Modal title="Crawler Settings" onClose={() => setIsCrawlerSettingsOpen(false)}>
+          <CrawlerSettingsPanel settings={crawlerSettings} onSave={handleCrawlerSettingsSave} />
+        </Modal>
+      )}
+
       {/* GSC Modal */}
       {isGscModalOpen && (
         <Modal title="Connect Google Search Console" onClose={() => setIsGscModalOpen(false)}>
@@ -1356,6 +2001,7 @@ const App: React.FC = () => {
               onConnectClick={() => setIsGscModalOpen(true)}
               isAiConfigured={!!aiConfig}
               onAiSettingsClick={handleAiSettingsChange}
+              onCrawlerSettingsClick={() => setIsCrawlerSettingsOpen(true)}
             />
             <main>
               {renderContent()}
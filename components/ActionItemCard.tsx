@@ -1,8 +1,10 @@
 
 import React, { useState } from 'react';
-import { ActionItem, ChecklistItem } from '../types';
+import { ActionItem, ChecklistItem, ContentMetrics } from '../types';
 import { PromptLibrary } from './PromptLibrary';
 import { slugify } from '../utils/utility';
+import { readabilityLabel } from '../utils/contentMetrics';
+import { THIN_CONTENT_WORDS } from '../utils/onPageRules';
 
 const priorityStyles: { [key in ActionItem['priority']]: string } = {
     high: 'border-red-500/80 bg-red-900/30 text-red-300',
@@ -35,6 +37,69 @@ const Section: React.FC<{ title: string; children: React.ReactNode; className?:
     </div>
 );
 
+// Beyond these, copy gets hard to read or scan: grade 12 is a high-school senior, LIX 55 is specialist text
+const MAX_READING_GRADE = 12;
+const MAX_LIX = 55;
+const MAX_AVERAGE_SENTENCE_WORDS = 20;
+const MAX_WORDS_PER_SUBHEADING = 300;
+
+const MetricTile: React.FC<{ label: string; value: React.ReactNode; warn?: boolean; hint?: string }> = ({ label, value, warn = false, hint }) => (
+    <div className="bg-gray-900/60 rounded-md px-3 py-2" title={hint}>
+        <p className={`text-base font-bold ${warn ? 'text-yellow-400' : 'text-gray-200'}`}>{value}</p>
+        <p className="text-[11px] text-gray-500 uppercase tracking-wider">{label}</p>
+    </div>
+);
+
+const ContentMetricsSection: React.FC<{ metrics: ContentMetrics }> = ({ metrics }) => {
+    const { readability, sentenceLengths, primaryKeyword } = metrics;
+    const readabilityLimit = readability?.formula === 'lix' ? MAX_LIX : MAX_READING_GRADE;
+    const buckets = [
+        { label: '≤10', count: sentenceLengths.short },
+        { label: '11-20', count: sentenceLengths.medium },
+        { label: '21-30', count: sentenceLengths.long },
+        { label: '>30', count: sentenceLengths.veryLong },
+    ];
+    const check = (value: boolean) => <span className={value ? 'text-green-400' : 'text-yellow-400'}>{value ? '✓' : '✗'}</span>;
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                <MetricTile label="Words" value={metrics.wordCount} warn={metrics.wordCount < THIN_CONTENT_WORDS} hint={`Under ${THIN_CONTENT_WORDS} words is thin`} />
+                <MetricTile
+                    label={readability ? readabilityLabel(readability.formula) : 'Readability'}
+                    value={readability ? readability.score : 'n/a'}
+                    warn={!!readability && readability.score > readabilityLimit}
+                    hint={readability ? `Above ${readabilityLimit} is hard for a general audience` : 'Too little text, or a language written without spaces'}
+                />
+                <MetricTile label="Avg. sentence" value={`${metrics.averageSentenceLength} words`} warn={metrics.averageSentenceLength > MAX_AVERAGE_SENTENCE_WORDS} hint={`Over ${MAX_AVERAGE_SENTENCE_WORDS} words on average is hard to follow`} />
+                <MetricTile
+                    label="Words / subheading"
+                    value={metrics.wordsPerSubheading ?? 'no H2/H3'}
+                    warn={metrics.wordsPerSubheading === null ? metrics.wordCount > MAX_WORDS_PER_SUBHEADING : metrics.wordsPerSubheading > MAX_WORDS_PER_SUBHEADING}
+                    hint={`More than ${MAX_WORDS_PER_SUBHEADING} words between subheadings is hard to scan`}
+                />
+            </div>
+            <div>
+                <p className="text-xs text-gray-500 mb-1">Sentence lengths ({metrics.sentenceCount} sentences, words per sentence)</p>
+                <div className="flex h-2 rounded overflow-hidden bg-gray-800">
+                    {buckets.map((bucket, index) => bucket.count > 0 && (
+                        <div key={bucket.label} className={['bg-green-500', 'bg-teal-500', 'bg-yellow-500', 'bg-red-500'][index]} style={{ width: `${(bucket.count / metrics.sentenceCount) * 100}%` }} />
+                    ))}
+                </div>
+                <div className="flex gap-3 mt-1 text-[11px] text-gray-400">
+                    {buckets.map(bucket => <span key={bucket.label}>{bucket.label}: {bucket.count}</span>)}
+                </div>
+            </div>
+            {primaryKeyword ? (
+                <p className="text-xs text-gray-300">
+                    Primary keyword <span className="font-mono text-teal-300">"{primaryKeyword.phrase}"</span>: {primaryKeyword.occurrences} uses ({primaryKeyword.density}%) · title {check(primaryKeyword.inTitle)} · H1 {check(primaryKeyword.inH1)} · first paragraph {check(primaryKeyword.inFirstParagraph)}
+                </p>
+            ) : (
+                <p className="text-xs text-yellow-400">No phrase recurs often enough to be the page's focus.</p>
+            )}
+        </div>
+    );
+};
 
 export const ActionItemCard: React.FC<{ actionItem: ActionItem; onToggleTaskComplete: (id: string) => void }> = ({ actionItem, onToggleTaskComplete }) => {
     const [activeTab, setActiveTab] = useState<'implementation' | 'details' | 'prompts' | 'verification'>('implementation');
@@ -91,6 +156,18 @@ export const ActionItemCard: React.FC<{ actionItem: ActionItem; onToggleTaskComp
                         )}
                          {activeTab === 'details' && (
                             <div className="grid md:grid-cols-2 gap-6 text-sm">
+                                {actionItem.evidence && actionItem.evidence.length > 0 && (
+                                    <Section title={`Verified Evidence (${actionItem.evidence.length})`} className="md:col-span-2">
+                                        <ul className="space-y-1 font-mono text-xs text-gray-300 max-h-48 overflow-y-auto">
+                                            {actionItem.evidence.map((line, index) => <li key={index} className="break-all">{line}</li>)}
+                                        </ul>
+                                    </Section>
+                                )}
+                                {actionItem.contentMetrics && (
+                                    <Section title="Content Metrics (measured)" className="md:col-span-2">
+                                        <ContentMetricsSection metrics={actionItem.contentMetrics} />
+                                    </Section>
+                                )}
                                 <Section title="Tools Required">
                                     <ul className="space-y-2">
                                         {actionItem.toolsRequired.map((tool, index) => (
@@ -27,7 +27,7 @@ const ChevronIcon: React.FC<{ isOpen: boolean }> = ({ isOpen }) => (
 
 export const ActionPlanDashboard: React.FC<ActionPlanDashboardProps> = (props) => {
     const { analysis } = props;
-    const { actionPlan, sitewideAnalysis, executiveSummary } = analysis;
+    const { actionPlan, sitewideAnalysis, executiveSummary, verifiedFindings } = analysis;
     const [selectedDay, setSelectedDay] = useState<number>(actionPlan?.[0]?.day || 1);
     const [isSitewideAuditOpen, setIsSitewideAuditOpen] = useState(false);
 
@@ -127,7 +127,7 @@ export const ActionPlanDashboard: React.FC<ActionPlanDashboardProps> = (props) =
                 </button>
                  <div className={`overflow-hidden transition-all duration-500 ease-in-out ${isSitewideAuditOpen ? 'max-h-[5000px]' : 'max-h-0'}`}>
                     <div className="p-4 border-t border-gray-800">
-                        {sitewideAnalysis && <SitewideAuditDisplay audit={sitewideAnalysis} />}
+                        {sitewideAnalysis && <SitewideAuditDisplay audit={sitewideAnalysis} verifiedFindings={verifiedFindings} />}
                     </div>
                 </div>
             </div>
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import type { BrokenLink, LinkCheckReport } from '../types';
+
+interface BrokenLinksPanelProps {
+  report: LinkCheckReport;
+}
+
+type View = 'internal' | 'outbound';
+
+const SOURCES_SHOWN = 3;
+
+export const BrokenLinksPanel: React.FC<BrokenLinksPanelProps> = ({ report }) => {
+  const [view, setView] = useState<View>('internal');
+
+  const counts = [
+    { label: 'Pages scanned', value: report.pagesScanned, warn: false },
+    { label: 'Links found', value: report.linksFound, warn: false },
+    { label: 'Targets checked', value: report.targetsChecked, warn: false },
+    { label: 'Broken internal', value: report.internalBroken.length, warn: true },
+    { label: 'Broken outbound', value: report.outboundBroken.length, warn: true },
+  ];
+
+  const views: { id: View; label: string; links: BrokenLink[] }[] = [
+    { id: 'internal', label: `Internal (${report.internalBroken.length})`, links: report.internalBroken },
+    { id: 'outbound', label: `Outbound (${report.outboundBroken.length})`, links: report.outboundBroken },
+  ];
+  const rows = views.find(v => v.id === view)!.links;
+
+  return (
+    <div className="bg-gray-800/60 rounded-xl p-5 border border-gray-700/50">
+      <div className="flex flex-wrap items-baseline justify-between gap-3 mb-3">
+        <h4 className="font-semibold text-gray-200">Broken Links</h4>
+        <span className="text-xs text-gray-400">
+          {report.targetsChecked < report.targetsFound
+            ? `${report.targetsChecked} of ${report.targetsFound} distinct targets verified`
+            : `All ${report.targetsFound} distinct targets verified`}
+        </span>
+      </div>
+      <div className="grid grid-cols-3 sm:grid-cols-5 gap-2 mb-4">
+        {counts.map(({ label, value, warn }) => (
+          <div key={label} className="bg-gray-900/50 rounded-lg px-3 py-2 text-center">
+            <p className={`text-lg font-bold ${warn && value > 0 ? 'text-yellow-400' : 'text-gray-300'}`}>{value.toLocaleString()}</p>
+            <p className="text-[11px] text-gray-500 uppercase tracking-wider">{label}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        {views.map(v => (
+          <button
+            key={v.id}
+            onClick={() => setView(v.id)}
+            className={`px-2.5 py-1 text-xs font-semibold rounded-md ${view === v.id ? 'bg-blue-600/30 text-blue-300' : 'text-gray-400 hover:text-gray-200'}`}
+          >
+            {v.label}
+          </button>
+        ))}
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-400">No broken {view} links among the targets checked.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-72 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="text-gray-500 text-left sticky top-0 bg-gray-800">
+              <tr>
+                <th className="py-1.5 pr-3 font-semibold">Target</th>
+                <th className="py-1.5 pr-3 font-semibold text-right">Status</th>
+                <th className="py-1.5 pr-3 font-semibold text-right">Links</th>
+                <th className="py-1.5 font-semibold">Linked from</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700/50">
+              {rows.map(link => (
+                <tr key={link.url} className="align-top">
+                  <td className="py-1.5 pr-3 max-w-xs">
+                    <p className="font-mono text-gray-300 truncate" title={link.url}>{link.url}</p>
+                  </td>
+                  <td className="py-1.5 pr-3 text-right text-red-400 font-semibold">{link.status}</td>
+                  <td className="py-1.5 pr-3 text-right text-gray-400">{link.linkCount}</td>
+                  <td className="py-1.5 max-w-xs">
+                    {link.sources.slice(0, SOURCES_SHOWN).map(source => (
+                      <p key={source.page} className="text-gray-400 truncate" title={source.page}>
+                        <span className="font-mono">{source.page}</span>
+                        {source.anchorText && <span className="text-gray-500"> "{source.anchorText}"</span>}
+                      </p>
+                    ))}
+                    {link.sources.length > SOURCES_SHOWN && (
+                      <p className="text-gray-500">+{link.sources.length - SOURCES_SHOWN} more pages</p>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import type { CompetitorInventory } from '../types';
+
+interface CompetitorInventoryPanelProps {
+  competitors: CompetitorInventory[];
+}
+
+const MAX_TOPICS_SHOWN = 6;
+
+export const CompetitorInventoryPanel: React.FC<CompetitorInventoryPanelProps> = ({ competitors }) => (
+  <div className="bg-gray-800/60 rounded-xl p-5 border border-gray-700/50">
+    <div className="flex items-baseline justify-between gap-4 mb-4">
+      <h4 className="font-semibold text-gray-200">Competitor Inventory</h4>
+      <span className="text-xs text-gray-400">
+        {competitors.filter(c => c.status !== 'failed').length} of {competitors.length} competitors crawled
+      </span>
+    </div>
+    <ul className="space-y-3">
+      {competitors.map(competitor => (
+        <li key={competitor.sitemapUrl} className="bg-gray-900/50 rounded-lg px-4 py-3" title={competitor.sitemapUrl}>
+          <div className="flex items-center justify-between gap-3">
+            <span className="font-mono text-sm text-gray-200 truncate">{competitor.host}</span>
+            {competitor.status === 'failed' ? (
+              <span className="shrink-0 px-1.5 py-0.5 rounded text-[11px] font-semibold bg-red-500/15 text-red-400">Not crawled</span>
+            ) : (
+              <span className="shrink-0 text-xs text-gray-400">
+                {competitor.totalUrlsFound.toLocaleString()} URLs
+                {competitor.status !== 'complete' && <span className="text-yellow-400"> (partial)</span>}
+                {competitor.method === 'spider' && <span className="text-gray-500"> via links</span>}
+              </span>
+            )}
+          </div>
+          {competitor.status === 'failed' ? (
+            <p className="text-xs text-gray-500 mt-1">{competitor.error}</p>
+          ) : competitor.topics.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mt-2">
+              {competitor.topics.slice(0, MAX_TOPICS_SHOWN).map(topic => (
+                <span key={topic.segment} className="px-2 py-0.5 rounded-full bg-gray-800 text-[11px] font-mono text-gray-400">
+                  {topic.segment} <span className="text-gray-500">{topic.count}</span>
+                </span>
+              ))}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
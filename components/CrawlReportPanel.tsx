@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import type { CrawlReport, SitemapDiagnostic } from '../types';
+import { OUTCOME_LABELS, countOutcomes, formatBytes, isFailedOutcome } from '../utils/crawlReport';
+
+interface CrawlReportPanelProps {
+  report: CrawlReport;
+}
+
+const MAX_VARIANT_GROUPS_SHOWN = 20;
+
+const outcomeStyles: Record<SitemapDiagnostic['outcome'], string> = {
+  'ok': 'bg-green-500/15 text-green-400',
+  'empty': 'bg-gray-600/30 text-gray-300',
+  'parse-error': 'bg-red-500/15 text-red-400',
+  'http-error': 'bg-red-500/15 text-red-400',
+  'proxy-failure': 'bg-orange-500/15 text-orange-400',
+  'timeout': 'bg-yellow-500/15 text-yellow-400',
+  'aborted': 'bg-yellow-500/15 text-yellow-400',
+  'skipped': 'bg-gray-600/30 text-gray-400',
+};
+
+export const OutcomeBadge: React.FC<{ outcome: SitemapDiagnostic['outcome'] }> = ({ outcome }) => (
+  <span className={`inline-block px-1.5 py-0.5 rounded text-[11px] font-semibold whitespace-nowrap ${outcomeStyles[outcome]}`}>
+    {OUTCOME_LABELS[outcome]}
+  </span>
+);
+
+export const CrawlReportPanel: React.FC<CrawlReportPanelProps> = ({ report }) => {
+  const [showAll, setShowAll] = useState(false);
+  const failures = report.sitemaps.filter(s => isFailedOutcome(s.outcome));
+  // Failures first: they are what the report exists to explain
+  const rows = showAll ? [...failures, ...report.sitemaps.filter(s => !isFailedOutcome(s.outcome))] : failures;
+
+  return (
+    <div className="bg-gray-800/60 rounded-xl p-5 border border-gray-700/50">
+      <div className="flex flex-wrap items-baseline justify-between gap-3 mb-3">
+        <h4 className="font-semibold text-gray-200">Crawl Diagnostics</h4>
+        <div className="flex flex-wrap gap-1.5">
+          {countOutcomes(report.sitemaps).map(({ outcome, count }) => (
+            <span key={outcome} className="flex items-center gap-1 text-xs text-gray-400">
+              <OutcomeBadge outcome={outcome} /> {count}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {report.method === 'spider' && report.spider && (
+        <p className="text-sm text-gray-400 mb-3">
+          No sitemap listed any URLs, so pages were found by following links from the homepage:{' '}
+          {report.spider.pagesFetched} pages fetched to depth {report.spider.maxDepthReached}, {report.spider.linksRecorded.toLocaleString()} internal links recorded
+          {' '}({report.spider.pagesFailed} failed, {report.spider.pagesNoindex} noindex, {report.spider.blockedByRobots} blocked by robots.txt).
+        </p>
+      )}
+
+      {report.method === 'sitemap' && report.linkMap && (
+        <p className="text-sm text-gray-400 mb-3">
+          Internal links were mapped from the homepage: {report.linkMap.pagesFetched} pages fetched to depth {report.linkMap.maxDepthReached},
+          {' '}{report.linkMap.linksRecorded.toLocaleString()} links recorded ({report.linkMap.pagesFailed} failed, {report.linkMap.blockedByRobots} blocked by robots.txt).
+        </p>
+      )}
+
+      {report.urlVariantsMerged ? (
+        <details className="mb-3 text-sm text-gray-400">
+          <summary className="cursor-pointer">
+            {report.urlVariantsMerged.toLocaleString()} URL variant{report.urlVariantsMerged === 1 ? ' was' : 's were'} merged into their normalized URL
+          </summary>
+          <ul className="mt-2 space-y-1.5 text-xs">
+            {report.mergedVariants?.slice(0, MAX_VARIANT_GROUPS_SHOWN).map(group => (
+              <li key={group.canonical}>
+                <p className="font-mono text-gray-300 truncate" title={group.canonical}>{group.canonical}</p>
+                {group.variants.map(variant => (
+                  <p key={variant} className="font-mono text-gray-500 truncate pl-3" title={variant}>← {variant}</p>
+                ))}
+              </li>
+            ))}
+            {report.mergedVariants && report.mergedVariants.length > MAX_VARIANT_GROUPS_SHOWN && (
+              <li className="text-gray-500">...and {report.mergedVariants.length - MAX_VARIANT_GROUPS_SHOWN} more (see the exported report)</li>
+            )}
+          </ul>
+        </details>
+      ) : null}
+
+      {report.sitemaps.length === 0 ? null : rows.length === 0 ? (
+        <p className="text-sm text-gray-400">All {report.sitemaps.length} sitemaps were fetched and parsed successfully.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-72 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="text-gray-500 text-left sticky top-0 bg-gray-800">
+              <tr>
+                <th className="py-1.5 pr-3 font-semibold">Sitemap</th>
+                <th className="py-1.5 pr-3 font-semibold">Status</th>
+                <th className="py-1.5 pr-3 font-semibold">HTTP</th>
+                <th className="py-1.5 pr-3 font-semibold">Proxy</th>
+                <th className="py-1.5 pr-3 font-semibold text-right">Size</th>
+                <th className="py-1.5 pr-3 font-semibold text-right">URLs</th>
+                <th className="py-1.5 font-semibold text-right">Time</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700/50">
+              {rows.map(row => (
+                <tr key={row.url} className="align-top">
+                  <td className="py-1.5 pr-3 max-w-xs">
+                    <p className="font-mono text-gray-300 truncate" title={row.url}>{row.url}</p>
+                    {row.error && <p className="text-gray-500 mt-0.5">{row.error}</p>}
+                  </td>
+                  <td className="py-1.5 pr-3"><OutcomeBadge outcome={row.outcome} /></td>
+                  <td className="py-1.5 pr-3 text-gray-400">{row.httpStatus ?? '—'}</td>
+                  <td className="py-1.5 pr-3 text-gray-400">{row.providerId ?? '—'}</td>
+                  <td className="py-1.5 pr-3 text-gray-400 text-right">{formatBytes(row.bytes)}</td>
+                  <td className="py-1.5 pr-3 text-gray-400 text-right">
+                    {row.childSitemapCount !== undefined ? `${row.childSitemapCount} sitemaps` : row.urlCount.toLocaleString()}
+                  </td>
+                  <td className="py-1.5 text-gray-400 text-right">{row.outcome === 'skipped' ? '—' : `${row.durationMs}ms`}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {report.sitemaps.length > failures.length && (
+        <button onClick={() => setShowAll(prev => !prev)} className="mt-3 text-xs font-semibold text-blue-400 hover:text-blue-300">
+          {showAll ? 'Show problems only' : `Show all ${report.sitemaps.length} sitemaps`}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,320 @@
+import React, { useState, useCallback } from 'react';
+import type { CrawlerSettings, ProxySettings, ProxyHealth, ProxyProviderId, SamplingMode, UrlNormalizationRules } from '../types';
+import {
+  checkProxyHealth,
+  isValidProxyTemplate,
+  getRememberedProviders,
+  clearRememberedProviders,
+  DEFAULT_LOCAL_PROXY_URL,
+} from '../services/fetchProxyService';
+
+interface CrawlerSettingsPanelProps {
+  settings: CrawlerSettings;
+  onSave: (settings: CrawlerSettings) => void;
+}
+
+const providerNames: Record<ProxyProviderId, string> = {
+  direct: 'Direct',
+  local: 'Local proxy',
+  custom: 'Custom proxy',
+  corsproxy: 'corsproxy.io',
+  allorigins: 'allorigins.win',
+  thingproxy: 'thingproxy',
+};
+
+const samplingModes: { id: SamplingMode; name: string; description: string }[] = [
+  { id: 'stratified', name: 'Stratified', description: 'Inventories every sitemap, then samples each section in proportion to its size.' },
+  { id: 'first-come', name: 'First found', description: 'Stops at the URL limit. Faster, but large sites are sampled from their first sitemaps only.' },
+];
+
+const trailingSlashModes: { id: UrlNormalizationRules['trailingSlash']; name: string }[] = [
+  { id: 'strip', name: 'Strip (/page)' },
+  { id: 'add', name: 'Add (/page/)' },
+  { id: 'keep', name: 'Keep as listed' },
+];
+
+const inputClassName = "w-full px-3 py-2 bg-gray-800/80 text-gray-200 border border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition duration-200 placeholder-gray-500 text-sm";
+
+const Toggle: React.FC<{ id: string; label: string; description: string; checked: boolean; onChange: (checked: boolean) => void; children?: React.ReactNode }> = ({ id, label, description, checked, onChange, children }) => (
+  <div className="bg-gray-800/40 p-4 rounded-lg border border-gray-700/60">
+    <label htmlFor={id} className="flex items-start gap-3 cursor-pointer">
+      <input id={id} type="checkbox" checked={checked} onChange={e => onChange(e.target.checked)} className="mt-1 h-4 w-4 rounded border-gray-600 bg-gray-800 text-blue-600 focus:ring-blue-500" />
+      <span>
+        <span className="block text-sm font-semibold text-gray-200">{label}</span>
+        <span className="block text-xs text-gray-400 mt-0.5">{description}</span>
+      </span>
+    </label>
+    {children && <div className="mt-3 pl-7">{children}</div>}
+  </div>
+);
+
+const HealthRow: React.FC<{ health: ProxyHealth }> = ({ health }) => (
+  <li className="flex items-center justify-between gap-3 text-sm py-1.5">
+    <span className="flex items-center gap-2 min-w-0">
+      <span className={`w-2 h-2 rounded-full shrink-0 ${health.ok ? 'bg-green-400' : 'bg-red-400'}`} />
+      <span className="text-gray-300 truncate">{health.label}</span>
+    </span>
+    <span className={`text-xs shrink-0 ${health.ok ? 'text-green-400' : 'text-red-400'}`}>
+      {health.ok ? `OK · ${health.latencyMs}ms` : health.error || 'Unreachable'}
+    </span>
+  </li>
+);
+
+export const CrawlerSettingsPanel: React.FC<CrawlerSettingsPanelProps> = ({ settings, onSave }) => {
+  const [proxy, setProxy] = useState<ProxySettings>(settings.proxy);
+  const [health, setHealth] = useState<ProxyHealth[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [timeBudgetSeconds, setTimeBudgetSeconds] = useState(settings.timeBudgetSeconds);
+  const [maxUrls, setMaxUrls] = useState(settings.maxUrls);
+  const [samplingMode, setSamplingMode] = useState<SamplingMode>(settings.samplingMode);
+  const [spiderMaxDepth, setSpiderMaxDepth] = useState(settings.spiderMaxDepth);
+  const [spiderMaxPages, setSpiderMaxPages] = useState(settings.spiderMaxPages);
+  const [mapInternalLinks, setMapInternalLinks] = useState(settings.mapInternalLinks);
+  const [normalization, setNormalization] = useState<UrlNormalizationRules>(settings.urlNormalization);
+  const [trackingParamsText, setTrackingParamsText] = useState(settings.urlNormalization.trackingParams.join(', '));
+  const [remembered, setRemembered] = useState<Record<string, ProxyProviderId>>(() => getRememberedProviders());
+
+  const updateProxy = (updates: Partial<ProxySettings>) => {
+    setProxy(prev => ({ ...prev, ...updates }));
+    setHealth(null);
+  };
+
+  const templateIsInvalid = proxy.customTemplate.trim() !== '' && !isValidProxyTemplate(proxy.customTemplate.trim());
+  const noProviderEnabled = !proxy.allowDirect && !proxy.useLocalProxy && !proxy.allowPublicProxies && !isValidProxyTemplate(proxy.customTemplate.trim());
+
+  const handleCheckHealth = useCallback(async () => {
+    setIsChecking(true);
+    try {
+      setHealth(await checkProxyHealth(proxy));
+    } finally {
+      setIsChecking(false);
+    }
+  }, [proxy]);
+
+  const handleForgetHosts = () => {
+    clearRememberedProviders();
+    setRemembered({});
+  };
+
+  const budgetIsInvalid = !(timeBudgetSeconds >= 10) || !(maxUrls >= 10);
+  const spiderIsInvalid = !(spiderMaxDepth >= 0 && spiderMaxDepth <= 10) || !(spiderMaxPages >= 1);
+
+  const updateNormalization = (updates: Partial<UrlNormalizationRules>) => setNormalization(prev => ({ ...prev, ...updates }));
+
+  const rememberedHosts = Object.entries(remembered) as [string, ProxyProviderId][];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-300 mb-1">Fetch Providers</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          Sitemaps are fetched through the first provider that works, in the order below. The provider that last worked for a host is tried first.
+        </p>
+        <div className="space-y-3">
+          <Toggle
+            id="proxy-direct"
+            label="Direct fetch"
+            description="No proxy. Only works for sites that send CORS headers; others fall through to the next provider."
+            checked={proxy.allowDirect}
+            onChange={checked => updateProxy({ allowDirect: checked })}
+          />
+          <Toggle
+            id="proxy-local"
+            label="Local proxy"
+            description="The bundled Node proxy. Start it next to the app with `npm run proxy`."
+            checked={proxy.useLocalProxy}
+            onChange={checked => updateProxy({ useLocalProxy: checked })}
+          >
+            <input type="url" value={proxy.localProxyUrl} onChange={e => updateProxy({ localProxyUrl: e.target.value })} placeholder={DEFAULT_LOCAL_PROXY_URL} className={inputClassName} disabled={!proxy.useLocalProxy} />
+          </Toggle>
+          <div className="bg-gray-800/40 p-4 rounded-lg border border-gray-700/60">
+            <label htmlFor="proxy-custom" className="block text-sm font-semibold text-gray-200">Custom proxy URL template</label>
+            <p className="text-xs text-gray-400 mt-0.5 mb-2">
+              Your own proxy. <code className="text-gray-300">{'{url}'}</code> is replaced with the encoded target URL, <code className="text-gray-300">{'{rawUrl}'}</code> with the URL as-is. Leave blank to disable.
+            </p>
+            <input id="proxy-custom" type="text" value={proxy.customTemplate} onChange={e => updateProxy({ customTemplate: e.target.value })} placeholder="https://proxy.example.com/?url={url}" className={inputClassName} />
+            {templateIsInvalid && <p className="text-xs text-red-400 mt-1.5">The template must be an http(s) URL containing {'{url}'} or {'{rawUrl}'}.</p>}
+          </div>
+          <Toggle
+            id="proxy-public"
+            label="Public CORS proxies (fallback)"
+            description="corsproxy.io, allorigins.win and thingproxy. Rate limited and unreliable, and they see every URL you crawl."
+            checked={proxy.allowPublicProxies}
+            onChange={checked => updateProxy({ allowPublicProxies: checked })}
+          />
+        </div>
+        {noProviderEnabled && <p className="text-xs text-red-400 mt-3">Enable at least one provider, otherwise nothing can be crawled.</p>}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-300 mb-1">Sampling &amp; Budget</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          When the time runs out the crawl stops and the analysis runs on the URLs collected so far, flagged as truncated.
+        </p>
+        <div className="grid grid-cols-2 gap-2 mb-3">
+          {samplingModes.map(mode => (
+            <button
+              key={mode.id}
+              type="button"
+              onClick={() => setSamplingMode(mode.id)}
+              className={`p-3 text-left rounded-lg border-2 transition-all duration-200 ${samplingMode === mode.id ? 'bg-blue-600/20 border-blue-500' : 'bg-gray-800/60 border-gray-700 hover:border-gray-600'}`}
+            >
+              <span className="block text-sm font-semibold text-gray-200">{mode.name}</span>
+              <span className="block text-xs text-gray-400 mt-0.5">{mode.description}</span>
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="crawl-time-budget" className="block text-xs font-semibold text-gray-400 mb-1">Time budget (seconds)</label>
+            <input id="crawl-time-budget" type="number" min={10} step={10} value={timeBudgetSeconds} onChange={e => setTimeBudgetSeconds(Number(e.target.value))} className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="crawl-max-urls" className="block text-xs font-semibold text-gray-400 mb-1">Sample size (URLs)</label>
+            <input id="crawl-max-urls" type="number" min={10} step={100} value={maxUrls} onChange={e => setMaxUrls(Number(e.target.value))} className={inputClassName} />
+          </div>
+        </div>
+        {budgetIsInvalid && <p className="text-xs text-red-400 mt-1.5">Both limits must be at least 10.</p>}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-300 mb-1">Link Following</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          Pages are discovered by following internal links from the homepage, respecting robots.txt, when no sitemap lists any URLs. The same limits apply to link mapping.
+        </p>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="spider-max-depth" className="block text-xs font-semibold text-gray-400 mb-1">Max depth (clicks from homepage)</label>
+            <input id="spider-max-depth" type="number" min={0} max={10} step={1} value={spiderMaxDepth} onChange={e => setSpiderMaxDepth(Number(e.target.value))} className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="spider-max-pages" className="block text-xs font-semibold text-gray-400 mb-1">Max pages fetched</label>
+            <input id="spider-max-pages" type="number" min={1} step={50} value={spiderMaxPages} onChange={e => setSpiderMaxPages(Number(e.target.value))} className={inputClassName} />
+          </div>
+        </div>
+        {spiderIsInvalid && <p className="text-xs text-red-400 mt-1.5">Depth must be between 0 and 10, and at least one page must be allowed.</p>}
+        <div className="mt-3">
+          <Toggle
+            id="map-internal-links"
+            label="Map internal links on sitemap crawls"
+            description="After the sitemaps, follow links from the homepage to build the real link graph: authority, click depth and orphaned pages. Fetches up to the max pages above on top of the sitemap crawl and uses the remaining time budget; orphans are only confirmed when the whole site fits in those limits."
+            checked={mapInternalLinks}
+            onChange={setMapInternalLinks}
+          />
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-300 mb-1">URL Normalization</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          Decides which URLs count as the same page when deduplicating, ranking and caching. Pages are still fetched at the URL the site lists.
+        </p>
+        <label className="block text-xs font-semibold text-gray-400 mb-1">Trailing slash</label>
+        <div className="grid grid-cols-3 gap-2 mb-3">
+          {trailingSlashModes.map(mode => (
+            <button
+              key={mode.id}
+              type="button"
+              onClick={() => updateNormalization({ trailingSlash: mode.id })}
+              className={`px-3 py-2 text-sm font-semibold rounded-lg border-2 transition-all duration-200 ${normalization.trailingSlash === mode.id ? 'bg-blue-600/20 border-blue-500 text-gray-200' : 'bg-gray-800/60 border-gray-700 text-gray-400 hover:border-gray-600'}`}
+            >
+              {mode.name}
+            </button>
+          ))}
+        </div>
+        <div className="space-y-3">
+          <Toggle
+            id="normalize-tracking"
+            label="Remove tracking parameters"
+            description="Comma-separated parameter names; a trailing * matches a prefix."
+            checked={normalization.stripTrackingParams}
+            onChange={checked => updateNormalization({ stripTrackingParams: checked })}
+          >
+            <input type="text" value={trackingParamsText} onChange={e => setTrackingParamsText(e.target.value)} placeholder="utm_*, gclid, fbclid" className={inputClassName} disabled={!normalization.stripTrackingParams} />
+          </Toggle>
+          <Toggle
+            id="normalize-fragment"
+            label="Ignore #fragments"
+            description="Fragments never reach the server, so /page#a and /page#b are the same page."
+            checked={normalization.stripFragment}
+            onChange={checked => updateNormalization({ stripFragment: checked })}
+          />
+          <Toggle
+            id="normalize-sort-query"
+            label="Sort query parameters"
+            description="Treats ?a=1&b=2 and ?b=2&a=1 as the same URL."
+            checked={normalization.sortQueryParams}
+            onChange={checked => updateNormalization({ sortQueryParams: checked })}
+          />
+          <Toggle
+            id="normalize-case"
+            label="Case-insensitive paths"
+            description="Only for servers that ignore case (e.g. IIS). Hosts are always compared case-insensitively."
+            checked={normalization.lowercasePath}
+            onChange={checked => updateNormalization({ lowercasePath: checked })}
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-semibold text-gray-300">Provider Health</h3>
+          <button onClick={handleCheckHealth} disabled={isChecking || noProviderEnabled} className="text-xs font-semibold text-blue-400 hover:text-blue-300 disabled:text-gray-600 disabled:cursor-not-allowed">
+            {isChecking ? 'Checking...' : 'Test providers'}
+          </button>
+        </div>
+        {health ? (
+          <ul className="bg-gray-800/40 px-4 py-2 rounded-lg border border-gray-700/60 divide-y divide-gray-700/50">
+            {health.map(h => <HealthRow key={h.providerId} health={h} />)}
+          </ul>
+        ) : (
+          <p className="text-xs text-gray-500">Run a test to see which providers are reachable from this browser. Direct fetch is expected to fail the test, since the test host does not send CORS headers.</p>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-semibold text-gray-300">Remembered Providers</h3>
+          {rememberedHosts.length > 0 && (
+            <button onClick={handleForgetHosts} className="text-xs font-semibold text-gray-400 hover:text-white">Forget all</button>
+          )}
+        </div>
+        {rememberedHosts.length > 0 ? (
+          <ul className="bg-gray-800/40 px-4 py-2 rounded-lg border border-gray-700/60 max-h-40 overflow-y-auto">
+            {rememberedHosts.map(([host, providerId]) => (
+              <li key={host} className="flex items-center justify-between text-xs py-1">
+                <span className="text-gray-300 truncate">{host}</span>
+                <span className="text-gray-500 shrink-0 ml-3">{providerNames[providerId] || providerId}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-gray-500">No hosts crawled yet.</p>
+        )}
+      </div>
+
+      <div className="pt-4 border-t border-gray-800">
+        <button
+          onClick={() => onSave({
+            ...settings,
+            proxy: { ...proxy, customTemplate: proxy.customTemplate.trim(), localProxyUrl: proxy.localProxyUrl.trim() },
+            timeBudgetSeconds: Math.round(timeBudgetSeconds),
+            maxUrls: Math.round(maxUrls),
+            samplingMode,
+            spiderMaxDepth: Math.round(spiderMaxDepth),
+            spiderMaxPages: Math.round(spiderMaxPages),
+            mapInternalLinks,
+            urlNormalization: {
+              ...normalization,
+              trackingParams: trackingParamsText.split(',').map(param => param.trim()).filter(Boolean),
+            },
+          })}
+          disabled={templateIsInvalid || noProviderEnabled || budgetIsInvalid || spiderIsInvalid}
+          className="w-full px-8 py-2.5 font-semibold text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors duration-200"
+        >
+          Save Settings
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,8 @@
 
 
 import React, { useEffect, useState, useRef } from 'react';
-import type { CrawlProgress } from '../types';
+import type { CrawlProgress, SitemapSource } from '../types';
+import { OUTCOME_LABELS, isFailedOutcome } from '../utils/crawlReport';
 
 const CrawlingGlobeIcon: React.FC = () => (
     <svg viewBox="-10 -10 120 120" className="w-full h-full absolute inset-0 text-gray-700 animate-spin-slow">
@@ -42,8 +43,12 @@ const phaseDetails = {
         description: "I'm crawling your sitemaps in parallel to extract every single page URL for analysis. This is a single-pass, high-concurrency operation."
     },
     preflight: {
-        title: "Initializing Crawl",
-        description: "Preparing workers..."
+        title: "Discovering Sitemaps",
+        description: "Reading robots.txt and probing common sitemap locations so no part of your site is missed."
+    },
+    spidering: {
+        title: "Following Links",
+        description: "No sitemap listed any URLs, so I'm walking your site's internal links from the homepage, level by level, within the depth and page limits."
     },
     counting: { // Legacy fallback
         title: "Counting URLs",
@@ -51,7 +56,19 @@ const phaseDetails = {
     }
 };
 
-export const CrawlingAnimation: React.FC<{ progress: CrawlProgress }> = ({ progress }) => {
+const sourceLabels: Record<SitemapSource['origin'], string> = {
+    'user': 'Provided',
+    'robots.txt': 'robots.txt',
+    'common-path': 'Auto-detected',
+};
+
+interface CrawlingAnimationProps {
+    progress: CrawlProgress;
+    onStop?: () => void;    // Stops the crawl early; the URLs collected so far are still analyzed
+    isStopping?: boolean;
+}
+
+export const CrawlingAnimation: React.FC<CrawlingAnimationProps> = ({ progress, onStop, isStopping = false }) => {
     const [log, setLog] = useState<string[]>([]);
     const logContainerRef = useRef<HTMLUListElement>(null);
 
@@ -91,6 +108,8 @@ export const CrawlingAnimation: React.FC<{ progress: CrawlProgress }> = ({ progr
     
     const details = phaseDetails[progress.type] || phaseDetails.crawling;
 
+    const failedSitemaps = (progress.diagnostics || []).filter(d => isFailedOutcome(d.outcome));
+
     return (
         <div className="relative mt-8 p-8 bg-gray-900 rounded-2xl border border-gray-800 overflow-hidden animate-fade-in">
             <div className="absolute inset-0 bg-grid-pattern opacity-30 animate-grid-pan"></div>
@@ -113,7 +132,7 @@ export const CrawlingAnimation: React.FC<{ progress: CrawlProgress }> = ({ progr
                     
                     <div className="space-y-4 font-mono text-sm animate-fade-in">
                         <div className="flex justify-between items-baseline">
-                            <span className="text-gray-500">Sitemaps Processed:</span>
+                            <span className="text-gray-500">{progress.type === 'spidering' ? 'Pages Crawled:' : 'Sitemaps Processed:'}</span>
                             <span className="text-gray-200 font-semibold">{progress.count.toLocaleString()} / {progress.total.toLocaleString()}</span>
                         </div>
                         <div className="w-full bg-gray-700/50 rounded-full h-2">
@@ -123,8 +142,39 @@ export const CrawlingAnimation: React.FC<{ progress: CrawlProgress }> = ({ progr
                             <span className="text-gray-500">URLs Discovered:</span>
                             <span className="text-teal-400 font-semibold">{progress.pagesFound?.toLocaleString() ?? 0}</span>
                         </div>
+                        {failedSitemaps.length > 0 && (
+                            <div className="flex justify-between items-baseline">
+                                <span className="text-gray-500">Sitemaps With Problems:</span>
+                                <span className="text-orange-400 font-semibold">{failedSitemaps.length}</span>
+                            </div>
+                        )}
                     </div>
+
+                    {failedSitemaps.length > 0 && (
+                        <ul className="mt-3 space-y-1 font-mono text-xs max-h-20 overflow-y-auto">
+                            {failedSitemaps.slice(-5).map(d => (
+                                <li key={d.url} className="flex items-center gap-2 truncate" title={d.error ? `${d.url} — ${d.error}` : d.url}>
+                                    <span className="shrink-0 px-1.5 py-0.5 rounded bg-orange-500/15 text-orange-400">{OUTCOME_LABELS[d.outcome]}{d.httpStatus && d.outcome === 'http-error' ? ` ${d.httpStatus}` : ''}</span>
+                                    <span className="text-gray-400 truncate">{d.url}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
                     
+                    {progress.sitemapSources && progress.sitemapSources.length > 0 && (
+                        <div className="mt-6">
+                            <p className="text-xs text-gray-500 uppercase font-semibold tracking-wider mb-2">Sitemap Sources</p>
+                            <ul className="space-y-1 font-mono text-xs">
+                                {progress.sitemapSources.map(source => (
+                                    <li key={source.url} className="flex items-center gap-2 truncate" title={source.url}>
+                                        <span className="shrink-0 px-1.5 py-0.5 rounded bg-gray-800 text-gray-400">{sourceLabels[source.origin]}</span>
+                                        <span className="text-gray-300 truncate">{source.url}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
                     <div className="mt-6">
                         <p className="text-xs text-gray-500 uppercase font-semibold tracking-wider mb-2">Live Activity Feed</p>
                         <ul ref={logContainerRef} className="h-28 bg-gray-950/70 p-3 rounded-lg border border-gray-700/80 font-mono text-xs text-gray-400 overflow-y-auto space-y-1">
@@ -147,6 +197,19 @@ export const CrawlingAnimation: React.FC<{ progress: CrawlProgress }> = ({ progr
                            ) : null}
                         </ul>
                     </div>
+
+                    {onStop && (
+                        <div className="mt-6 flex items-center justify-between gap-4">
+                            <p className="text-xs text-gray-500">Stopping early analyzes only the URLs discovered so far.</p>
+                            <button
+                                onClick={onStop}
+                                disabled={isStopping}
+                                className="shrink-0 text-sm font-semibold px-4 py-2 rounded-lg transition-colors duration-200 bg-gray-800 hover:bg-gray-700 text-gray-200 ring-1 ring-inset ring-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+                            >
+                                {isStopping ? 'Stopping...' : 'Stop & Analyze'}
+                            </button>
+                        </div>
+                    )}
                 </div>
             </div>
             <style>{`
@@ -0,0 +1,63 @@
+import React from 'react';
+import type { DuplicateCluster, DuplicatePage } from '../types';
+
+interface DuplicateContentPanelProps {
+  clusters: DuplicateCluster[];
+}
+
+const actionLabel = (page: DuplicatePage) => {
+  if (page.canonicalized) return 'Canonical already set';
+  return page.action === 'canonical' ? 'Add canonical' : 'Merge + 301';
+};
+
+export const DuplicateContentPanel: React.FC<DuplicateContentPanelProps> = ({ clusters }) => {
+  const duplicates = clusters.flatMap(cluster => cluster.duplicates);
+  const open = duplicates.filter(page => !page.canonicalized);
+
+  const counts = [
+    { label: 'Clusters', value: clusters.length, warn: false },
+    { label: 'Duplicate pages', value: duplicates.length, warn: false },
+    { label: 'To canonicalize', value: open.filter(page => page.action === 'canonical').length, warn: true },
+    { label: 'To merge', value: open.filter(page => page.action === 'merge').length, warn: true },
+  ];
+
+  return (
+    <div className="bg-gray-800/60 rounded-xl p-5 border border-gray-700/50">
+      <div className="flex flex-wrap items-baseline justify-between gap-3 mb-3">
+        <h4 className="font-semibold text-gray-200">Near-Duplicate Content</h4>
+        <span className="text-xs text-gray-400">Similarity is the share of 5-word phrases the body texts have in common</span>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4">
+        {counts.map(({ label, value, warn }) => (
+          <div key={label} className="bg-gray-900/50 rounded-lg px-3 py-2 text-center">
+            <p className={`text-lg font-bold ${warn && value > 0 ? 'text-yellow-400' : 'text-gray-300'}`}>{value}</p>
+            <p className="text-[11px] text-gray-500 uppercase tracking-wider">{label}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3 max-h-96 overflow-y-auto">
+        {clusters.map(cluster => (
+          <div key={cluster.primaryUrl} className="bg-gray-900/40 rounded-lg p-3">
+            <p className="text-xs text-gray-500 mb-1">Keep ({cluster.primaryWordCount} words)</p>
+            <p className="font-mono text-xs text-green-300 truncate mb-2" title={cluster.primaryUrl}>{cluster.primaryUrl}</p>
+            <table className="w-full text-xs">
+              <tbody className="divide-y divide-gray-700/50">
+                {cluster.duplicates.map(page => (
+                  <tr key={page.url}>
+                    <td className="py-1.5 pr-3 max-w-xs">
+                      <p className="font-mono text-gray-300 truncate" title={page.url}>{page.url}</p>
+                    </td>
+                    <td className="py-1.5 pr-3 text-right text-gray-400 whitespace-nowrap">{page.wordCount} words</td>
+                    <td className="py-1.5 pr-3 text-right text-yellow-400 font-semibold">{Math.round(page.similarity * 100)}%</td>
+                    <td className={`py-1.5 text-right whitespace-nowrap ${page.canonicalized ? 'text-gray-500' : 'text-blue-300'}`}>{actionLabel(page)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
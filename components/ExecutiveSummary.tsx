@@ -71,16 +71,33 @@ export const ExecutiveSummary: React.FC<ExecutiveSummaryProps> = ({ summary }) =
         />
         <SectionCard
             icon={<RedirectIcon />}
-            title="Critical Redirects"
+            title="Redirects & Canonicals"
             items={summary.redirects}
             renderItem={(item, i) => (
                  <div key={i} className="bg-gray-800/80 p-3 rounded-md text-sm">
                     <p className="font-mono break-all"><strong className="text-red-400">From:</strong> {item.from}</p>
-                    <p className="font-mono break-all"><strong className="text-green-400">To:</strong> {item.to}</p>
+                    <p className="font-mono break-all"><strong className="text-green-400">{item.action === 'canonical' ? 'Canonical:' : 'To:'}</strong> {item.to}</p>
+                    {item.similarity !== undefined && (
+                        <span className="inline-block mt-2 px-2 py-0.5 text-xs font-semibold rounded bg-yellow-500/20 text-yellow-300">{Math.round(item.similarity * 100)}% duplicate content</span>
+                    )}
+                    {item.evidence && <p className="text-xs font-mono text-gray-500 mt-2 break-all">Measured: {item.evidence}</p>}
                     <p className="text-xs text-gray-400 mt-2 italic">Reason: {item.reason}</p>
                  </div>
             )}
         />
+        <SectionCard
+            icon={<RedirectIcon />}
+            title="Flagged Redirect Suggestions"
+            items={summary.flaggedRedirects || []}
+            renderItem={(item, i) => (
+                 <div key={i} className="bg-gray-800/80 p-3 rounded-md text-sm border border-yellow-500/30">
+                    <p className="font-mono break-all text-gray-400"><strong className="text-gray-300">From:</strong> {item.from}</p>
+                    <p className="font-mono break-all text-gray-400"><strong className="text-gray-300">To:</strong> {item.to}</p>
+                    <p className="text-xs text-yellow-300 mt-2">⚠ Not applied: {item.conflict}</p>
+                    <p className="text-xs text-gray-500 mt-1 italic">Suggested because: {item.reason}</p>
+                 </div>
+            )}
+        />
       </div>
     </div>
   );
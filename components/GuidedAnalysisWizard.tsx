@@ -63,12 +63,7 @@ export const GuidedAnalysisWizard: React.FC<GuidedAnalysisWizardProps> = ({ isLo
     const handleSiteSelection = (e: React.ChangeEvent<HTMLSelectElement>) => {
         const siteUrl = e.target.value;
         if (!siteUrl) return;
-        const siteUrlWithSlash = siteUrl.endsWith('/') ? siteUrl : `${siteUrl}/`;
-        setData(prev => ({
-            ...prev,
-            url: siteUrl,
-            sitemapUrl: `${siteUrlWithSlash}sitemap.xml`
-        }));
+        setData(prev => ({ ...prev, url: siteUrl }));
     };
 
     const handleAnalysisTypeChange = (type: AnalysisType) => {
@@ -77,7 +72,6 @@ export const GuidedAnalysisWizard: React.FC<GuidedAnalysisWizardProps> = ({ isLo
 
     const handleNext = useCallback(async () => {
         if (step === 1 && !data.url) return;
-        if (step === 1 && !data.sitemapUrl) return;
         if (step === 3 && data.analysisType === 'local' && !data.targetLocation) return;
         setStep(s => s + 1);
     }, [step, data]);
@@ -156,14 +150,12 @@ export const GuidedAnalysisWizard: React.FC<GuidedAnalysisWizardProps> = ({ isLo
 
                      {(data.url || !isGscConnected) && (
                         <div className="mt-4 animate-fade-in">
-                            <label htmlFor="sitemapUrl" className="block text-sm font-medium text-gray-400 mb-1">Sitemap URL</label>
+                            <label htmlFor="sitemapUrl" className="block text-sm font-medium text-gray-400 mb-1">Sitemap URL (Optional)</label>
                             <div className="relative">
                                 <svg aria-hidden="true" className="absolute w-5 h-5 text-gray-500 left-4 top-1/2 -translate-y-1/2" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M13.19 8.688a4.5 4.5 0 011.242 7.244l-4.5 4.5a4.5 4.5 0 01-6.364-6.364l1.757-1.757m13.35-.622l1.757-1.757a4.5 4.5 0 00-6.364-6.364l-4.5 4.5a4.5 4.5 0 001.242 7.244" /></svg>
-                                <input id="sitemapUrl" name="sitemapUrl" type="url" value={data.sitemapUrl} onChange={handleChange} required placeholder="https://your-website.com/sitemap.xml" className="w-full pl-12 pr-4 py-3 bg-gray-800/80 text-gray-200 border border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition duration-200 placeholder-gray-500" />
+                                <input id="sitemapUrl" name="sitemapUrl" type="url" value={data.sitemapUrl} onChange={handleChange} placeholder="https://your-website.com/sitemap.xml" className="w-full pl-12 pr-4 py-3 bg-gray-800/80 text-gray-200 border border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition duration-200 placeholder-gray-500" />
                             </div>
-                            {isGscConnected && (
-                                <p className="text-xs text-gray-500 mt-2">We've guessed your sitemap location based on your selected property. Please correct it if it's different.</p>
-                            )}
+                            <p className="text-xs text-gray-500 mt-2">Sitemaps are discovered automatically from robots.txt and common locations. Add one here only if it isn't listed in either; it will be crawled alongside the ones we find.</p>
                         </div>
                      )}
                 </Step>
@@ -226,7 +218,7 @@ export const GuidedAnalysisWizard: React.FC<GuidedAnalysisWizardProps> = ({ isLo
                      <p className="text-center text-sm text-gray-400 mb-6">Review your configuration below. When you're ready, launch the analysis.</p>
                      <div className="bg-gray-800/50 rounded-lg p-4 space-y-3 border border-gray-700/70">
                         <p className="text-sm text-gray-400"><strong>Website URL:</strong> <span className="text-gray-200 font-mono break-all">{data.url || 'Not set'}</span></p>
-                        <p className="text-sm text-gray-400"><strong>Sitemap:</strong> <span className="text-gray-200 font-mono break-all">{data.sitemapUrl || 'Not set'}</span></p>
+                        <p className="text-sm text-gray-400"><strong>Sitemap:</strong> <span className="text-gray-200 font-mono break-all">{data.sitemapUrl || 'Auto-discover'}</span></p>
                         <p className="text-sm text-gray-400"><strong>Competitors:</strong> <span className="text-gray-200 font-mono">{data.competitorSitemaps.split('\n').filter(Boolean).length}</span></p>
                         <p className="text-sm text-gray-400"><strong>Analysis Type:</strong> <span className="text-gray-200 capitalize">{data.analysisType}</span></p>
                         {data.analysisType === 'local' && <p className="text-sm text-gray-400"><strong>Location:</strong> <span className="text-gray-200">{data.targetLocation || 'Not set'}</span></p>}
@@ -236,7 +228,7 @@ export const GuidedAnalysisWizard: React.FC<GuidedAnalysisWizardProps> = ({ isLo
                 <div className="mt-8 pt-6 border-t border-gray-800 flex justify-between items-center">
                     <button type="button" onClick={handleBack} disabled={step === 1 || isLoading} className="px-6 py-2 font-semibold text-gray-300 rounded-lg hover:bg-gray-700/50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">Back</button>
                     {step < totalSteps ? (
-                        <button type="button" onClick={handleNext} disabled={isLoading || isFindingCompetitors || (step === 1 && (!data.url || !data.sitemapUrl))} className="px-6 py-2 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">Next</button>
+                        <button type="button" onClick={handleNext} disabled={isLoading || isFindingCompetitors || (step === 1 && !data.url)} className="px-6 py-2 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">Next</button>
                     ) : (
                         <button type="submit" disabled={isLaunchDisabled} className="px-8 py-3 font-semibold text-white bg-green-600 rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-green-500 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed flex items-center justify-center transition-colors duration-200">
                              {isLoading ? (
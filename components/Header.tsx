@@ -8,13 +8,15 @@ interface HeaderProps {
     onConnectClick: () => void;
     isAiConfigured: boolean;
     onAiSettingsClick: () => void;
+    onCrawlerSettingsClick: () => void;
 }
 
 const GscIcon = () => <svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24" className="w-4 h-4"><path d="M21.35,11.1H12.18V13.83H18.69C18.36,17.64 15.19,19.27 12.19,19.27C8.36,19.27 5,16.25 5,12.5C5,8.75 8.36,5.73 12.19,5.73C15.04,5.73 16.56,6.95 17.03,7.39L19.24,5.28C17.58,3.84 15.3,2.73 12.19,2.73C6.77,2.73 2.5,7.24 2.5,12.5C2.5,17.76 6.77,22.27 12.19,22.27C17.6,22.27 21.5,18.33 21.5,12.81C21.5,12.09 21.43,11.59 21.35,11.1V11.1Z" /></svg>
+const CrawlerSettingsIcon = () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM4.332 8.027a6.012 6.012 0 011.912-2.706C6.512 5.73 6.974 6 7.5 6A1.5 1.5 0 019 7.5V8a2 2 0 004 0 2 2 0 011.523-1.943A5.977 5.977 0 0116 10c0 .34-.028.675-.083 1H15a2 2 0 00-2 2v2.197A5.973 5.973 0 0110 16v-2a2 2 0 00-2-2 2 2 0 01-2-2 2 2 0 00-1.668-1.973z" clipRule="evenodd" /></svg>;
 const AiSettingsIcon = () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4"><path d="M9.813 15.904L9 18.75l-.813-2.846a4.5 4.5 0 00-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 003.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 003.09 3.09L15.75 12l-2.846-.813a4.5 4.5 0 00-3.09 3.09zM18.259 8.715L18 9.75l-.259-1.035a3.375 3.375 0 00-2.455-2.456L14.25 6l1.036-.259a3.375 3.375 0 002.455-2.456L18 2.25l.259 1.035a3.375 3.375 0 002.456 2.456L21.75 6l-1.035.259a3.375 3.375 0 00-2.456 2.456zM16.898 20.624L16.5 21.75l-.398-1.126a3.375 3.375 0 00-2.924-2.924l-1.126-.398 1.126-.398a3.375 3.375 0 002.924-2.924l.398-1.126.398 1.126a3.375 3.375 0 002.924 2.924l1.126.398-1.126.398a3.375 3.375 0 00-2.924 2.924z"/></svg>;
 
 
-export const Header: React.FC<HeaderProps> = ({ onMenuClick, showNewAnalysisButton, onNewAnalysisClick, isGscConnected, onConnectClick, isAiConfigured, onAiSettingsClick }) => {
+export const Header: React.FC<HeaderProps> = ({ onMenuClick, showNewAnalysisButton, onNewAnalysisClick, isGscConnected, onConnectClick, isAiConfigured, onAiSettingsClick, onCrawlerSettingsClick }) => {
   return (
     <header className="mb-10">
       <div className="flex items-center justify-between gap-4">
@@ -27,6 +29,13 @@ export const Header: React.FC<HeaderProps> = ({ onMenuClick, showNewAnalysisButt
             </p>
         </div>
         <div className="flex items-center gap-2">
+            <button
+                onClick={onCrawlerSettingsClick}
+                className="hidden sm:flex items-center gap-2 text-sm font-semibold px-4 py-2 rounded-lg transition-all duration-200 bg-gray-800 hover:bg-gray-700 text-white shadow-lg ring-1 ring-inset ring-gray-700"
+            >
+                <CrawlerSettingsIcon />
+                Crawler Settings
+            </button>
             {isAiConfigured && (
                 <button
                     onClick={onAiSettingsClick}
@@ -0,0 +1,82 @@
+import React from 'react';
+import type { HreflangAudit, HreflangIssueType } from '../types';
+
+interface HreflangPanelProps {
+  audit: HreflangAudit;
+}
+
+const ISSUE_LABELS: Record<HreflangIssueType, string> = {
+  'invalid-code': 'Invalid code',
+  'missing-return-link': 'No return link',
+  'missing-self-reference': 'No self-reference',
+  'missing-x-default': 'No x-default',
+  'non-200-target': 'Non-200 target',
+  'non-canonical-target': 'Non-canonical target',
+  'conflicting-alternates': 'Conflict',
+};
+
+const statusClass = (status?: number) => {
+  if (status === undefined) return 'text-gray-500';
+  return status === 200 ? 'text-green-400' : 'text-red-400';
+};
+
+export const HreflangPanel: React.FC<HreflangPanelProps> = ({ audit }) => {
+  const issueCount = audit.clusters.reduce((sum, cluster) => sum + cluster.issues.length, 0);
+
+  const counts = [
+    { label: 'Clusters', value: audit.clustersFound, warn: false },
+    { label: 'Annotated URLs', value: audit.urlsAnnotated, warn: false },
+    { label: 'Targets checked', value: audit.targetsChecked, warn: false },
+    { label: 'Issues', value: issueCount, warn: true },
+  ];
+
+  return (
+    <div className="bg-gray-800/60 rounded-xl p-5 border border-gray-700/50">
+      <div className="flex flex-wrap items-baseline justify-between gap-3 mb-3">
+        <h4 className="font-semibold text-gray-200">Hreflang Clusters</h4>
+        <span className="text-xs text-gray-400">Read from sitemap xhtml:link entries and page alternate tags</span>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4">
+        {counts.map(({ label, value, warn }) => (
+          <div key={label} className="bg-gray-900/50 rounded-lg px-3 py-2 text-center">
+            <p className={`text-lg font-bold ${warn && value > 0 ? 'text-yellow-400' : 'text-gray-300'}`}>{value}</p>
+            <p className="text-[11px] text-gray-500 uppercase tracking-wider">{label}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3 max-h-96 overflow-y-auto">
+        {audit.clusters.map(cluster => (
+          <div key={cluster.members[0].url} className="bg-gray-900/40 rounded-lg p-3">
+            <table className="w-full text-xs mb-2">
+              <tbody className="divide-y divide-gray-700/50">
+                {cluster.members.map(member => (
+                  <tr key={member.url}>
+                    <td className="py-1.5 pr-3 font-mono text-blue-300 whitespace-nowrap">{member.hreflang.join(', ') || '—'}</td>
+                    <td className="py-1.5 pr-3 max-w-xs">
+                      <p className="font-mono text-gray-300 truncate" title={member.url}>{member.url}</p>
+                    </td>
+                    <td className={`py-1.5 pr-3 text-right ${statusClass(member.status)}`}>{member.status ?? 'unchecked'}</td>
+                    <td className="py-1.5 text-right text-gray-500 whitespace-nowrap">{member.declared ? 'annotations read' : 'annotations unknown'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {cluster.issues.length === 0 ? (
+              <p className="text-xs text-green-400">Consistent{cluster.hasXDefault ? ', with x-default' : ''}</p>
+            ) : (
+              <ul className="space-y-1">
+                {cluster.issues.map((issue, i) => (
+                  <li key={i} className="text-xs text-gray-400">
+                    <span className="inline-block mr-2 px-1.5 py-0.5 rounded bg-yellow-500/20 text-yellow-300 font-semibold">{ISSUE_LABELS[issue.type]}</span>
+                    <span className="font-mono text-gray-300">{issue.url}</span>: {issue.detail}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import type { LinkGraphAnalysis, LinkGraphPage } from '../types';
+import { describeUnlinkedPages, findUnlinkedSitemapPages } from '../utils/linkGraph';
+
+interface LinkGraphPanelProps {
+  analysis: LinkGraphAnalysis;
+}
+
+// Pages more than this many clicks from the homepage are hard for users and crawlers to reach
+const DEEP_PAGE_DEPTH = 3;
+const TOP_PAGES_SHOWN = 15;
+
+type View = 'authority' | 'orphans' | 'deep';
+
+const depthLabel = (page: LinkGraphPage) => page.depth === null ? 'not reached' : String(page.depth);
+
+export const LinkGraphPanel: React.FC<LinkGraphPanelProps> = ({ analysis }) => {
+  const [view, setView] = useState<View>('authority');
+  // A partial link crawl can't prove a page is orphaned, only that none of the crawled pages link to it
+  const unlinked = findUnlinkedSitemapPages(analysis);
+  const unlinkedLabel = describeUnlinkedPages(analysis);
+  const deep = analysis.pages.filter(page => page.depth !== null && page.depth > DEEP_PAGE_DEPTH);
+  const unreached = analysis.pages.filter(page => page.inSitemap && page.depth === null && !unlinked.includes(page));
+  const maxDepth = analysis.pages.reduce((max, page) => Math.max(max, page.depth ?? 0), 0);
+
+  const counts = [
+    { label: 'Pages crawled', value: analysis.pagesCrawled, warn: false },
+    { label: 'Internal links', value: analysis.linkCount, warn: false },
+    { label: 'Max depth', value: maxDepth, warn: maxDepth > DEEP_PAGE_DEPTH },
+    { label: analysis.complete ? 'Orphans' : 'Not linked', value: unlinked.length, warn: analysis.complete && unlinked.length > 0 },
+    { label: `Deeper than ${DEEP_PAGE_DEPTH}`, value: deep.length, warn: deep.length > 0 },
+    { label: 'Not reached', value: unreached.length, warn: unreached.length > 0 },
+  ];
+
+  const views: { id: View; label: string; pages: LinkGraphPage[] }[] = [
+    { id: 'authority', label: 'Top authority', pages: analysis.pages.slice(0, TOP_PAGES_SHOWN) },
+    { id: 'orphans', label: `${unlinkedLabel} (${unlinked.length})`, pages: unlinked },
+    { id: 'deep', label: `Deep pages (${deep.length})`, pages: deep },
+  ];
+  const rows = views.find(v => v.id === view)!.pages;
+
+  return (
+    <div className="bg-gray-800/60 rounded-xl p-5 border border-gray-700/50">
+      <div className="flex flex-wrap items-baseline justify-between gap-3 mb-3">
+        <h4 className="font-semibold text-gray-200">Internal Link Graph</h4>
+        <span className="text-xs text-gray-400">
+          {analysis.complete ? 'Every reachable page was crawled' : 'Partial: the link crawl stopped at its page, depth or time budget'}
+        </span>
+      </div>
+      <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 mb-4">
+        {counts.map(({ label, value, warn }) => (
+          <div key={label} className="bg-gray-900/50 rounded-lg px-3 py-2 text-center">
+            <p className={`text-lg font-bold ${warn ? 'text-yellow-400' : 'text-gray-300'}`}>{value.toLocaleString()}</p>
+            <p className="text-[11px] text-gray-500 uppercase tracking-wider">{label}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        {views.map(v => (
+          <button
+            key={v.id}
+            onClick={() => setView(v.id)}
+            className={`px-2.5 py-1 text-xs font-semibold rounded-md ${view === v.id ? 'bg-blue-600/30 text-blue-300' : 'text-gray-400 hover:text-gray-200'}`}
+          >
+            {v.label}
+          </button>
+        ))}
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          {view === 'orphans' ? 'Every sitemap URL is linked from at least one crawled page.' : `No page is more than ${DEEP_PAGE_DEPTH} clicks from the homepage.`}
+        </p>
+      ) : (
+        <div className="overflow-x-auto max-h-72 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="text-gray-500 text-left sticky top-0 bg-gray-800">
+              <tr>
+                <th className="py-1.5 pr-3 font-semibold">Page</th>
+                <th className="py-1.5 pr-3 font-semibold text-right">Authority</th>
+                <th className="py-1.5 pr-3 font-semibold text-right">Inlinks</th>
+                <th className="py-1.5 pr-3 font-semibold text-right">Outlinks</th>
+                <th className="py-1.5 font-semibold text-right">Depth</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700/50">
+              {rows.map(page => (
+                <tr key={page.url}>
+                  <td className="py-1.5 pr-3 max-w-xs">
+                    <p className="font-mono text-gray-300 truncate" title={page.url}>{page.url}</p>
+                  </td>
+                  <td className="py-1.5 pr-3 text-right text-gray-400">{page.authority}</td>
+                  <td className={`py-1.5 pr-3 text-right ${page.inlinks === 0 ? 'text-yellow-400' : 'text-gray-400'}`}>{page.inlinks}</td>
+                  <td className="py-1.5 pr-3 text-right text-gray-400">{page.outlinks}</td>
+                  <td className={`py-1.5 text-right ${page.depth === null || page.depth > DEEP_PAGE_DEPTH ? 'text-yellow-400' : 'text-gray-400'}`}>{depthLabel(page)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
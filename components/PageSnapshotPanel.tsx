@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import type { PageSnapshot } from '../types';
+
+interface PageSnapshotPanelProps {
+  snapshots: PageSnapshot[];
+}
+
+const h1Count = (page: PageSnapshot) => page.headings.filter(h => h.level === 1).length;
+
+const canonicalLabel = (page: PageSnapshot): { label: string; className: string } => {
+  if (!page.canonical) return { label: 'missing', className: 'text-yellow-400' };
+  if (page.canonical === page.finalUrl) return { label: 'self', className: 'text-gray-400' };
+  return { label: 'elsewhere', className: 'text-orange-400' };
+};
+
+const schemaErrorCount = (page: PageSnapshot) =>
+  page.jsonLdErrors + page.structuredData.reduce((sum, item) => sum + item.errors.length, 0);
+
+const hasProblem = (page: PageSnapshot) =>
+  !!page.error || !page.title || !page.metaDescription || h1Count(page) !== 1 || (!!page.canonical && page.canonical !== page.finalUrl) || schemaErrorCount(page) > 0;
+
+const SchemaCell: React.FC<{ page: PageSnapshot }> = ({ page }) => {
+  const issues = [
+    ...page.structuredData.flatMap(item => [
+      ...item.errors.map(error => ({ text: `${item.types.join('/') || 'Untyped item'} ${error}`, isError: true })),
+      ...item.warnings.map(warning => ({ text: `${item.types.join('/')} ${warning}`, isError: false })),
+    ]),
+    ...(page.jsonLdErrors > 0 ? [{ text: `${page.jsonLdErrors} JSON-LD block(s) are not valid JSON`, isError: true }] : []),
+  ];
+  const types = page.structuredData.map(item => `${item.types.join('/') || 'untyped'}${item.format === 'json-ld' ? '' : ` (${item.format})`}`);
+  const errorCount = schemaErrorCount(page);
+
+  return (
+    <>
+      <span className={errorCount > 0 ? 'text-red-400' : 'text-gray-400'}>{types.join(', ') || '—'}</span>
+      {issues.length > 0 && (
+        <details className="mt-0.5">
+          <summary className="cursor-pointer text-gray-500 hover:text-gray-300">
+            {errorCount > 0 ? `${errorCount} error${errorCount === 1 ? '' : 's'}` : `${issues.length} warning${issues.length === 1 ? '' : 's'}`}
+          </summary>
+          <ul className="mt-1 space-y-0.5">
+            {issues.map((issue, index) => <li key={index} className={issue.isError ? 'text-red-400' : 'text-yellow-400'}>{issue.text}</li>)}
+          </ul>
+        </details>
+      )}
+    </>
+  );
+};
+
+export const PageSnapshotPanel: React.FC<PageSnapshotPanelProps> = ({ snapshots }) => {
+  const [showAll, setShowAll] = useState(false);
+  const fetched = snapshots.filter(s => !s.error);
+  const problems = snapshots.filter(hasProblem);
+  const rows = showAll ? snapshots : problems;
+
+  const counts = [
+    { label: 'No title', value: fetched.filter(s => !s.title).length },
+    { label: 'No description', value: fetched.filter(s => !s.metaDescription).length },
+    { label: 'H1 ≠ 1', value: fetched.filter(s => h1Count(s) !== 1).length },
+    { label: 'Canonical elsewhere', value: fetched.filter(s => s.canonical && s.canonical !== s.finalUrl).length },
+    { label: 'No schema', value: fetched.filter(s => s.structuredData.length === 0).length },
+    { label: 'Schema errors', value: fetched.filter(s => schemaErrorCount(s) > 0).length },
+    { label: 'Not fetched', value: snapshots.length - fetched.length },
+  ];
+
+  return (
+    <div className="bg-gray-800/60 rounded-xl p-5 border border-gray-700/50">
+      <div className="flex flex-wrap items-baseline justify-between gap-3 mb-3">
+        <h4 className="font-semibold text-gray-200">On-Page Extraction</h4>
+        <span className="text-xs text-gray-400">{fetched.length} of {snapshots.length} pages parsed</span>
+      </div>
+      <div className="grid grid-cols-4 sm:grid-cols-7 gap-2 mb-4">
+        {counts.map(({ label, value }) => (
+          <div key={label} className="bg-gray-900/50 rounded-lg px-3 py-2 text-center">
+            <p className={`text-lg font-bold ${value > 0 ? 'text-yellow-400' : 'text-gray-500'}`}>{value}</p>
+            <p className="text-[11px] text-gray-500 uppercase tracking-wider">{label}</p>
+          </div>
+        ))}
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-400">Every page has a title, a meta description, a single H1, a self-referencing or absent canonical and valid structured data.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-72 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="text-gray-500 text-left sticky top-0 bg-gray-800">
+              <tr>
+                <th className="py-1.5 pr-3 font-semibold">Page</th>
+                <th className="py-1.5 pr-3 font-semibold text-right">Title</th>
+                <th className="py-1.5 pr-3 font-semibold text-right">Desc.</th>
+                <th className="py-1.5 pr-3 font-semibold text-right">H1</th>
+                <th className="py-1.5 pr-3 font-semibold text-right">Words</th>
+                <th className="py-1.5 pr-3 font-semibold">Canonical</th>
+                <th className="py-1.5 font-semibold">Schema</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700/50">
+              {rows.map(page => {
+                if (page.error) {
+                  return (
+                    <tr key={page.url} className="align-top">
+                      <td className="py-1.5 pr-3 max-w-xs">
+                        <p className="font-mono text-gray-300 truncate" title={page.url}>{page.url}</p>
+                      </td>
+                      <td colSpan={6} className="py-1.5 text-gray-500">{page.error}</td>
+                    </tr>
+                  );
+                }
+                const canonical = canonicalLabel(page);
+                return (
+                  <tr key={page.url} className="align-top">
+                    <td className="py-1.5 pr-3 max-w-xs">
+                      <p className="font-mono text-gray-300 truncate" title={page.url}>{page.url}</p>
+                      <p className="text-gray-500 truncate mt-0.5" title={page.title}>{page.title || 'No title'}</p>
+                    </td>
+                    <td className={`py-1.5 pr-3 text-right ${page.title ? 'text-gray-400' : 'text-yellow-400'}`}>{page.title?.length ?? '—'}</td>
+                    <td className={`py-1.5 pr-3 text-right ${page.metaDescription ? 'text-gray-400' : 'text-yellow-400'}`}>{page.metaDescription?.length ?? '—'}</td>
+                    <td className={`py-1.5 pr-3 text-right ${h1Count(page) === 1 ? 'text-gray-400' : 'text-yellow-400'}`}>{h1Count(page)}</td>
+                    <td className="py-1.5 pr-3 text-right text-gray-400">{page.wordCount.toLocaleString()}</td>
+                    <td className={`py-1.5 pr-3 ${canonical.className}`} title={page.canonical}>{canonical.label}</td>
+                    <td className="py-1.5 max-w-xs">
+                      <SchemaCell page={page} />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {snapshots.length > problems.length && problems.length > 0 && (
+        <button onClick={() => setShowAll(prev => !prev)} className="mt-3 text-xs font-semibold text-blue-400 hover:text-blue-300">
+          {showAll ? 'Show problems only' : `Show all ${snapshots.length} pages`}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -19,6 +19,12 @@ const nodeRadii = {
   orphan: 8,
 };
 
+const nodeTooltip = (node: Node): string => {
+  if (node.authority === undefined) return node.id;
+  const depth = node.depth === null || node.depth === undefined ? 'not reached' : `${node.depth} clicks`;
+  return `${node.id}\nAuthority ${node.authority} · ${node.inlinks ?? 0} inlinks · depth ${depth}`;
+};
+
 const calculateLayout = (graphData: GraphData, width: number, height: number): PositionedNode[] => {
   if (!graphData || !graphData.nodes) return [];
 
@@ -77,7 +83,7 @@ export const SiteArchitectureGraph: React.FC<{ graphData: GraphData }> = ({ grap
     const nodeMap = useMemo(() => new Map(positionedNodes.map(n => [n.id, n])), [positionedNodes]);
 
   if (!graphData || !graphData.nodes || graphData.nodes.length === 0) {
-    return <div className="text-center text-gray-500 p-8">No site architecture data available to display.</div>;
+    return <div className="text-center text-gray-500 p-8">No internal link data available to display. Enable link mapping in Crawler Settings to chart the site's architecture.</div>;
   }
 
   return (
@@ -115,7 +121,7 @@ export const SiteArchitectureGraph: React.FC<{ graphData: GraphData }> = ({ grap
                         r={nodeRadii[node.type]}
                         className={`${nodeColors[node.type]} stroke-2 transition-all duration-300 group-hover:stroke-white`}
                     />
-                    <title>{node.id}</title>
+                    <title>{nodeTooltip(node)}</title>
                     <text
                         textAnchor="middle"
                         y={nodeRadii[node.type] + 12}
@@ -127,9 +133,9 @@ export const SiteArchitectureGraph: React.FC<{ graphData: GraphData }> = ({ grap
             ))}
         </svg>
         <div className="flex justify-center items-center gap-6 mt-4 text-xs text-gray-400">
-            <div className="flex items-center gap-2"><div className="w-3 h-3 rounded-full bg-blue-500/50 border border-blue-400"></div>Pillar Page</div>
-            <div className="flex items-center gap-2"><div className="w-3 h-3 rounded-full bg-teal-500/50 border border-teal-400"></div>Cluster Page</div>
-            <div className="flex items-center gap-2"><div className="w-3 h-3 rounded-full bg-gray-600/50 border border-gray-500"></div>Orphan Page</div>
+            <div className="flex items-center gap-2"><div className="w-3 h-3 rounded-full bg-blue-500/50 border border-blue-400"></div>Hub Page (highest authority)</div>
+            <div className="flex items-center gap-2"><div className="w-3 h-3 rounded-full bg-teal-500/50 border border-teal-400"></div>Linked Page</div>
+            <div className="flex items-center gap-2"><div className="w-3 h-3 rounded-full bg-gray-600/50 border border-gray-500"></div>Orphan Page (no inlinks)</div>
         </div>
     </div>
   );
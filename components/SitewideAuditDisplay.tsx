@@ -1,7 +1,8 @@
 
 import React, { useState, useMemo } from 'react';
-import type { SitewideAnalysis, TechnicalAudit, ContentGap, TopicCluster, LocalBusinessAudit, ZeroToOneInitiative } from '../types';
+import type { SitewideAnalysis, TechnicalAudit, ContentGap, TopicCluster, LocalBusinessAudit, ZeroToOneInitiative, AuditFinding, ImageAudit, ImageIssue } from '../types';
 import { SiteArchitectureGraph } from './SiteArchitectureGraph';
+import { IMAGE_ISSUES } from '../utils/imageAudit';
 
 const ChevronIcon: React.FC<{ isOpen: boolean }> = ({ isOpen }) => (
     <svg xmlns="http://www.w3.org/2000/svg" className={`h-6 w-6 transform transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -41,19 +42,68 @@ const HealthStatus: React.FC<{ status: TechnicalAudit['status'] | LocalBusinessA
     return <span className={`px-3 py-1 text-sm font-semibold rounded-full capitalize ${styles[status]}`}>{text}</span>;
 }
 
-const TechnicalHealthSection: React.FC<{ health: TechnicalAudit }> = ({ health }) => (
+// Distinguishes problems the app measured itself from the model's assessment
+const VerifiedBadge: React.FC = () => (
+    <span className="inline-flex items-center gap-1 px-2 py-0.5 text-[11px] font-semibold rounded-full bg-green-500/15 text-green-300 border border-green-500/30" title="Measured directly by fetching the sitemaps, URLs and pages, not inferred by the AI">
+        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3"><path fillRule="evenodd" d="M16.704 4.153a.75.75 0 01.143 1.052l-8 10.5a.75.75 0 01-1.127.075l-4.5-4.5a.75.75 0 011.06-1.06l3.894 3.893 7.48-9.817a.75.75 0 011.05-.143z" clipRule="evenodd" /></svg>
+        Verified
+    </span>
+);
+
+const priorityTextStyle = (priority: 'high' | 'medium' | 'low') =>
+    priority === 'high' ? 'text-red-400' : priority === 'medium' ? 'text-yellow-400' : 'text-sky-400';
+
+const TechnicalHealthSection: React.FC<{ health: TechnicalAudit; verifiedFindings: AuditFinding[] }> = ({ health, verifiedFindings }) => (
     <div className="space-y-4 text-gray-300">
         <p className="italic">"{health.summary}"</p>
-        <h4 className="font-semibold text-gray-400">Recommended Actions:</h4>
+        {verifiedFindings.length > 0 && (
+            <>
+                <h4 className="font-semibold text-gray-400">Verified Issues:</h4>
+                <ul className="space-y-2">
+                    {verifiedFindings.map(finding => (
+                        <li key={finding.id} className="bg-gray-950/50 p-3 rounded-md border border-green-500/20">
+                            <div className="flex items-start justify-between gap-3">
+                                <p>{finding.title}</p>
+                                <VerifiedBadge />
+                            </div>
+                            <p className="text-xs text-gray-400 mt-1">{finding.description}</p>
+                            <span className={`text-xs capitalize font-semibold ${priorityTextStyle(finding.priority)}`}>
+                                {finding.priority} Priority
+                            </span>
+                            {finding.evidence.length > 0 && (
+                                <details className="mt-2">
+                                    <summary className="text-xs text-gray-400 cursor-pointer hover:text-gray-200">Evidence ({finding.evidence.length})</summary>
+                                    <ul className="mt-1 space-y-0.5 font-mono text-xs text-gray-400 max-h-40 overflow-y-auto">
+                                        {finding.evidence.map((line, index) => <li key={index} className="break-all">{line}</li>)}
+                                    </ul>
+                                </details>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            </>
+        )}
+        <h4 className="font-semibold text-gray-400">{verifiedFindings.length > 0 && !health.actionItems.some(item => item.ruleId) ? 'AI Recommended Actions:' : 'Recommended Actions:'}</h4>
         <ul className="space-y-2">
             {health.actionItems.map((item, index) => (
-                <li key={index} className="flex items-start gap-3 bg-gray-950/50 p-3 rounded-md border border-gray-700">
+                <li key={index} className={`flex items-start gap-3 bg-gray-950/50 p-3 rounded-md border ${item.ruleId ? 'border-green-500/20' : 'border-gray-700'}`}>
                     <span className="text-blue-400 font-bold">{index + 1}.</span>
                     <div className="flex-1">
-                        <p>{item.item}</p>
-                        <span className={`text-xs capitalize font-semibold ${item.priority === 'high' ? 'text-red-400' : item.priority === 'medium' ? 'text-yellow-400' : 'text-sky-400'}`}>
+                        <div className="flex items-start justify-between gap-3">
+                            <p>{item.item}</p>
+                            {item.ruleId && <VerifiedBadge />}
+                        </div>
+                        <span className={`text-xs capitalize font-semibold ${priorityTextStyle(item.priority)}`}>
                             {item.priority} Priority
                         </span>
+                        {item.evidence && item.evidence.length > 0 && (
+                            <details className="mt-2">
+                                <summary className="text-xs text-gray-400 cursor-pointer hover:text-gray-200">Evidence ({item.evidence.length})</summary>
+                                <ul className="mt-1 space-y-0.5 font-mono text-xs text-gray-400 max-h-40 overflow-y-auto">
+                                    {item.evidence.map((line, lineIndex) => <li key={lineIndex} className="break-all">{line}</li>)}
+                                </ul>
+                            </details>
+                        )}
                     </div>
                 </li>
             ))}
@@ -61,6 +111,60 @@ const TechnicalHealthSection: React.FC<{ health: TechnicalAudit }> = ({ health }
     </div>
 );
 
+const IMAGE_ISSUE_LABELS: Record<ImageIssue, string> = {
+    'missing-alt': 'Missing alt',
+    'empty-alt': 'Empty alt',
+    'missing-dimensions': 'No width/height',
+    'not-lazy': 'Not lazy-loaded',
+    'legacy-format': 'JPEG/PNG/GIF',
+    'oversized': 'Oversized',
+};
+const IMAGE_PAGES_SHOWN = 15;
+
+const ImageAuditSection: React.FC<{ audit: ImageAudit }> = ({ audit }) => (
+    <div className="space-y-4 text-gray-300">
+        <p className="text-sm text-gray-400">
+            {audit.imagesAudited} distinct images on {audit.pagesAudited} fetched pages; {audit.imagesSized} had their file size measured with a HEAD request.
+        </p>
+        <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+            {IMAGE_ISSUES.map(issue => (
+                <div key={issue} className="bg-gray-950/50 rounded-lg px-3 py-2 text-center">
+                    <p className={`text-lg font-bold ${audit.counts[issue] > 0 ? 'text-yellow-400' : 'text-gray-300'}`}>{audit.counts[issue]}</p>
+                    <p className="text-[11px] text-gray-500 uppercase tracking-wider">{IMAGE_ISSUE_LABELS[issue]}</p>
+                </div>
+            ))}
+        </div>
+        {audit.pages.length === 0 ? (
+            <p className="text-sm text-gray-400">No image issues found on the fetched pages.</p>
+        ) : (
+            <ul className="space-y-2">
+                {audit.pages.slice(0, IMAGE_PAGES_SHOWN).map(page => (
+                    <li key={page.url} className="bg-gray-950/50 p-3 rounded-md border border-gray-700">
+                        <p className="font-mono text-xs text-gray-300 truncate" title={page.url}>{page.url}</p>
+                        <p className="text-xs text-gray-500 mt-0.5">{page.imageCount} images</p>
+                        <details className="mt-2">
+                            <summary className="text-xs text-gray-400 cursor-pointer hover:text-gray-200">
+                                {IMAGE_ISSUES.filter(issue => page.counts[issue] > 0).map(issue => `${IMAGE_ISSUE_LABELS[issue]}: ${page.counts[issue]}`).join(' · ')}
+                            </summary>
+                            <ul className="mt-1 space-y-1 font-mono text-xs text-gray-400 max-h-40 overflow-y-auto">
+                                {IMAGE_ISSUES.filter(issue => page.counts[issue] > 0).map(issue => (
+                                    <li key={issue}>
+                                        <span className="text-gray-300">{IMAGE_ISSUE_LABELS[issue]}:</span>
+                                        {page.examples[issue].map(src => <p key={src} className="break-all pl-3">{src}</p>)}
+                                    </li>
+                                ))}
+                            </ul>
+                        </details>
+                    </li>
+                ))}
+                {audit.pages.length > IMAGE_PAGES_SHOWN && (
+                    <li className="text-xs text-gray-500">...and {audit.pages.length - IMAGE_PAGES_SHOWN} more pages with image issues</li>
+                )}
+            </ul>
+        )}
+    </div>
+);
+
 const LocalBusinessAuditSection: React.FC<{ audit: LocalBusinessAudit }> = ({ audit }) => (
     <div className="space-y-4 text-gray-300">
         <p className="italic">"{audit.summary}"</p>
@@ -215,9 +319,10 @@ const PriorityItem: React.FC<{ item: PrioritizedItem }> = ({ item }) => {
 
 interface SitewideAuditDisplayProps {
     audit: SitewideAnalysis;
+    verifiedFindings?: AuditFinding[];
 }
 
-export const SitewideAuditDisplay: React.FC<SitewideAuditDisplayProps> = ({ audit }) => {
+export const SitewideAuditDisplay: React.FC<SitewideAuditDisplayProps> = ({ audit, verifiedFindings = [] }) => {
     const prioritizedItems: PrioritizedItem[] = [
         ...audit.contentGaps.map(g => ({ ...g, type: 'Content Gap' as const })),
         ...audit.topicClusters.map(c => ({ ...c, type: 'Topic Cluster' as const })),
@@ -283,8 +388,21 @@ export const SitewideAuditDisplay: React.FC<SitewideAuditDisplayProps> = ({ audi
                         </div>
                     </div>
                 }>
-                    <TechnicalHealthSection health={audit.technicalHealth} />
+                    <TechnicalHealthSection health={audit.technicalHealth} verifiedFindings={verifiedFindings} />
                 </AccordionItem>
+                {audit.imageAudit && audit.imageAudit.imagesAudited > 0 && (
+                    <AccordionItem title={
+                        <div className="flex items-center gap-4">
+                            <span className="text-pink-400"><svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg></span>
+                            <div className="flex items-center gap-3">
+                                <span>Image SEO Audit</span>
+                                <VerifiedBadge />
+                            </div>
+                        </div>
+                    }>
+                        <ImageAuditSection audit={audit.imageAudit} />
+                    </AccordionItem>
+                )}
             </div>
         </div>
     );
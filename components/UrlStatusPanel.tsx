@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import type { UrlStatusCheck } from '../types';
+
+interface UrlStatusPanelProps {
+  checks: UrlStatusCheck[];
+}
+
+const isProblem = (check: UrlStatusCheck) =>
+  check.status === 0 || check.status >= 400 || check.redirectChain.length > 0 || check.noindex;
+
+const statusStyle = (check: UrlStatusCheck): string => {
+  if (check.status === 0) return 'bg-gray-600/30 text-gray-300';
+  if (check.status >= 400) return 'bg-red-500/15 text-red-400';
+  if (check.redirectChain.length > 0) return 'bg-yellow-500/15 text-yellow-400';
+  return 'bg-green-500/15 text-green-400';
+};
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? Math.round((sorted[mid - 1] + sorted[mid]) / 2) : sorted[mid];
+};
+
+export const UrlStatusPanel: React.FC<UrlStatusPanelProps> = ({ checks }) => {
+  const [showAll, setShowAll] = useState(false);
+  const problems = checks.filter(isProblem);
+  const rows = showAll ? checks : problems;
+  const reachable = checks.filter(c => c.status > 0);
+
+  const counts = [
+    { label: 'OK', value: checks.filter(c => c.status >= 200 && c.status < 300 && c.redirectChain.length === 0).length, className: 'text-green-400' },
+    { label: 'Redirected', value: checks.filter(c => c.redirectChain.length > 0).length, className: 'text-yellow-400' },
+    { label: '4xx', value: checks.filter(c => c.status >= 400 && c.status < 500).length, className: 'text-red-400' },
+    { label: '5xx', value: checks.filter(c => c.status >= 500).length, className: 'text-red-400' },
+    { label: 'Noindex', value: checks.filter(c => c.noindex).length, className: 'text-orange-400' },
+    { label: 'Unreachable', value: checks.length - reachable.length, className: 'text-gray-300' },
+  ];
+
+  return (
+    <div className="bg-gray-800/60 rounded-xl p-5 border border-gray-700/50">
+      <div className="flex flex-wrap items-baseline justify-between gap-3 mb-3">
+        <h4 className="font-semibold text-gray-200">URL Status Verification</h4>
+        <span className="text-xs text-gray-400">
+          {checks.length} URLs checked · median response {median(reachable.map(c => c.responseTimeMs))}ms
+        </span>
+      </div>
+      <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 mb-4">
+        {counts.map(({ label, value, className }) => (
+          <div key={label} className="bg-gray-900/50 rounded-lg px-3 py-2 text-center">
+            <p className={`text-lg font-bold ${value > 0 ? className : 'text-gray-500'}`}>{value}</p>
+            <p className="text-[11px] text-gray-500 uppercase tracking-wider">{label}</p>
+          </div>
+        ))}
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-400">Every checked URL answered 200 directly and is indexable.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-72 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="text-gray-500 text-left sticky top-0 bg-gray-800">
+              <tr>
+                <th className="py-1.5 pr-3 font-semibold">URL</th>
+                <th className="py-1.5 pr-3 font-semibold">Status</th>
+                <th className="py-1.5 pr-3 font-semibold">X-Robots-Tag</th>
+                <th className="py-1.5 font-semibold text-right">Time</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700/50">
+              {rows.map(check => (
+                <tr key={check.url} className="align-top">
+                  <td className="py-1.5 pr-3 max-w-md">
+                    <p className="font-mono text-gray-300 truncate" title={check.url}>{check.url}</p>
+                    {check.redirectChain.length > 0 && (
+                      <p className="text-gray-500 mt-0.5 truncate" title={check.finalUrl}>
+                        {check.redirectChain.length} hop{check.redirectChain.length === 1 ? '' : 's'} → {check.finalUrl}
+                      </p>
+                    )}
+                    {check.error && <p className="text-gray-500 mt-0.5">{check.error}</p>}
+                  </td>
+                  <td className="py-1.5 pr-3">
+                    <span className={`inline-block px-1.5 py-0.5 rounded text-[11px] font-semibold ${statusStyle(check)}`}>
+                      {check.status === 0 ? 'Unreachable' : check.redirectChain.length > 0 ? `${check.redirectChain[0].status ?? '3xx'} → ${check.status}` : check.status}
+                    </span>
+                  </td>
+                  <td className={`py-1.5 pr-3 ${check.noindex ? 'text-orange-400' : 'text-gray-500'}`}>{check.xRobotsTag ?? '—'}</td>
+                  <td className="py-1.5 text-gray-400 text-right">{check.status === 0 ? '—' : `${check.responseTimeMs}ms`}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {checks.length > problems.length && problems.length > 0 && (
+        <button onClick={() => setShowAll(prev => !prev)} className="mt-3 text-xs font-semibold text-blue-400 hover:text-blue-300">
+          {showAll ? 'Show problems only' : `Show all ${checks.length} URLs`}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -137,7 +137,7 @@ ${getExecutionAndQualityBlock()}
 - Topical Authority: Identify content gaps that, if filled, would establish the site as a definitive resource on its core topic.
 - Competitive Edge: Find angles and opportunities where competitors are weak (e.g., outdated content, poor user experience, missing formats like video).
 - User Journey: Analyze how the provided URLs serve different stages of the user journey (awareness, consideration, decision).
-- Content Decay: Identify pages that are likely outdated (e.g., contain past years in the URL or title) and flag them for a 'refresh'.
+- Content Decay: Identify pages that are likely outdated (e.g., an old sitemap 'lastmod' date, or past years in the URL or title) and flag them for a 'refresh'.
 </strategic_lens>
 
 <analysis_modules>
@@ -156,7 +156,7 @@ ${getExecutionAndQualityBlock()}
   {
     "url": "string (full URL)",
     "priority": "'high' | 'medium' | 'low'",
-    "source": "'analysis' | 'decay'",
+    "source": "'analysis'",
     "rewriteDetails": {
       "reason": "string (<25 words explaining the core strategic flaw)",
       "evidence": "string (A single, verifiable data point, e.g., 'Top 3 SERP results are interactive tools, while this is a static text page.' or a direct URL to a competitor.)",
@@ -178,7 +178,8 @@ ${getExecutionAndQualityBlock()}
   - If a page has major flaws, provide 'rewriteDetails'.
   - If a page is strong but needs tweaks, provide 'optimizationTasks'.
   - If a page has major flaws AND needs specific tweaks post-rewrite, provide both.
-  - If a page seems outdated (e.g., "for 2023"), set rewriteDetails.action to 'refresh', source to 'decay', and reason to 'Content is likely outdated and needs a refresh for the current year.'
+  - Never set source to 'decay' or rewriteDetails.action to 'refresh'. Outdated content is scored from the sitemap lastmod, the dates on the page, schema dateModified, year mentions in titles and headings, and Search Console clicks, and refresh actions are added from that score.
+  - Never set rewriteDetails.action to 'merge' or 'canonical'. Duplicate content is measured by comparing the pages' body text, and those actions are added from that measurement.
   </rules>
 </module>
 
@@ -212,22 +213,40 @@ ${getExecutionAndQualityBlock()}
 
 export const USER_PROMPT_TEMPLATE = `
 Analyze the following list of URLs based on the system instructions.
+Each URL is followed by the metadata its sitemap declares (lastmod, changefreq, priority, image/video counts, news date, hreflang alternates). Treat this metadata as ground truth; do not contradict it.
 
 List of URLs to Analyze:
 \${URL_LIST}
 
+The pages below were fetched and parsed: title and meta description (with lengths), H1, heading outline, visible word count, canonical ("self" when it points at the page itself), meta robots, hreflang, Open Graph properties and structured data (schema.org types found in JSON-LD, Microdata or RDFa, each with its validation errors). Base every on-page recommendation on these facts; quote the current title or heading when proposing a rewrite, and don't recommend adding something the page already has. Never recommend adding a schema type the page already has; if that schema has errors, recommend fixing the listed errors instead.
+A page marked "rendering: JavaScript only" returned an empty application shell: its content exists only after JavaScript runs, so crawlers that don't render see none of it. Treat its missing text, headings or links as that rendering problem, not as content to write.
+<page_snapshots>
+\${PAGE_SNAPSHOTS}
+</page_snapshots>
+
 Return only the final, valid JSON object.
 `;
 
 export const SITEWIDE_AUDIT_USER_PROMPT_TEMPLATE = `
 Analyze the user's sitemap and their competitors' sitemaps based on the system instructions.
+Each user URL is followed by the metadata its sitemap declares (lastmod, changefreq, priority, image/video counts, news date, hreflang alternates). Use it for freshness, media and international signals instead of guessing.
+The user URL list may be a sample. The site inventory gives the full size of each sitemap section and how many of its URLs were sampled; weigh sitewide findings by section size, not by how often a section appears in the sample.
+The user page snapshots are the fetched HTML of the top-ranked user URLs (title, description, headings, word count, canonical, robots, hreflang, Open Graph, and validated structured data from JSON-LD, Microdata and RDFa). Use them for technical and content findings instead of inferring from URLs; don't recommend schema a page already has. Snapshots marked "rendering: JavaScript only" are empty application shells whose content appears only after JavaScript runs; report the reliance on client-side rendering as a technical issue instead of judging their content.
+Each competitor was crawled the same way: you get its URL inventory, its most common URL sections and its highest-ranked pages. Base content gaps on these real competitor pages, and set "competitorSource" to the host of the competitor whose pages show the gap.
+
+<site_inventory>
+\${SITE_INVENTORY}
+</site_inventory>
 
 <sitemaps>
 <user_sitemap>
 \${USER_URL_LIST}
 </user_sitemap>
+<user_page_snapshots>
+\${PAGE_SNAPSHOTS}
+</user_page_snapshots>
 <competitor_sitemaps>
-\${COMPETITOR_URL_LIST}
+\${COMPETITOR_INVENTORY}
 </competitor_sitemaps>
 </sitemaps>
 
@@ -247,7 +266,7 @@ Your output MUST be a single, valid JSON object and nothing else. No markdown, n
 </persona>
 
 <output_format>
-- The root of the JSON object must contain six keys: "strategicRoadmap", "technicalHealth", "contentGaps", "topicClusters", "siteArchitectureGraph", "localBusinessAudit", and "zeroToOneInitiatives".
+- The root of the JSON object must contain six keys: "strategicRoadmap", "technicalHealth", "contentGaps", "topicClusters", "localBusinessAudit", and "zeroToOneInitiatives".
 - Adhere strictly to the JSON schemas defined below.
 - CRITICAL RULE: The final output must be ONLY the JSON object. Do not wrap it in markdown backticks. The response must start with \`{\` and end with \`}\`.
 - **Escaping:** Within any JSON string value, all double quotes (\") MUST be escaped with a backslash (e.g., "a string with \\\"quotes\\\" in it").
@@ -265,7 +284,6 @@ ${getExecutionAndQualityBlock()}
     "technicalHealth": "object (using the 'technicalHealth' schema)",
     "contentGaps": "array (using the 'contentGaps' schema, 3-5 top gaps)",
     "topicClusters": "array (using the 'topicClusters' schema, 2-3 main clusters)",
-    "siteArchitectureGraph": "object (using the 'siteArchitectureGraph' schema)",
     "localBusinessAudit": "object (using the 'localBusinessAudit' schema)",
     "zeroToOneInitiatives": "array (using 'zeroToOneInitiative' schema, 1-2 top ideas)"
   }
@@ -337,26 +355,11 @@ ${getExecutionAndQualityBlock()}
   </json_schema>
 </module>
 
-<module name="siteArchitectureGraph">
-    <description>Generate a node-edge graph of the site's architecture based on the Topic Clusters analysis. This will be used for visualization.</description>
-    <json_schema>
-    { "nodes": [{ "id": "string (full URL)", "label": "string (A short, readable label for the page)", "type": "'pillar' | 'cluster' | 'orphan'", "cluster": "string (The clusterName this node belongs to)" }], "edges": [{ "source": "string (URL of source node)", "target": "string (URL of target node)" }] }
-    </json_schema>
-    <rules>
-      - Every page from the 'topicClusters' analysis MUST be represented as a node.
-      - Pillar pages MUST have type 'pillar'. Their supporting pages MUST have type 'cluster'.
-      - Any URLs from the input list that do not fit into a cluster should be included with type 'orphan'. Keep this list small (3-5 top orphans).
-      - Edges MUST connect supporting 'cluster' nodes to their 'pillar' node.
-      - Labels should be concise (e.g., "/blog/my-post" -> "My Post"). The root "/" should be "Homepage".
-    </rules>
-</module>
-
 </analysis_modules>
 <final_review>
 - Is the Strategic Roadmap not just a summary, but a true, prioritized action plan?
 - Have you directly compared the user to their competitors?
 - Are all prioritization scores (impact/effort) included?
-- Is the graph data well-structured?
 - Is the JSON perfectly formed and valid?
 </final_review>
 </master_instructions>
@@ -464,7 +467,7 @@ Your output MUST be a single, valid JSON object and nothing else. No markdown, n
 - Prioritize actions based on the 'priority' and 'impact' scores from the provided analysis data.
 - For rewrites and optimizations, select the top 5 highest-priority pages from the 'pageActions' array.
 - For new content, select the top 5 highest-potential ideas from the 'keywords' and 'contentGaps' arrays.
-- For redirects, invent plausible, high-impact redirects based on the site's structure. For example, consolidating two weak blog posts into one strong one, or redirecting an old product page to a new one. Create up to 10 redirects.
+- For redirects, suggest at most 5, and only from URLs that are broken, obsolete or superseded to the live page that replaces them. Never redirect a page that is live and ranking. Every suggestion is checked against fetched status codes and canonicals: only redirects from a failing URL to a URL answering 200 are kept, and the rest are flagged. Duplicate-content merges and canonicals are added from measured data; the merge/canonical entries in 'pageActions' already cover those pages.
 - For each item, provide a concise 'reason' and a direct, command-style 'instruction' (e.g., "Rewrite this page to target 'X' intent," "Implement these technical fixes now," "Create a pillar page on 'Y' topic.").
 </persona>
 
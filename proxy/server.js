@@ -0,0 +1,144 @@
+// Minimal CORS fetch proxy for the crawler. Run with `npm run proxy`, then enable
+// "Local proxy" in Crawler Settings. Requests look like GET /?url=<encoded target URL>; HEAD is
+// passed through as HEAD, so file sizes can be checked without downloading the file.
+//
+// Binds to localhost and only answers the app's own origins (the Vite dev server and `vite preview`),
+// so other sites open in the browser can't use it. Targets that resolve to private, loopback or
+// link-local addresses are refused, so it can't be used to read the intranet either. Override with:
+//   PROXY_PORT (default 8787), PROXY_HOST (default 127.0.0.1),
+//   PROXY_ALLOWED_ORIGIN (comma-separated, default the dev and preview origins on localhost),
+//   PROXY_ALLOW_PRIVATE=1 (to audit a site served from localhost or the local network)
+
+import http from 'node:http';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const HOST = process.env.PROXY_HOST || '127.0.0.1';
+const ALLOWED_ORIGINS = (process.env.PROXY_ALLOWED_ORIGIN || 'http://localhost:3000,http://127.0.0.1:3000,http://localhost:4173,http://127.0.0.1:4173')
+    .split(',').map(origin => origin.trim()).filter(Boolean);
+const ALLOW_PRIVATE_TARGETS = process.env.PROXY_ALLOW_PRIVATE === '1';
+const UPSTREAM_TIMEOUT_MS = 30000;
+const MAX_REDIRECTS = 10;
+const USER_AGENT = 'Mozilla/5.0 (compatible; OrchestratorAI-Crawler/1.0)';
+
+const PRIVATE_RANGES = new BlockList();
+[
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([network, prefix]) => PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4'));
+[
+    ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([network, prefix]) => PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6'));
+
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) against the IPv4 ranges
+const isPrivateAddress = (address) => PRIVATE_RANGES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+// Every address the host resolves to is checked, so a public name pointing at 127.0.0.1 is refused too
+const resolvesToPrivateAddress = async (url) => {
+    if (ALLOW_PRIVATE_TARGETS) return false;
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    const addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true });
+    return addresses.some(({ address }) => isPrivateAddress(address));
+};
+
+const corsHeadersFor = (origin) => ({
+    ...(origin && ALLOWED_ORIGINS.includes(origin) && { 'Access-Control-Allow-Origin': origin, 'Vary': 'Origin' }),
+    'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
+    'Access-Control-Allow-Headers': '*',
+    'Access-Control-Expose-Headers': 'X-Final-Url, X-Upstream-Status, X-Redirect-Chain, X-Robots-Tag, Content-Type, Content-Length, Last-Modified',
+});
+
+const server = http.createServer(async (req, res) => {
+    const origin = req.headers.origin;
+    const corsHeaders = corsHeadersFor(origin);
+    const send = (status, body, headers = {}) => {
+        res.writeHead(status, { ...corsHeaders, 'Content-Type': 'text/plain; charset=utf-8', ...headers });
+        res.end(body);
+    };
+
+    // Browsers send Origin on cross-origin requests; one from another site is refused before anything is fetched
+    if (origin && !ALLOWED_ORIGINS.includes(origin)) {
+        send(403, `Origin ${origin} is not allowed; add it to PROXY_ALLOWED_ORIGIN`);
+        return;
+    }
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, corsHeaders);
+        res.end();
+        return;
+    }
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+        send(405, 'Method not allowed');
+        return;
+    }
+
+    const requestUrl = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    if (requestUrl.pathname === '/health') {
+        send(200, JSON.stringify({ ok: true }), { 'Content-Type': 'application/json' });
+        return;
+    }
+
+    let target;
+    try {
+        target = new URL(requestUrl.searchParams.get('url') || '');
+    } catch (e) {
+        send(400, 'Missing or invalid "url" query parameter');
+        return;
+    }
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+        send(400, 'Only http(s) URLs can be proxied');
+        return;
+    }
+
+    try {
+        // Redirects are followed by hand so the hops can be reported to the crawler in X-Redirect-Chain
+        const signal = AbortSignal.timeout(UPSTREAM_TIMEOUT_MS);
+        const redirectChain = [];
+        let currentUrl = target;
+        let upstream;
+        for (;;) {
+            // Checked on every hop, so a public URL can't redirect into the local network
+            if (await resolvesToPrivateAddress(currentUrl)) {
+                send(403, `Refusing to fetch ${currentUrl.hostname}: it resolves to a private or loopback address (set PROXY_ALLOW_PRIVATE=1 to allow)`);
+                return;
+            }
+            upstream = await fetch(currentUrl, {
+                method: req.method,
+                redirect: 'manual',
+                headers: { 'User-Agent': USER_AGENT, 'Accept': '*/*' },
+                signal,
+            });
+            const location = upstream.headers.get('location');
+            if (upstream.status < 300 || upstream.status >= 400 || !location || redirectChain.length >= MAX_REDIRECTS) break;
+            redirectChain.push({ url: currentUrl.toString(), status: upstream.status });
+            await upstream.body?.cancel();
+            currentUrl = new URL(location, currentUrl);
+        }
+        const headers = {
+            'Content-Type': upstream.headers.get('content-type') || 'application/octet-stream',
+            'X-Final-Url': currentUrl.toString(),
+            'X-Upstream-Status': String(upstream.status),
+            'X-Redirect-Chain': JSON.stringify(redirectChain),
+        };
+        const lastModified = upstream.headers.get('last-modified');
+        if (lastModified) headers['Last-Modified'] = lastModified;
+        const robotsTag = upstream.headers.get('x-robots-tag');
+        if (robotsTag) headers['X-Robots-Tag'] = robotsTag;
+        if (req.method === 'HEAD') {
+            const contentLength = upstream.headers.get('content-length');
+            res.writeHead(upstream.status, { ...corsHeaders, ...headers, ...(contentLength && { 'Content-Length': contentLength }) });
+            res.end();
+            return;
+        }
+        const body = Buffer.from(await upstream.arrayBuffer());
+        // Node's fetch already decoded any Content-Encoding, so the body is sent as-is.
+        send(upstream.status, body, headers);
+    } catch (e) {
+        const timedOut = e && e.name === 'TimeoutError';
+        send(timedOut ? 504 : 502, `Upstream fetch failed: ${e && e.message ? e.message : e}`);
+    }
+});
+
+server.listen(PORT, HOST, () => {
+    console.log(`Crawler proxy listening on http://${HOST}:${PORT}`);
+});
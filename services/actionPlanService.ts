@@ -1,7 +1,8 @@
 
-import type { SitewideAnalysis, SeoAnalysisResult, ActionItem, DailyActionPlan, AiConfig, PageAction, KeywordIdea, TechnicalAudit } from '../types';
+import type { SitewideAnalysis, SeoAnalysisResult, ActionItem, DailyActionPlan, AiConfig, PageAction, KeywordIdea, TechnicalAudit, AuditFinding, ContentMetrics } from '../types';
 import { generateBatchImplementationGuides } from './aiService';
 import { slugify } from '../utils/utility';
+import { describeContentMetrics } from '../utils/contentMetrics';
 
 type RawTask = {
     id: string;
@@ -9,13 +10,47 @@ type RawTask = {
     type: ActionItem['type'];
     priority: ActionItem['priority'];
     context: string;
+    evidence?: string[];
+    contentMetrics?: ContentMetrics;
 }
 
-const collateTasks = (sitewideAnalysis: SitewideAnalysis, seoAnalysis: SeoAnalysisResult): RawTask[] => {
+// How many evidence lines go into the prompt; the action item keeps all of them
+const MAX_EVIDENCE_IN_CONTEXT = 15;
+
+const formatEvidence = (evidence: string[]): string => {
+    const shownEvidence = evidence.slice(0, MAX_EVIDENCE_IN_CONTEXT);
+    const moreCount = evidence.length - shownEvidence.length;
+    return `Evidence:\n${shownEvidence.join('\n')}${moreCount > 0 ? `\n...and ${moreCount} more` : ''}`;
+};
+
+const collateTasks = (sitewideAnalysis: SitewideAnalysis, seoAnalysis: SeoAnalysisResult, findings: AuditFinding[]): RawTask[] => {
     const tasks: RawTask[] = [];
 
-    // 1. Technical Health Action Items
+    // 0. Verified findings: measured by the app, so they don't depend on the model noticing them
+    findings.forEach(finding => {
+        tasks.push({
+            id: slugify(`verified-${finding.id}`),
+            title: finding.title,
+            type: 'technical',
+            priority: finding.priority,
+            context: `This is a verified technical issue measured by requesting the URLs directly (not an AI inference). ${finding.description} \n${formatEvidence(finding.evidence)}`,
+            evidence: finding.evidence,
+        });
+    });
+
+    // 1. Technical Health Action Items (rule items carry the pages they were measured on)
     sitewideAnalysis.technicalHealth.actionItems.forEach(item => {
+        if (item.ruleId && item.evidence) {
+            tasks.push({
+                id: slugify(`rule-${item.ruleId}`),
+                title: item.item,
+                type: 'technical',
+                priority: item.priority,
+                context: `This is a verified on-page issue found by a deterministic rule on the fetched page HTML (not an AI inference). \n${formatEvidence(item.evidence)}`,
+                evidence: item.evidence,
+            });
+            return;
+        }
         tasks.push({
             id: slugify(`technical-${item.item}`),
             title: item.item,
@@ -25,15 +60,17 @@ const collateTasks = (sitewideAnalysis: SitewideAnalysis, seoAnalysis: SeoAnalys
         });
     });
 
-    // 2. Page-Level Actions (Content Updates/Rewrites)
+    // 2. Page-Level Actions (Content Updates/Rewrites), with the page's measured metrics when it was fetched
     seoAnalysis.pageActions.forEach(action => {
         const title = action.rewriteDetails?.suggestedHeadline || `Optimize: ${action.url}`;
+        const metrics = action.contentMetrics ? ` \nMeasured content metrics:\n${describeContentMetrics(action.contentMetrics).join('\n')}` : '';
         tasks.push({
             id: slugify(action.url),
             title: title,
             type: 'content_update',
             priority: action.priority,
-            context: `This is a content update for the existing page: ${action.url}. \nReason: ${action.rewriteDetails?.reason}. \nEvidence: ${action.rewriteDetails?.evidence}. \nOptimization Tasks: ${action.optimizationTasks?.map(t => t.task).join(', ') || 'N/A'}`
+            context: `This is a content update for the existing page: ${action.url}. \nReason: ${action.rewriteDetails?.reason}. \nEvidence: ${action.rewriteDetails?.evidence}. \nOptimization Tasks: ${action.optimizationTasks?.map(t => t.task).join(', ') || 'N/A'}${metrics}`,
+            contentMetrics: action.contentMetrics,
         });
     });
 
@@ -101,10 +138,11 @@ export const createActionPlan = async (
     aiConfig: AiConfig,
     sitewideAnalysis: SitewideAnalysis,
     seoAnalysis: SeoAnalysisResult,
-    onLog: (message: string) => void
+    onLog: (message: string) => void,
+    findings: AuditFinding[] = []
 ): Promise<DailyActionPlan[]> => {
     onLog("Collating tasks and initializing parallel execution engine...");
-    const rawTasks = collateTasks(sitewideAnalysis, seoAnalysis);
+    const rawTasks = collateTasks(sitewideAnalysis, seoAnalysis, findings);
     
     // Enterprise Configuration
     const BATCH_SIZE = 5; 
@@ -136,6 +174,8 @@ export const createActionPlan = async (
                             id: task.id,
                             title: task.title,
                             type: task.type,
+                            evidence: task.evidence,
+                            contentMetrics: task.contentMetrics,
                             completed: false,
                         };
                     }
@@ -175,5 +215,7 @@ const createFallbackActionItem = (task: RawTask): ActionItem => ({
     verificationChecklist: [{ item: "Verify task was completed manually", checked: false }],
     successVerification: [],
     nextSteps: [],
+    evidence: task.evidence,
+    contentMetrics: task.contentMetrics,
     completed: false,
 });
@@ -4,7 +4,9 @@ import { GoogleGenAI } from "@google/genai";
 import OpenAI from 'openai';
 import Anthropic from '@anthropic-ai/sdk';
 import { getSystemInstruction, USER_PROMPT_TEMPLATE, getSitewideAuditSystemInstruction, SITEWIDE_AUDIT_USER_PROMPT_TEMPLATE, IMPLEMENTATION_GUIDE_SYSTEM_INSTRUCTION, IMPLEMENTATION_GUIDE_USER_PROMPT_TEMPLATE, COMPETITOR_DISCOVERY_SYSTEM_INSTRUCTION, EXECUTIVE_SUMMARY_SYSTEM_INSTRUCTION, EXECUTIVE_SUMMARY_USER_PROMPT_TEMPLATE, BATCH_IMPLEMENTATION_GUIDE_SYSTEM_INSTRUCTION, BATCH_IMPLEMENTATION_GUIDE_USER_PROMPT_TEMPLATE } from '../constants';
-import type { SeoAnalysisResult, GroundingSource, AnalysisType, SnippetOpportunity, SerpInsights, SitewideAnalysis, PagePerformance, AiConfig, ActionItem, ExecutiveSummary } from "../types";
+import type { SeoAnalysisResult, GroundingSource, AnalysisType, SnippetOpportunity, SerpInsights, SitewideAnalysis, PagePerformance, AiConfig, ActionItem, ExecutiveSummary, SitemapEntry, SectionCoverage, CompetitorInventory, PageSnapshot } from "../types";
+import { readabilityLabel } from '../utils/contentMetrics';
+import { assessRenderingRisk, describeRenderingRisk } from '../utils/renderingRisk';
 
 // --- AI HARDENING: RETRY LOGIC & ROBUST PARSING ---
 const withRetry = async <T>(fn: () => Promise<T>, retries = 3, delay = 2000): Promise<T> => {
@@ -102,7 +104,6 @@ const validateSitewideAnalysis = (data: any): data is SitewideAnalysis => (
     'technicalHealth' in data &&
     'contentGaps' in data &&
     'topicClusters' in data &&
-    'siteArchitectureGraph' in data &&
     'localBusinessAudit' in data &&
     'zeroToOneInitiatives' in data &&
     Array.isArray(data.contentGaps) &&
@@ -142,6 +143,111 @@ const validateExecutiveSummary = (data: any): data is ExecutiveSummary => {
 };
 
 
+// --- PROMPT FORMATTING ---
+/**
+ * Renders one sitemap entry per line, followed by the metadata the sitemap declared for it,
+ * so the model reasons from real freshness, media and hreflang data instead of guessing.
+ */
+const formatSitemapEntriesForPrompt = (entries: SitemapEntry[]): string => {
+    return entries.map(entry => {
+        const parts = [entry.loc];
+        if (entry.lastmod) parts.push(`lastmod: ${entry.lastmod.slice(0, 10)}`);
+        if (entry.changefreq) parts.push(`changefreq: ${entry.changefreq}`);
+        if (entry.priority !== undefined) parts.push(`priority: ${entry.priority}`);
+        if (entry.images?.length) parts.push(`images: ${entry.images.length}`);
+        if (entry.videos?.length) parts.push(`videos: ${entry.videos.length}`);
+        if (entry.news) parts.push(`news: ${entry.news.publicationDate?.slice(0, 10) || 'yes'}`);
+        if (entry.alternates?.length) parts.push(`hreflang: ${entry.alternates.map(a => a.hreflang).join(', ')}`);
+        return parts.join(' | ');
+    }).join('\n');
+};
+
+const MAX_INVENTORY_SECTIONS_IN_PROMPT = 60;
+
+const formatSiteInventoryForPrompt = (coverage: SectionCoverage[], sampleSize: number): string => {
+    if (coverage.length === 0) return `No inventory available; the ${sampleSize} URLs below are all that was crawled.`;
+    const totalUrls = coverage.reduce((sum, c) => sum + c.totalUrls, 0);
+    const lines = coverage.slice(0, MAX_INVENTORY_SECTIONS_IN_PROMPT).map(c => `${c.sitemap} | total: ${c.totalUrls} | sampled: ${c.sampledUrls}`);
+    if (coverage.length > MAX_INVENTORY_SECTIONS_IN_PROMPT) {
+        lines.push(`... and ${coverage.length - MAX_INVENTORY_SECTIONS_IN_PROMPT} smaller sections`);
+    }
+    return [`Total unique URLs: ${totalUrls} across ${coverage.length} sitemap sections. URLs provided below: ${sampleSize}.`, ...lines].join('\n');
+};
+
+const formatCompetitorInventoryForPrompt = (competitors: CompetitorInventory[]): string => {
+    if (competitors.length === 0) return 'No competitors were provided.';
+    return competitors.map(c => {
+        if (c.status === 'failed') {
+            return `<competitor host="${c.host}" sitemap="${c.sitemapUrl}">\nCould not be crawled (${c.error || 'unknown error'}). Do not invent pages for this competitor.\n</competitor>`;
+        }
+        const sections = c.sections.slice(0, 10).map(s => `${s.sitemap} | total: ${s.totalUrls}`).join('\n');
+        const topics = c.topics.map(t => `${t.segment} (${t.count})`).join(', ');
+        return [
+            `<competitor host="${c.host}" sitemap="${c.sitemapUrl}">`,
+            `Total unique URLs: ${c.totalUrlsFound}${c.status !== 'complete' ? ' (partial crawl)' : ''}${c.method === 'spider' ? ', found by following links' : ''}. Sample: ${c.sampledUrls}.`,
+            sections && `Sections:\n${sections}`,
+            topics && `URL sections in sample (count): ${topics}`,
+            `Top pages:\n${c.topUrls.join('\n')}`,
+            `</competitor>`,
+        ].filter(Boolean).join('\n');
+    }).join('\n');
+};
+
+const MAX_OUTLINE_HEADINGS = 12;
+const MAX_PROMPT_TEXT = 160;
+const MAX_SCHEMA_ERRORS_IN_PROMPT = 3;
+
+const truncateForPrompt = (value: string, max = MAX_PROMPT_TEXT): string => value.length > max ? `${value.slice(0, max - 1)}…` : value;
+
+// Existing schema with its validation result, so the model recommends fixing it rather than adding it again
+const formatStructuredDataForPrompt = (page: PageSnapshot): string => {
+    const items = page.structuredData.map(item => {
+        const issues = item.errors.length > 0
+            ? `${item.errors.length} error${item.errors.length === 1 ? '' : 's'}: ${item.errors.slice(0, MAX_SCHEMA_ERRORS_IN_PROMPT).join('; ')}`
+            : 'valid';
+        return `${item.types.join('/') || 'untyped'} (${item.format}, ${issues})`;
+    });
+    if (page.jsonLdErrors) items.push(`${page.jsonLdErrors} unparseable JSON-LD block${page.jsonLdErrors === 1 ? '' : 's'}`);
+    return items.join('; ') || 'none';
+};
+
+/**
+ * Renders what each fetched page actually contains, compactly, so recommendations about titles,
+ * headings, canonicals and schema start from the real page instead of a guess from the URL.
+ */
+const formatPageSnapshotsForPrompt = (snapshots: PageSnapshot[]): string => {
+    if (snapshots.length === 0) return 'No pages could be fetched; judge on-page factors from the URLs only and say so.';
+    return snapshots.map(page => {
+        if (page.error) {
+            return `<page url="${page.url}" status="${page.status || 'unreachable'}">Could not be fetched: ${page.error}</page>`;
+        }
+        const h1s = page.headings.filter(h => h.level === 1).map(h => truncateForPrompt(h.text));
+        const outline = page.headings.filter(h => h.level > 1).slice(0, MAX_OUTLINE_HEADINGS).map(h => `H${h.level} ${truncateForPrompt(h.text, 80)}`);
+        const canonical = !page.canonical ? 'missing' : page.canonical === page.finalUrl ? 'self' : page.canonical;
+        const renderingRisk = assessRenderingRisk(page);
+        const signals = [
+            renderingRisk && `rendering: JavaScript only (${describeRenderingRisk(renderingRisk)})`,
+            `words: ${page.wordCount}`,
+            `canonical: ${canonical}`,
+            page.robotsMeta && `robots: ${page.robotsMeta}`,
+            page.hreflang.length > 0 && `hreflang: ${page.hreflang.map(h => h.hreflang).join(', ')}`,
+            `og: ${Object.keys(page.openGraph).join(', ') || 'none'}`,
+            page.contentMetrics?.readability && `readability: ${readabilityLabel(page.contentMetrics.readability.formula)} ${page.contentMetrics.readability.score}, avg sentence ${page.contentMetrics.averageSentenceLength} words`,
+            page.contentMetrics?.primaryKeyword && `top phrase: "${page.contentMetrics.primaryKeyword.phrase}" x${page.contentMetrics.primaryKeyword.occurrences}${page.contentMetrics.primaryKeyword.inTitle ? '' : ' (not in title)'}`,
+            `schema: ${formatStructuredDataForPrompt(page)}`,
+        ].filter(Boolean).join(' | ');
+        return [
+            `<page url="${page.url}"${page.finalUrl !== page.url ? ` final_url="${page.finalUrl}"` : ''}>`,
+            `title (${page.title?.length ?? 0} chars): ${page.title ? truncateForPrompt(page.title) : 'missing'}`,
+            `description (${page.metaDescription?.length ?? 0} chars): ${page.metaDescription ? truncateForPrompt(page.metaDescription) : 'missing'}`,
+            `h1: ${h1s.length > 0 ? h1s.join(' / ') : 'missing'}`,
+            outline.length > 0 && `outline: ${outline.join('; ')}`,
+            signals,
+            `</page>`,
+        ].filter(Boolean).join('\n');
+    }).join('\n');
+};
+
 // --- UNIVERSAL AI CALL FUNCTION ---
 interface CallAiOptions {
     useGoogleSearch?: boolean;
@@ -251,12 +357,15 @@ export const discoverCompetitors = async (aiConfig: AiConfig, userUrl: string):
 };
 
 // --- REFACTORED SERVICE FUNCTIONS ---
-export const generateSitewideAudit = async (aiConfig: AiConfig, urls: string[], competitorUrls: string[], analysisType: AnalysisType, location?: string, onLog: (message: string) => void = () => {}): Promise<SitewideAnalysis> => {
+export const generateSitewideAudit = async (aiConfig: AiConfig, entries: SitemapEntry[], snapshots: PageSnapshot[], competitors: CompetitorInventory[], analysisType: AnalysisType, location?: string, onLog: (message: string) => void = () => {}, coverage: SectionCoverage[] = []): Promise<SitewideAnalysis> => {
     return withRetry(async () => {
        onLog('Analyzing competitor strengths...');
        const userPrompt = SITEWIDE_AUDIT_USER_PROMPT_TEMPLATE
-           .replace('${USER_URL_LIST}', urls.join('\n'))
-           .replace('${COMPETITOR_URL_LIST}', competitorUrls.join('\n'));
+           // Replacer functions, so "$" in URLs or page text isn't read as a replacement pattern
+           .replace('${SITE_INVENTORY}', () => formatSiteInventoryForPrompt(coverage, entries.length))
+           .replace('${USER_URL_LIST}', () => formatSitemapEntriesForPrompt(entries))
+           .replace('${PAGE_SNAPSHOTS}', () => formatPageSnapshotsForPrompt(snapshots))
+           .replace('${COMPETITOR_INVENTORY}', () => formatCompetitorInventoryForPrompt(competitors));
        const systemInstruction = getSitewideAuditSystemInstruction(aiConfig.provider, analysisType, location);
        
        onLog(`Sending request to ${aiConfig.provider} for Sitewide Audit...`);
@@ -265,15 +374,18 @@ export const generateSitewideAudit = async (aiConfig: AiConfig, urls: string[],
        onLog(`Received response from ${aiConfig.provider}. Validating structure...`);
        const result = robustJsonParse(text, validateSitewideAnalysis, 'SitewideAnalysis');
        onLog('Validated sitewide audit.');
-       return result;
+       // The architecture graph comes from crawled links (see utils/linkGraph.ts), not from the model
+       return { ...result, siteArchitectureGraph: { nodes: [], edges: [] } };
    });
 };
 
-export const generateSeoAnalysis = async (aiConfig: AiConfig, urls: string[], analysisType: AnalysisType, location: string | undefined, strategicGoals: string[], onLog: (message: string) => void = () => {}): Promise<{ analysis: SeoAnalysisResult, sources: GroundingSource[] }> => {
+export const generateSeoAnalysis = async (aiConfig: AiConfig, entries: SitemapEntry[], snapshots: PageSnapshot[], analysisType: AnalysisType, location: string | undefined, strategicGoals: string[], onLog: (message: string) => void = () => {}): Promise<{ analysis: SeoAnalysisResult, sources: GroundingSource[] }> => {
     return withRetry(async () => {
         onLog('Analyzing individual page strengths and weaknesses...');
         const userPrompt = USER_PROMPT_TEMPLATE
-            .replace('${URL_LIST}', urls.join('\n'));
+            // Replacer functions, so "$" in URLs or page text isn't read as a replacement pattern
+            .replace('${URL_LIST}', () => formatSitemapEntriesForPrompt(entries))
+            .replace('${PAGE_SNAPSHOTS}', () => formatPageSnapshotsForPrompt(snapshots));
         const systemInstruction = getSystemInstruction(aiConfig.provider, analysisType, location, strategicGoals);
         
         onLog(`Sending request to ${aiConfig.provider} with Google Search grounding...`);
@@ -294,9 +406,9 @@ export const generateImplementationGuide = async (
 ): Promise<Omit<ActionItem, 'id' | 'title' | 'type' | 'completed'>> => {
     return withRetry(async () => {
         const userPrompt = IMPLEMENTATION_GUIDE_USER_PROMPT_TEMPLATE
-            .replace('${taskType}', taskType)
-            .replace('${taskTitle}', taskTitle)
-            .replace('${taskContext}', taskContext);
+            .replace('${taskType}', () => taskType)
+            .replace('${taskTitle}', () => taskTitle)
+            .replace('${taskContext}', () => taskContext);
 
         const { text } = await callAi(
             aiConfig,
@@ -315,7 +427,7 @@ export const generateBatchImplementationGuides = async (
 ): Promise<Record<string, Omit<ActionItem, 'id' | 'title' | 'type' | 'completed'>>> => {
     return withRetry(async () => {
         const tasksJson = JSON.stringify(tasks.map(t => ({ id: t.id, title: t.title, type: t.type, context: t.context })), null, 2);
-        const userPrompt = BATCH_IMPLEMENTATION_GUIDE_USER_PROMPT_TEMPLATE.replace('${TASKS_JSON}', tasksJson);
+        const userPrompt = BATCH_IMPLEMENTATION_GUIDE_USER_PROMPT_TEMPLATE.replace('${TASKS_JSON}', () => tasksJson);
         
         const { text } = await callAi(
             aiConfig,
@@ -349,7 +461,7 @@ export const generateExecutiveSummary = async (
         };
 
         const userPrompt = EXECUTIVE_SUMMARY_USER_PROMPT_TEMPLATE
-            .replace('${analysisJson}', JSON.stringify(fullAnalysisData, null, 2));
+            .replace('${analysisJson}', () => JSON.stringify(fullAnalysisData, null, 2));
 
         const { text } = await callAi(
             aiConfig,
@@ -4,7 +4,8 @@
 // State-of-the-Art caching layer with content-aware hashing and TTL management
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import type { SitewideAnalysis, SeoAnalysisResult } from '../types';
+import type { SitewideAnalysis, SeoAnalysisResult, UrlNormalizationRules } from '../types';
+import { normalizeUrl } from '../utils/urlNormalization';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Configuration Constants
@@ -25,6 +26,15 @@ interface CachedAnalysis {
   seo: SeoAnalysisResult;
 }
 
+/**
+ * One part of an analysis cache key: a URL, plus what it stands for (e.g. a sitemap's URL count or what
+ * was seen on a page). The URL is normalized when the key is hashed, so every spelling of a page hits.
+ */
+export interface CacheKeyPart {
+  url: string;
+  detail?: string;
+}
+
 interface CacheMetadata {
   version: string;
   lastCleanup: number;
@@ -49,11 +59,16 @@ function simpleHash(str: string): string {
 }
 
 /**
- * Generate a content-aware hash from an array of URLs
- * Sorts URLs for consistent hashing regardless of input order
+ * Generate a content-aware hash from the key parts
+ * URLs are normalized with the crawler's rules, then deduped and sorted for consistent hashing
+ * regardless of spelling, input order or repeats.
  */
-function generateUrlsHash(urls: string[]): string {
-  const sortedUrls = [...urls].sort();
+function generateUrlsHash(parts: CacheKeyPart[], urlNormalization: UrlNormalizationRules): string {
+  const keys = parts.map(part => {
+    const url = normalizeUrl(part.url, urlNormalization);
+    return part.detail ? `${part.detail}@${url}` : url;
+  });
+  const sortedUrls = Array.from(new Set(keys)).sort();
   const urlString = sortedUrls.join('|');
   return simpleHash(urlString);
 }
@@ -227,13 +242,14 @@ class CacheService {
    */
   async getAnalysis(
     domainUrl: string,
-    urls: string[]
+    keyParts: CacheKeyPart[],
+    urlNormalization: UrlNormalizationRules
   ): Promise<{ sitewide: SitewideAnalysis; seo: SeoAnalysisResult } | null> {
     // Run cleanup in background
     setTimeout(() => cleanupExpiredEntries(), 0);
 
     const domain = extractDomain(domainUrl);
-    const urlsHash = generateUrlsHash(urls);
+    const urlsHash = generateUrlsHash(keyParts, urlNormalization);
     const cacheKey = generateCacheKey(domain, urlsHash);
 
     try {
@@ -270,13 +286,14 @@ class CacheService {
    */
   async setAnalysis(
     domainUrl: string,
-    urls: string[],
+    keyParts: CacheKeyPart[],
+    urlNormalization: UrlNormalizationRules,
     sitewideAnalysis: SitewideAnalysis,
     seoAnalysis: SeoAnalysisResult,
     ttl: number = DEFAULT_TTL_MS
   ): Promise<void> {
     const domain = extractDomain(domainUrl);
-    const urlsHash = generateUrlsHash(urls);
+    const urlsHash = generateUrlsHash(keyParts, urlNormalization);
     const cacheKey = generateCacheKey(domain, urlsHash);
 
     const cacheEntry: CachedAnalysis = {
@@ -322,9 +339,9 @@ class CacheService {
   /**
    * Clear a specific cached analysis
    */
-  clearAnalysis(domainUrl: string, urls: string[]): void {
+  clearAnalysis(domainUrl: string, keyParts: CacheKeyPart[], urlNormalization: UrlNormalizationRules): void {
     const domain = extractDomain(domainUrl);
-    const urlsHash = generateUrlsHash(urls);
+    const urlsHash = generateUrlsHash(keyParts, urlNormalization);
     const cacheKey = generateCacheKey(domain, urlsHash);
 
     try {
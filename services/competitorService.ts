@@ -0,0 +1,107 @@
+import type { CompetitorInventory, CrawlerSettings, SitemapEntry, UrlTopicCount } from "../types";
+import { crawlSitemap } from "./crawlingService";
+
+// Competitors get a lighter crawl than the user's site: enough to see what they publish, not an audit
+const COMPETITOR_CRAWL_CONCURRENCY = 2;
+const COMPETITOR_TIME_BUDGET_SECONDS = 60;
+const COMPETITOR_MAX_URLS = 300;
+const COMPETITOR_SPIDER_MAX_PAGES = 50;
+const TOP_URLS_PER_COMPETITOR = 40;
+const MAX_TOPICS_PER_COMPETITOR = 12;
+
+/**
+ * Groups URLs by their first path segment ("/blog/", "/products/"). Single-segment pages such as
+ * "/about" count as top-level ("/").
+ */
+export const summarizeUrlTopics = (entries: SitemapEntry[], limit = MAX_TOPICS_PER_COMPETITOR): UrlTopicCount[] => {
+    const counts = new Map<string, number>();
+    entries.forEach(entry => {
+        let segments: string[];
+        try {
+            segments = new URL(entry.loc).pathname.split('/').filter(Boolean);
+        } catch (e) {
+            return;
+        }
+        const segment = segments.length > 1 ? `/${segments[0]}/` : '/';
+        counts.set(segment, (counts.get(segment) || 0) + 1);
+    });
+    return Array.from(counts.entries())
+        .map(([segment, count]) => ({ segment, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, limit);
+};
+
+const crawlCompetitor = async (sitemapUrl: string, settings: CrawlerSettings, signal: AbortSignal): Promise<CompetitorInventory> => {
+    let host = sitemapUrl;
+    try {
+        const origin = new URL(sitemapUrl);
+        host = origin.host;
+        const result = await crawlSitemap(origin.origin, sitemapUrl, () => {}, {
+            ...settings,
+            timeBudgetSeconds: Math.min(settings.timeBudgetSeconds, COMPETITOR_TIME_BUDGET_SECONDS),
+            maxUrls: Math.min(settings.maxUrls, COMPETITOR_MAX_URLS),
+            samplingMode: 'stratified',
+            spiderMaxPages: Math.min(settings.spiderMaxPages, COMPETITOR_SPIDER_MAX_PAGES),
+            // Only the URL inventory is used; a competitor's link graph would be thrown away
+            mapInternalLinks: false,
+        }, signal);
+        // A cancelled crawl returns what it had; the analysis is being stopped, so don't report it as an inventory
+        if (signal.aborted) throw new Error('Competitor crawl was aborted.');
+
+        return {
+            sitemapUrl,
+            host,
+            status: result.entries.length > 0 ? result.status : 'failed',
+            method: result.method,
+            totalUrlsFound: result.totalUrlsFound,
+            sampledUrls: result.entries.length,
+            sections: result.coverage,
+            topics: summarizeUrlTopics(result.entries),
+            topUrls: result.entries.slice(0, TOP_URLS_PER_COMPETITOR).map(entry => entry.loc),
+            error: result.entries.length > 0 ? undefined : 'No URLs could be collected from this sitemap or by following links.',
+        };
+    } catch (e) {
+        if (signal.aborted) throw e;
+        return {
+            sitemapUrl,
+            host,
+            status: 'failed',
+            totalUrlsFound: 0,
+            sampledUrls: 0,
+            sections: [],
+            topics: [],
+            topUrls: [],
+            error: e instanceof Error ? e.message : String(e),
+        };
+    }
+};
+
+/**
+ * Runs each competitor sitemap through the same crawler and ranking as the user's site, with smaller
+ * budgets. A competitor that can't be crawled is returned with status "failed" rather than thrown; aborting
+ * the signal stops the remaining crawls and rejects.
+ */
+export const crawlCompetitors = async (
+    sitemapUrls: string[],
+    settings: CrawlerSettings,
+    signal: AbortSignal,
+    onLog: (message: string) => void
+): Promise<CompetitorInventory[]> => {
+    const inventories: CompetitorInventory[] = new Array(sitemapUrls.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+        while (nextIndex < sitemapUrls.length && !signal.aborted) {
+            const index = nextIndex++;
+            onLog(`Crawling competitor sitemap ${sitemapUrls[index]}...`);
+            const inventory = await crawlCompetitor(sitemapUrls[index], settings, signal);
+            onLog(inventory.status === 'failed'
+                ? `Could not crawl competitor ${inventory.host}: ${inventory.error}`
+                : `Collected ${inventory.sampledUrls} of ${inventory.totalUrlsFound} competitor URLs from ${inventory.host}`);
+            inventories[index] = inventory;
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(COMPETITOR_CRAWL_CONCURRENCY, sitemapUrls.length) }, worker));
+
+    return inventories;
+};
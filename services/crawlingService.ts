@@ -1,70 +1,259 @@
 
-import type { CrawlProgress } from "../types";
-
-// Enterprise-grade redundancy: multiple proxy providers
-const PROXY_PROVIDERS = [
-    (url: string) => `https://corsproxy.io/?${encodeURIComponent(url)}`,
-    (url: string) => `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`,
-    // Fallback strategy: specialized scraping proxy if available, otherwise standard
-    (url: string) => `https://thingproxy.freeboard.io/fetch/${encodeURIComponent(url)}`
+import type { CrawlProgress, SitemapSource, ProxySettings, CrawlerSettings, CrawlResult, SitemapDiagnostic } from "../types";
+import { fetchViaProxies, DEFAULT_PROXY_SETTINGS } from "./fetchProxyService";
+import { parseRobotsTxt } from "../utils/robotsTxt";
+import type { ParsedRobotsTxt } from "../utils/robotsTxt";
+import { spiderSite } from "./spiderService";
+import type { SpiderResult } from "./spiderService";
+import { createSitemapProcessor } from "./sitemapWorkerClient";
+import { rankUrls } from "../utils/seoScoring";
+import { DEFAULT_URL_NORMALIZATION, getMergedVariantGroups } from "../utils/urlNormalization";
+
+export const DEFAULT_CRAWLER_SETTINGS: CrawlerSettings = {
+    proxy: DEFAULT_PROXY_SETTINGS,
+    // A statistically significant sample is enough for the audit; crawling 100k+ page sites
+    // in full would crash the browser. Parsing runs in a worker, so the sample itself no longer freezes the UI.
+    timeBudgetSeconds: 120,
+    maxUrls: 1000,
+    samplingMode: 'stratified',
+    spiderMaxDepth: 3,
+    spiderMaxPages: 200,
+    // Off by default: mapping links fetches up to spiderMaxPages more pages on every sitemap crawl
+    mapInternalLinks: false,
+    urlNormalization: DEFAULT_URL_NORMALIZATION,
+};
+
+const fetchWithFailover = async (targetUrl: string, signal: AbortSignal, settings: ProxySettings): Promise<Response> => {
+    const { response } = await fetchViaProxies(targetUrl, signal, settings);
+    if (!response.ok) {
+        throw new Error(`Status: ${response.status}`);
+    }
+    return response;
+};
+
+// Locations probed when robots.txt doesn't declare every sitemap (WordPress core, Yoast/RankMath, generic CMSs)
+const SITEMAP_CANDIDATE_PATHS = [
+    '/sitemap.xml',
+    '/sitemap_index.xml',
+    '/sitemap-index.xml',
+    '/wp-sitemap.xml',
+    '/sitemap/sitemap.xml',
+    '/sitemaps.xml',
 ];
 
-const fetchWithFailover = async (targetUrl: string, signal: AbortSignal, attempt = 0): Promise<Response> => {
-    if (attempt >= PROXY_PROVIDERS.length) {
-        throw new Error(`Failed to fetch ${targetUrl} after trying all proxy providers.`);
+const looksLikeSitemap = (text: string): boolean => /<(urlset|sitemapindex)[\s>]/i.test(text);
+
+export interface SitemapDiscovery {
+    sources: SitemapSource[];
+    robots: ParsedRobotsTxt | null;   // null when robots.txt is missing or unreadable
+}
+
+/**
+ * Finds every sitemap a site exposes: the one supplied by the user, those declared in robots.txt,
+ * and whichever of the common candidate paths actually serve a sitemap.
+ */
+export const discoverSitemaps = async (siteUrl: string, userSitemapUrl: string | undefined, signal: AbortSignal, proxySettings: ProxySettings): Promise<SitemapDiscovery> => {
+    const origin = new URL(siteUrl).origin;
+    const sources: SitemapSource[] = [];
+    const addSource = (url: string, sourceOrigin: SitemapSource['origin']) => {
+        if (!sources.some(s => s.url === url)) {
+            sources.push({ url, origin: sourceOrigin });
+        }
+    };
+
+    if (userSitemapUrl) {
+        addSource(userSitemapUrl, 'user');
     }
 
-    const proxyUrl = PROXY_PROVIDERS[attempt](targetUrl);
-    
+    let robots: ParsedRobotsTxt | null = null;
     try {
-        const response = await fetch(proxyUrl, { signal });
-        if (!response.ok) {
-            // If 403/429/5xx, try next provider
-            if (response.status === 403 || response.status === 429 || response.status >= 500) {
-                console.warn(`Proxy ${attempt} failed with ${response.status}. Switching to backup...`);
-                return fetchWithFailover(targetUrl, signal, attempt + 1);
-            }
-            throw new Error(`Status: ${response.status}`);
-        }
-        return response;
+        const response = await fetchWithFailover(`${origin}/robots.txt`, signal, proxySettings);
+        robots = parseRobotsTxt(await response.text(), origin);
+        robots.sitemaps.forEach(url => addSource(url, 'robots.txt'));
     } catch (e) {
         if (signal.aborted) throw e;
-        console.warn(`Proxy connection error (Provider ${attempt}). Switching to backup...`, e);
-        return fetchWithFailover(targetUrl, signal, attempt + 1);
+        console.warn(`Could not read robots.txt for ${origin}:`, e);
     }
-}
+
+    const candidates = SITEMAP_CANDIDATE_PATHS
+        .map(path => `${origin}${path}`)
+        .filter(url => !sources.some(s => s.url === url));
+
+    const probes = await Promise.allSettled(candidates.map(async url => {
+        const response = await fetchWithFailover(url, signal, proxySettings);
+        return looksLikeSitemap(await response.text()) ? url : null;
+    }));
+    if (signal.aborted) throw new Error('Sitemap discovery was aborted.');
+
+    probes.forEach(result => {
+        if (result.status === 'fulfilled' && result.value) {
+            addSource(result.value, 'common-path');
+        }
+    });
+
+    return { sources, robots };
+};
 
 // Increased concurrency for enterprise-grade speed
 const CONCURRENCY_LIMIT = 12;
-// Safety limit to prevent browser crashes on massive enterprise sites (100k+ pages)
-// We only need a statistically significant sample for the audit.
-const MAX_URL_SAMPLE_SIZE = 600; 
 
 /**
- * Crawls a sitemap, handling nested sitemap indexes and reporting progress.
+ * Discovers a site's sitemaps, then crawls all of them, handling nested sitemap indexes and reporting progress.
  * Optimized for single-pass parallel processing with Heuristic Prioritization.
+ *
+ * The crawl stops early when `externalSignal` is aborted (status `cancelled`) or when the time or URL budget
+ * in `settings` runs out (status `truncated`). Either way the URLs collected so far are returned.
+ *
+ * When the sitemaps yield no URLs at all (or none exist), it falls back to following links from the
+ * homepage (see `spiderSite`) within the same time budget, and reports `method: 'spider'`.
+ * With `mapInternalLinks`, a sitemap crawl that finishes in time follows links from the homepage as well,
+ * only to record the link graph; the sitemap inventory is already final by then.
+ *
+ * In `stratified` sampling mode the URL budget doesn't stop the crawl: every child sitemap is inventoried
+ * into its own reservoir sample, and the final sample is drawn across sections in proportion to their size.
  */
-export const crawlSitemap = async (initialSitemapUrl: string, onProgress: (progress: CrawlProgress) => void): Promise<Set<string>> => {
-    const parser = new DOMParser();
-    const allPageUrls = new Set<string>();
-    
+export const crawlSitemap = async (
+    siteUrl: string,
+    userSitemapUrl: string | undefined,
+    onProgress: (progress: CrawlProgress) => void,
+    settings: CrawlerSettings,
+    externalSignal?: AbortSignal
+): Promise<CrawlResult> => {
+    const startedAt = Date.now();
+    const proxySettings = settings.proxy;
+    const maxUrls = Math.max(1, settings.maxUrls);
+    let pagesFound = 0;
+    let sampleFull = false;
+
     const controller = new AbortController();
     const signal = controller.signal;
-    const timeoutId = setTimeout(() => controller.abort(), 120000); // 2 minutes hard timeout
+    let truncationReason: CrawlResult['truncationReason'];
+    // Once the sitemaps are done, running out of time only cuts the link map short, not the inventory
+    let mappingLinks = false;
+
+    const timeoutId = setTimeout(() => {
+        if (!mappingLinks) truncationReason = 'time-budget';
+        controller.abort();
+    }, Math.max(1, settings.timeBudgetSeconds) * 1000);
+    const onExternalAbort = () => controller.abort();
+    if (externalSignal?.aborted) controller.abort();
+    externalSignal?.addEventListener('abort', onExternalAbort);
+
+    const sitemapsToProcess = new Set<string>();
+    let processedCount = 0;
+    let sitemapSources: SitemapSource[] = [];
+    let spiderResult: SpiderResult | null = null;
+    let linkMapResult: SpiderResult | null = null;
+    // One diagnostic per fetched sitemap, so a report can explain why a sitemap contributed nothing
+    const diagnostics: SitemapDiagnostic[] = [];
+    // Where each sitemap sits in the index tree, for the nested-index check
+    const sitemapParents = new Map<string, { depth: number; parent?: string }>();
+
+    // Parsing, deduplication, sampling and ranking run off the main thread; this function only fetches
+    const processor = createSitemapProcessor({
+        maxUrls,
+        samplingMode: settings.samplingMode,
+        urlNormalization: settings.urlNormalization,
+    }, progress => {
+        pagesFound = Math.max(pagesFound, progress.pagesFound);
+        onProgress({
+            type: 'crawling',
+            count: processedCount,
+            total: sitemapsToProcess.size,
+            currentSitemap: progress.sitemapUrl,
+            pagesFound,
+            lastUrlFound: progress.lastUrlFound,
+            totalUrls: 0,
+            sitemapSources,
+            diagnostics
+        });
+    });
+
+    const abortOutcome = (): SitemapDiagnostic['outcome'] =>
+        truncationReason === 'time-budget' && !externalSignal?.aborted ? 'timeout' : 'aborted';
+
+    const skippedReason = (): string =>
+        externalSignal?.aborted ? 'The crawl was stopped before this sitemap was fetched.'
+        : truncationReason === 'time-budget' ? 'The time budget ran out before this sitemap was fetched.'
+        : 'The URL budget was reached before this sitemap was fetched.';
+
+    const buildResult = async (): Promise<CrawlResult> => {
+        const inventory = await processor.finish();
+        let coverage = inventory.coverage;
+        let entries = inventory.entries;
+
+        if (spiderResult) {
+            // Spidered pages form a single section; the page budget already bounds the sample
+            entries = rankUrls(spiderResult.entries.slice(0, maxUrls), settings.urlNormalization);
+            coverage = [{ sitemap: new URL('/', siteUrl).toString(), totalUrls: spiderResult.entries.length, sampledUrls: entries.length }];
+        }
+
+        const linkSource = spiderResult || linkMapResult;
+        const fetched = new Set(diagnostics.map(d => d.url));
+        const skipped: SitemapDiagnostic[] = Array.from(sitemapsToProcess)
+            .filter(url => !fetched.has(url))
+            .map(url => ({ url, outcome: 'skipped', urlCount: 0, durationMs: 0, error: skippedReason() }));
+
+        return {
+            siteUrl,
+            startedAt: new Date(startedAt).toISOString(),
+            method: spiderResult ? 'spider' : 'sitemap',
+            spider: spiderResult?.summary,
+            linkMap: linkMapResult?.summary,
+            linkGraph: linkSource?.linkGraph,
+            // Pages at the depth limit may link to pages that were never visited
+            linkGraphComplete: linkSource
+                ? !linkSource.budgetExhausted && !signal.aborted && linkSource.summary.maxDepthReached < settings.spiderMaxDepth
+                : undefined,
+            sitemapFindings: inventory.sitemapFindings,
+            entries,
+            status: externalSignal?.aborted ? 'cancelled' : truncationReason ? 'truncated' : 'complete',
+            truncationReason: externalSignal?.aborted ? undefined : truncationReason,
+            sitemapsProcessed: processedCount,
+            sitemapsDiscovered: sitemapsToProcess.size,
+            durationMs: Date.now() - startedAt,
+            samplingMode: settings.samplingMode,
+            totalUrlsFound: spiderResult ? spiderResult.entries.length : inventory.totalUrlsFound,
+            urlVariantsMerged: spiderResult ? spiderResult.variants.mergedCount : inventory.urlVariantsMerged,
+            mergedVariants: spiderResult ? getMergedVariantGroups(spiderResult.variants) : inventory.mergedVariants,
+            coverage,
+            sources: sitemapSources,
+            sitemaps: [...diagnostics, ...skipped],
+        };
+    };
 
     try {
-        const sitemapsToProcess = new Set<string>([initialSitemapUrl]);
+        onProgress({ type: 'preflight', count: 0, total: 0, currentSitemap: `${new URL(siteUrl).origin}/robots.txt` });
+        let robots: ParsedRobotsTxt | null;
+        try {
+            ({ sources: sitemapSources, robots } = await discoverSitemaps(siteUrl, userSitemapUrl, signal, proxySettings));
+        } catch (e) {
+            if (signal.aborted) return await buildResult();
+            throw e;
+        }
+        const seedUrls = sitemapSources.map(s => s.url);
+        onProgress({ type: 'preflight', count: 0, total: seedUrls.length, sitemapSources });
+        if (seedUrls.length === 0) {
+            console.warn(`No sitemaps could be discovered for ${siteUrl}. Falling back to following links.`);
+        }
+
+        seedUrls.forEach(url => {
+            sitemapsToProcess.add(url);
+            sitemapParents.set(url, { depth: 0 });
+        });
         const processedSitemaps = new Set<string>();
-        const processingQueue: string[] = [initialSitemapUrl];
+        const processingQueue: string[] = [...seedUrls];
         
-        let processedCount = 0;
         let activeWorkers = 0;
         
-        await new Promise<void>((resolve, reject) => {
+        await new Promise<void>((resolve) => {
             const processNext = async () => {
-                // Heuristic Check: Stop if we have enough data for a robust audit
-                if (allPageUrls.size >= MAX_URL_SAMPLE_SIZE) {
-                    // Drain queue
+                // Stop dispatching once cancelled, out of time, or we have enough data for a robust audit.
+                // In-flight requests are aborted (or finish) and the promise resolves when the last one settles.
+                if (signal.aborted || sampleFull) {
+                    if (!signal.aborted && processingQueue.length > 0 && !truncationReason) {
+                        truncationReason = 'url-budget';
+                    }
                     if (activeWorkers === 0) resolve();
                     return;
                 }
@@ -91,23 +280,52 @@ export const crawlSitemap = async (initialSitemapUrl: string, onProgress: (progr
                      processNext();
                 }
 
+                const fetchStartedAt = Date.now();
+                const diagnostic: SitemapDiagnostic = { url: sitemapUrl, outcome: 'ok', urlCount: 0, durationMs: 0 };
+                let stage: 'fetch' | 'read' | 'parse' = 'fetch';
+
                 try {
-                    const response = await fetchWithFailover(sitemapUrl, signal);
-                    const text = await response.text();
+                    const { response, providerId } = await fetchViaProxies(sitemapUrl, signal, proxySettings);
+                    diagnostic.httpStatus = response.status;
+                    diagnostic.providerId = providerId;
+                    if (!response.ok) {
+                        diagnostic.outcome = 'http-error';
+                        diagnostic.error = `HTTP ${response.status}`;
+                        return;
+                    }
+
+                    stage = 'read';
+                    const body = await response.arrayBuffer();
+                    diagnostic.bytes = body.byteLength;
                     
-                    if (signal.aborted) return;
+                    if (signal.aborted) {
+                        diagnostic.outcome = abortOutcome();
+                        return;
+                    }
 
-                    const xmlDoc = parser.parseFromString(text, "text/xml");
-                    if (xmlDoc.getElementsByTagName("parsererror").length > 0) {
-                        throw new Error("XML Parse Error");
+                    stage = 'parse';
+                    const position = sitemapParents.get(sitemapUrl) || { depth: 0 };
+                    const outcome = await processor.processFile({ url: sitemapUrl, body, depth: position.depth, parentSitemap: position.parent });
+                    if (outcome.status === 'failed') {
+                        diagnostic.outcome = 'parse-error';
+                        diagnostic.error = outcome.stage === 'read' ? `Could not read body: ${outcome.error}` : outcome.error;
+                        return;
+                    }
+                    const parsed = outcome.result;
+                    diagnostic.format = parsed.format;
+                    diagnostic.urlCount = parsed.urlCount;
+                    if (parsed.format === 'sitemapindex') diagnostic.childSitemapCount = parsed.childSitemaps.length;
+                    if (parsed.urlCount === 0 && parsed.childSitemaps.length === 0) diagnostic.outcome = 'empty';
+                    pagesFound = Math.max(pagesFound, parsed.pagesFound);
+                    if (parsed.sampleFull) {
+                        sampleFull = true;
+                        // URLs beyond the budget were dropped from this file
+                        if (parsed.pagesFound > maxUrls) truncationReason = truncationReason || 'url-budget';
                     }
 
                     // Check for nested sitemaps
-                    const sitemapIndexNodes = xmlDoc.querySelectorAll("sitemap > loc");
-                    if (sitemapIndexNodes.length > 0) {
-                        const nestedUrls = Array.from(sitemapIndexNodes)
-                            .map(node => node.textContent?.trim())
-                            .filter(Boolean) as string[];
+                    if (parsed.format === 'sitemapindex') {
+                        const nestedUrls = [...parsed.childSitemaps];
                         
                         // Smart Sorting: Prioritize "post", "page", "product" sitemaps.
                         // Deprioritize "tag", "author", "date" archives.
@@ -124,6 +342,7 @@ export const crawlSitemap = async (initialSitemapUrl: string, onProgress: (progr
                         nestedUrls.forEach(url => {
                             if (!processedSitemaps.has(url) && !sitemapsToProcess.has(url)) {
                                 sitemapsToProcess.add(url);
+                                sitemapParents.set(url, { depth: position.depth + 1, parent: sitemapUrl });
                                 // High priority goes to front of queue, low to back
                                 const isHighValue = /post|page|product/i.test(url);
                                 if (isHighValue) {
@@ -133,36 +352,33 @@ export const crawlSitemap = async (initialSitemapUrl: string, onProgress: (progr
                                 }
                             }
                         });
-                    } else {
-                        // Extract URLs
-                        const urlNodes = xmlDoc.querySelectorAll("url > loc");
-                        const newUrls = Array.from(urlNodes)
-                            .map(node => node.textContent?.trim())
-                            .filter(Boolean) as string[];
-                        
-                        let newCount = 0;
-                        newUrls.forEach(url => {
-                            if (!allPageUrls.has(url)) {
-                                allPageUrls.add(url);
-                                newCount++;
-                            }
+                    } else if (parsed.newUrls > 0) {
+                        onProgress({
+                            type: 'crawling',
+                            count: processedCount + 1,
+                            total: sitemapsToProcess.size,
+                            currentSitemap: sitemapUrl,
+                            pagesFound,
+                            lastUrlFound: parsed.lastUrlFound,
+                            totalUrls: 0,
+                            sitemapSources,
+                            diagnostics
                         });
-                        
-                        if (newCount > 0) {
-                             onProgress({
-                                type: 'crawling',
-                                count: processedCount + 1,
-                                total: sitemapsToProcess.size,
-                                currentSitemap: sitemapUrl,
-                                pagesFound: allPageUrls.size,
-                                lastUrlFound: newUrls[newUrls.length - 1],
-                                totalUrls: 0
-                            });
-                        }
                     }
                 } catch (e) {
-                    console.warn(`Error processing ${sitemapUrl}:`, e);
+                    const message = e instanceof Error ? e.message : String(e);
+                    if (signal.aborted) {
+                        diagnostic.outcome = abortOutcome();
+                    } else if (stage === 'fetch') {
+                        diagnostic.outcome = 'proxy-failure';
+                        diagnostic.error = message;
+                    } else {
+                        diagnostic.outcome = 'parse-error';
+                        diagnostic.error = stage === 'read' ? `Could not read body: ${message}` : message;
+                    }
                 } finally {
+                    diagnostic.durationMs = Date.now() - fetchStartedAt;
+                    diagnostics.push(diagnostic);
                     processedCount++;
                     activeWorkers--;
                     onProgress({
@@ -170,21 +386,37 @@ export const crawlSitemap = async (initialSitemapUrl: string, onProgress: (progr
                         count: processedCount,
                         total: sitemapsToProcess.size,
                         currentSitemap: sitemapUrl,
-                        pagesFound: allPageUrls.size
+                        pagesFound,
+                        sitemapSources,
+                        diagnostics
                     });
                     processNext();
                 }
             };
 
+            if (processingQueue.length === 0) {
+                resolve();
+                return;
+            }
             const initialWorkers = Math.min(CONCURRENCY_LIMIT, processingQueue.length);
             for (let i = 0; i < initialWorkers; i++) {
                 processNext();
             }
         });
 
+        if (pagesFound === 0 && !signal.aborted) {
+            spiderResult = await spiderSite(siteUrl, robots, settings, signal, onProgress);
+            if (spiderResult.budgetExhausted) truncationReason = truncationReason || 'url-budget';
+        } else if (pagesFound > 0 && settings.mapInternalLinks && !signal.aborted) {
+            // Sitemaps say which pages exist, not how they link to each other; follow links for the graph only
+            mappingLinks = true;
+            linkMapResult = await spiderSite(siteUrl, robots, settings, signal, progress => onProgress({ ...progress, type: 'linking' }));
+        }
+
+        return await buildResult();
     } finally {
         clearTimeout(timeoutId);
+        externalSignal?.removeEventListener('abort', onExternalAbort);
+        processor.dispose();
     }
-    
-    return allPageUrls;
 }
@@ -0,0 +1,216 @@
+import type { ProxySettings, ProxyProviderId, ProxyHealth } from "../types";
+
+export const DEFAULT_LOCAL_PROXY_URL = 'http://localhost:8787';
+
+export const DEFAULT_PROXY_SETTINGS: ProxySettings = {
+    allowDirect: true,
+    useLocalProxy: false,
+    localProxyUrl: DEFAULT_LOCAL_PROXY_URL,
+    customTemplate: '',
+    allowPublicProxies: true,
+};
+
+const PROXY_AFFINITY_STORAGE_KEY = 'seo-analyzer-proxy-affinity-v1';
+const HEALTH_CHECK_TARGET = 'https://www.google.com/robots.txt';
+const HEALTH_CHECK_TIMEOUT_MS = 8000;
+
+interface ProxyProvider {
+    id: ProxyProviderId;
+    label: string;
+    buildUrl: (url: string) => string;
+}
+
+const PUBLIC_PROXY_PROVIDERS: ProxyProvider[] = [
+    { id: 'corsproxy', label: 'corsproxy.io', buildUrl: url => `https://corsproxy.io/?${encodeURIComponent(url)}` },
+    { id: 'allorigins', label: 'allorigins.win', buildUrl: url => `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}` },
+    { id: 'thingproxy', label: 'thingproxy', buildUrl: url => `https://thingproxy.freeboard.io/fetch/${encodeURIComponent(url)}` },
+];
+
+/**
+ * Validates a user proxy template. The target URL is substituted for `{url}` (URL-encoded),
+ * or for `{rawUrl}` when the proxy expects it verbatim, e.g. "https://proxy.example.com/fetch/{rawUrl}".
+ */
+export const isValidProxyTemplate = (template: string): boolean => {
+    if (!/\{(raw)?url\}/i.test(template)) return false;
+    try {
+        const sample = new URL(template.replace(/\{(raw)?url\}/gi, 'x'));
+        return sample.protocol === 'http:' || sample.protocol === 'https:';
+    } catch (e) {
+        return false;
+    }
+};
+
+const applyTemplate = (template: string, url: string): string =>
+    template.replace(/\{rawUrl\}/gi, url).replace(/\{url\}/gi, encodeURIComponent(url));
+
+/**
+ * The providers enabled by the settings, in the default order: no proxy first, then the ones we
+ * control (local, custom), then third-party proxies as a last resort.
+ */
+export const getEnabledProviders = (settings: ProxySettings): ProxyProvider[] => {
+    const providers: ProxyProvider[] = [];
+    if (settings.allowDirect) {
+        providers.push({ id: 'direct', label: 'Direct (no proxy)', buildUrl: url => url });
+    }
+    if (settings.useLocalProxy && settings.localProxyUrl.trim()) {
+        const base = settings.localProxyUrl.trim().replace(/\/+$/, '');
+        providers.push({ id: 'local', label: `Local proxy (${base})`, buildUrl: url => `${base}/?url=${encodeURIComponent(url)}` });
+    }
+    if (isValidProxyTemplate(settings.customTemplate.trim())) {
+        const template = settings.customTemplate.trim();
+        providers.push({ id: 'custom', label: 'Custom proxy', buildUrl: url => applyTemplate(template, url) });
+    }
+    if (settings.allowPublicProxies) {
+        providers.push(...PUBLIC_PROXY_PROVIDERS);
+    }
+    return providers;
+};
+
+// --- Per-host affinity: the provider that last worked for a host is tried first next time ---
+
+const loadAffinity = (): Record<string, ProxyProviderId> => {
+    try {
+        const stored = localStorage.getItem(PROXY_AFFINITY_STORAGE_KEY);
+        return stored ? JSON.parse(stored) : {};
+    } catch (e) {
+        return {};
+    }
+};
+
+let proxyAffinity: Record<string, ProxyProviderId> | null = null;
+
+const getAffinity = (): Record<string, ProxyProviderId> => {
+    if (!proxyAffinity) proxyAffinity = loadAffinity();
+    return proxyAffinity;
+};
+
+const rememberProviderForHost = (host: string, providerId: ProxyProviderId) => {
+    const affinity = getAffinity();
+    if (affinity[host] === providerId) return;
+    affinity[host] = providerId;
+    try {
+        localStorage.setItem(PROXY_AFFINITY_STORAGE_KEY, JSON.stringify(affinity));
+    } catch (e) {
+        console.warn("Could not persist proxy affinity:", e);
+    }
+};
+
+export const getRememberedProviders = (): Record<string, ProxyProviderId> => ({ ...getAffinity() });
+
+export const clearRememberedProviders = () => {
+    proxyAffinity = {};
+    localStorage.removeItem(PROXY_AFFINITY_STORAGE_KEY);
+};
+
+const getHost = (url: string): string => {
+    try {
+        return new URL(url).host;
+    } catch (e) {
+        return '';
+    }
+};
+
+// Statuses that come from the target site itself; another proxy would get the same answer.
+const isDefinitiveStatus = (status: number) => status === 404 || status === 410;
+
+// A direct fetch and our local proxy pass the site's own status through; public and custom proxies
+// also answer with errors of their own (blocks, rate limits, upstream timeouts)
+const reportsSiteStatus = (providerId: ProxyProviderId) => providerId === 'direct' || providerId === 'local';
+
+export interface ProxiedResponse {
+    response: Response;
+    providerId: ProxyProviderId;
+}
+
+export interface ProxyFetchOptions {
+    method?: 'GET' | 'HEAD';
+    // Status checks need the site's answer even when it's an error: after every provider failed,
+    // return the last error response the site itself gave (directly or through the local proxy) instead of throwing
+    returnLastResponse?: boolean;
+}
+
+/**
+ * Fetches a URL through the configured providers, failing over to the next one on network/CORS
+ * errors, blocks (403/429) and server errors. The provider that succeeds is remembered for the host.
+ * A 404/410 comes from the site itself, so it is returned as-is (check `response.ok`) instead of
+ * being retried through every other provider. A HEAD request asks only for the headers; a provider that
+ * doesn't support it fails over like any other error. With `returnLastResponse`, a 401/403/429/5xx that
+ * the direct fetch or the local proxy got is returned instead of thrown; errors from the other proxies
+ * may be their own, so they still end in a throw.
+ */
+export const fetchViaProxies = async (targetUrl: string, signal: AbortSignal, settings: ProxySettings, options: ProxyFetchOptions = {}): Promise<ProxiedResponse> => {
+    const { method = 'GET', returnLastResponse = false } = options;
+    const host = getHost(targetUrl);
+    const remembered = getAffinity()[host];
+    const providers = getEnabledProviders(settings).sort((a, b) => (b.id === remembered ? 1 : 0) - (a.id === remembered ? 1 : 0));
+
+    if (providers.length === 0) {
+        throw new Error('No fetch provider is enabled. Enable direct fetching or configure a proxy in Crawler Settings.');
+    }
+
+    let lastError = '';
+    let lastResponse: ProxiedResponse | undefined;
+    for (const provider of providers) {
+        let response: Response;
+        try {
+            response = await fetch(provider.buildUrl(targetUrl), { signal, method });
+        } catch (e) {
+            if (signal.aborted) throw e;
+            lastError = `${provider.label}: ${e instanceof Error ? e.message : String(e)}`;
+            console.warn(`Fetch via ${provider.label} failed for ${targetUrl}. Switching to next provider...`, e);
+            continue;
+        }
+
+        if (response.ok) {
+            rememberProviderForHost(host, provider.id);
+            return { response, providerId: provider.id };
+        }
+        if (isDefinitiveStatus(response.status)) {
+            return { response, providerId: provider.id };
+        }
+        lastError = `${provider.label} responded with ${response.status}`;
+        console.warn(`${lastError} for ${targetUrl}. Switching to next provider...`);
+        if (returnLastResponse && reportsSiteStatus(provider.id)) {
+            lastResponse?.response.body?.cancel().catch(() => {});
+            lastResponse = { response, providerId: provider.id };
+        }
+    }
+
+    if (lastResponse) return lastResponse;
+    throw new Error(`Failed to fetch ${targetUrl} after trying all providers (last error: ${lastError}).`);
+};
+
+/**
+ * Probes every enabled provider with a small request to a host that sends no CORS headers, so the
+ * settings screen can show which ones are reachable. "Direct" is expected to fail this probe; it only
+ * works for sites that allow cross-origin reads.
+ */
+export const checkProxyHealth = async (settings: ProxySettings, testUrl = HEALTH_CHECK_TARGET): Promise<ProxyHealth[]> => {
+    return Promise.all(getEnabledProviders(settings).map(async (provider): Promise<ProxyHealth> => {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), HEALTH_CHECK_TIMEOUT_MS);
+        const startedAt = performance.now();
+        try {
+            const response = await fetch(provider.buildUrl(testUrl), { signal: controller.signal });
+            return {
+                providerId: provider.id,
+                label: provider.label,
+                ok: response.ok,
+                status: response.status,
+                latencyMs: Math.round(performance.now() - startedAt),
+                error: response.ok ? undefined : `HTTP ${response.status}`,
+                checkedAt: Date.now(),
+            };
+        } catch (e) {
+            return {
+                providerId: provider.id,
+                label: provider.label,
+                ok: false,
+                error: controller.signal.aborted ? 'Timed out' : (e instanceof Error ? e.message : String(e)),
+                checkedAt: Date.now(),
+            };
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    }));
+};
@@ -1,3 +1,4 @@
+import type { GscClickTrend } from '../types';
 
 export interface GscSite {
     siteUrl: string;
@@ -86,3 +87,67 @@ export const fetchGscPerformanceForUrl = async (
 
     return null; // No data found for this specific URL
 };
+
+const CLICK_TREND_DAYS = 90;
+const CLICK_TREND_ROW_LIMIT = 5000;
+// Search Console data arrives 2-3 days late, so windows ending today undercount the last days
+const CLICK_TREND_DATA_DELAY_DAYS = 3;
+
+interface PageClicks {
+    clicks: Map<string, number>;
+    // The row limit was hit, so a page missing from the result may still have had clicks
+    truncated: boolean;
+}
+
+const queryClicksByPage = async (siteUrl: string, accessToken: string, startDate: Date, endDate: Date): Promise<PageClicks> => {
+    const formatDate = (date: Date) => date.toISOString().split('T')[0];
+    const response = await fetch(`${GSC_API_BASE}/sites/${encodeURIComponent(siteUrl)}/searchAnalytics/query`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+            startDate: formatDate(startDate),
+            endDate: formatDate(endDate),
+            dimensions: ['page'],
+            rowLimit: CLICK_TREND_ROW_LIMIT,
+        }),
+    });
+
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: { message: 'Unknown error' }}));
+        throw new Error(`Failed to fetch GSC clicks: ${error.error?.message || response.statusText}`);
+    }
+
+    const data = await response.json();
+    const rows: { keys: string[]; clicks: number }[] = data.rows || [];
+    return {
+        clicks: new Map(rows.map(row => [row.keys[0], row.clicks])),
+        truncated: rows.length >= CLICK_TREND_ROW_LIMIT,
+    };
+};
+
+/**
+ * Fetches clicks per page for the last 90 days of available data and the 90 days before, for the site's
+ * most clicked pages. Keyed by the page URL as GSC reports it. A page missing from a window counts as
+ * 0 clicks only when that window returned every page; past the row limit it is left out as unknown.
+ */
+export const fetchGscClickTrends = async (siteUrl: string, accessToken: string): Promise<Map<string, GscClickTrend>> => {
+    const day = 24 * 60 * 60 * 1000;
+    const end = Date.now() - CLICK_TREND_DATA_DELAY_DAYS * day;
+    const [recent, previous] = await Promise.all([
+        queryClicksByPage(siteUrl, accessToken, new Date(end - (CLICK_TREND_DAYS - 1) * day), new Date(end)),
+        queryClicksByPage(siteUrl, accessToken, new Date(end - (2 * CLICK_TREND_DAYS - 1) * day), new Date(end - CLICK_TREND_DAYS * day)),
+    ]);
+
+    const clicksIn = (window: PageClicks, page: string) => window.clicks.get(page) ?? (window.truncated ? undefined : 0);
+    const trends = new Map<string, GscClickTrend>();
+    new Set([...recent.clicks.keys(), ...previous.clicks.keys()]).forEach(page => {
+        const recentClicks = clicksIn(recent, page);
+        const previousClicks = clicksIn(previous, page);
+        if (recentClicks === undefined || previousClicks === undefined) return;
+        trends.set(page, { recentClicks, previousClicks });
+    });
+    return trends;
+};
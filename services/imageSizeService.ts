@@ -0,0 +1,65 @@
+import type { PageSnapshot, ProxySettings } from "../types";
+import { fetchViaProxies } from "./fetchProxyService";
+
+const IMAGE_CHECK_CONCURRENCY = 6;
+const IMAGE_CHECK_TIMEOUT_MS = 10000;
+// Images repeat across pages and top pages come first, so this covers what matters on most sites
+const MAX_IMAGES_CHECKED = 150;
+
+interface ImageHeaders {
+    bytes?: number;
+    contentType?: string;
+}
+
+/**
+ * Sends a HEAD request for one image. Anything that isn't an image response (a proxy's error page,
+ * a login redirect) is ignored, as is a missing Content-Length; failures leave the size unknown.
+ */
+const headImage = async (url: string, signal: AbortSignal, proxySettings: ProxySettings): Promise<ImageHeaders> => {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal.addEventListener('abort', onAbort);
+    const timeoutId = setTimeout(() => controller.abort(), IMAGE_CHECK_TIMEOUT_MS);
+    try {
+        const { response } = await fetchViaProxies(url, controller.signal, proxySettings, { method: 'HEAD' });
+        const contentType = response.headers.get('content-type') || '';
+        if (!response.ok || !contentType.toLowerCase().startsWith('image/')) return {};
+        const length = Number(response.headers.get('content-length'));
+        return { bytes: length > 0 ? length : undefined, contentType };
+    } catch (e) {
+        return {};
+    } finally {
+        clearTimeout(timeoutId);
+        signal.removeEventListener('abort', onAbort);
+    }
+};
+
+/**
+ * Measures the file size of the images on the fetched pages with HEAD requests, once per distinct URL,
+ * and returns the snapshots with `bytes` and `contentType` filled in where they could be read.
+ */
+export const measureImageSizes = async (
+    snapshots: PageSnapshot[],
+    proxySettings: ProxySettings,
+    signal: AbortSignal,
+    onProgress: (checked: number, total: number) => void
+): Promise<PageSnapshot[]> => {
+    const urls = Array.from(new Set(snapshots.flatMap(page => page.images.map(image => image.src)))).slice(0, MAX_IMAGES_CHECKED);
+    const measured = new Map<string, ImageHeaders>();
+    let nextIndex = 0;
+    let checked = 0;
+
+    const worker = async () => {
+        while (nextIndex < urls.length && !signal.aborted) {
+            const url = urls[nextIndex++];
+            measured.set(url, await headImage(url, signal, proxySettings));
+            onProgress(++checked, urls.length);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(IMAGE_CHECK_CONCURRENCY, urls.length) }, worker));
+
+    return snapshots.map(page => ({
+        ...page,
+        images: page.images.map(image => ({ ...image, ...measured.get(image.src) })),
+    }));
+};
@@ -0,0 +1,132 @@
+import type { PageSnapshot, ProxySettings } from "../types";
+import { fetchViaProxies } from "./fetchProxyService";
+import { extractPageContent } from "../utils/pageExtractor";
+
+const SNAPSHOT_CONCURRENCY = 4;
+const SNAPSHOT_TIMEOUT_MS = 20000;
+// Enough for the head and the main content of any real page; the rest is usually inline scripts
+const MAX_HTML_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Reads at most `maxBytes` of a response body, cancelling the download once the cap is reached.
+ */
+const readCappedText = async (response: Response, maxBytes: number): Promise<{ text: string; bytes: number }> => {
+    if (!response.body) {
+        const text = await response.text();
+        return { text: text.slice(0, maxBytes), bytes: text.length };
+    }
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let bytes = 0;
+    while (bytes < maxBytes) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        bytes += value.length;
+    }
+    if (bytes >= maxBytes) {
+        try {
+            await reader.cancel();
+        } catch (e) {
+            // Already closed
+        }
+    }
+    const merged = new Uint8Array(Math.min(bytes, maxBytes));
+    let offset = 0;
+    for (const chunk of chunks) {
+        const part = chunk.subarray(0, merged.length - offset);
+        merged.set(part, offset);
+        offset += part.length;
+        if (offset >= merged.length) break;
+    }
+    return { text: new TextDecoder().decode(merged), bytes };
+};
+
+const emptySnapshot = (url: string, status: number, error: string): PageSnapshot => ({
+    url,
+    finalUrl: url,
+    status,
+    fetchedAt: new Date().toISOString(),
+    htmlBytes: 0,
+    headings: [],
+    wordCount: 0,
+    hreflang: [],
+    openGraph: {},
+    jsonLd: [],
+    jsonLdTypes: [],
+    jsonLdErrors: 0,
+    structuredData: [],
+    contentSketch: [],
+    images: [],
+    links: [],
+    frameworkMarkers: [],
+    contentDates: [],
+    error,
+});
+
+/**
+ * Fetches one page and extracts its on-page facts. Failures are recorded in `error` rather than thrown.
+ */
+export const fetchPageSnapshot = async (url: string, signal: AbortSignal, proxySettings: ProxySettings, parser: DOMParser): Promise<PageSnapshot> => {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal.addEventListener('abort', onAbort);
+    const timeoutId = setTimeout(() => controller.abort(), SNAPSHOT_TIMEOUT_MS);
+
+    try {
+        const { response, providerId } = await fetchViaProxies(url, controller.signal, proxySettings);
+        const contentType = response.headers.get('content-type');
+        if (!response.ok) {
+            await response.body?.cancel().catch(() => {});
+            return emptySnapshot(url, response.status, `HTTP ${response.status}`);
+        }
+        if (contentType && !/html/i.test(contentType)) {
+            await response.body?.cancel().catch(() => {});
+            return emptySnapshot(url, response.status, `Not an HTML page (${contentType.split(';')[0]})`);
+        }
+
+        const { text, bytes } = await readCappedText(response, MAX_HTML_BYTES);
+        // Only the local proxy and a direct fetch can tell where redirects ended up
+        const finalUrl = response.headers.get('x-final-url') || (providerId === 'direct' && response.redirected ? response.url : url);
+        return {
+            url,
+            finalUrl,
+            status: response.status,
+            fetchedAt: new Date().toISOString(),
+            htmlBytes: bytes,
+            ...extractPageContent(text, finalUrl, parser),
+        };
+    } catch (e) {
+        return emptySnapshot(url, 0, controller.signal.aborted && !signal.aborted ? 'Timed out' : (e instanceof Error ? e.message : String(e)));
+    } finally {
+        clearTimeout(timeoutId);
+        signal.removeEventListener('abort', onAbort);
+    }
+};
+
+/**
+ * Snapshots every URL with bounded concurrency. Results keep the input order; URLs not reached
+ * before the signal aborts are omitted.
+ */
+export const fetchPageSnapshots = async (
+    urls: string[],
+    proxySettings: ProxySettings,
+    signal: AbortSignal,
+    onProgress: (fetched: number, total: number) => void
+): Promise<PageSnapshot[]> => {
+    const parser = new DOMParser();
+    const results: (PageSnapshot | undefined)[] = new Array(urls.length);
+    let nextIndex = 0;
+    let fetched = 0;
+
+    const worker = async () => {
+        while (nextIndex < urls.length && !signal.aborted) {
+            const index = nextIndex++;
+            results[index] = await fetchPageSnapshot(urls[index], signal, proxySettings, parser);
+            onProgress(++fetched, urls.length);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(SNAPSHOT_CONCURRENCY, urls.length) }, worker));
+
+    return results.filter((r): r is PageSnapshot => r !== undefined);
+};
@@ -0,0 +1,119 @@
+import type { SitemapFileInput, SitemapFileOutcome, SitemapInventoryOptions, SitemapInventoryProgress, SitemapInventoryResult, SitemapWorkerRequest, SitemapWorkerResponse } from "../utils/sitemapInventory";
+import { createSitemapInventory, processSitemapFile, finishSitemapInventory } from "../utils/sitemapInventory";
+
+export interface SitemapProcessor {
+    processFile: (file: SitemapFileInput) => Promise<SitemapFileOutcome>;
+    finish: () => Promise<SitemapInventoryResult>;
+    dispose: () => void;
+}
+
+// A request waiting for the worker's answer, keyed by the kind of answer it expects
+type PendingRequest =
+    | { type: 'file'; resolve: (outcome: SitemapFileOutcome) => void; reject: (error: Error) => void }
+    | { type: 'finish'; resolve: (result: SitemapInventoryResult) => void; reject: (error: Error) => void };
+
+const createInProcessProcessor = (options: SitemapInventoryOptions, onProgress: (progress: SitemapInventoryProgress) => void): SitemapProcessor => {
+    const inventory = createSitemapInventory(options);
+    return {
+        processFile: file => processSitemapFile(inventory, file, onProgress),
+        finish: async () => finishSitemapInventory(inventory),
+        dispose: () => {},
+    };
+};
+
+/**
+ * Runs sitemap parsing, deduplication, sampling and ranking for one crawl in a Web Worker, so the UI
+ * (and the crawl animation) stays responsive on sitemaps with tens of thousands of entries.
+ * Falls back to doing the same work on the main thread when a worker can't be started.
+ */
+export const createSitemapProcessor = (options: SitemapInventoryOptions, onProgress: (progress: SitemapInventoryProgress) => void): SitemapProcessor => {
+    let worker: Worker;
+    try {
+        worker = new Worker(new URL('../workers/sitemapInventory.worker.ts', import.meta.url), { type: 'module' });
+    } catch (e) {
+        console.warn('Could not start the sitemap worker; parsing on the main thread instead.', e);
+        return createInProcessProcessor(options, onProgress);
+    }
+
+    let nextId = 0;
+    let failure: string | null = null;
+    let fallback: SitemapProcessor | null = null;
+    const pending = new Map<number, PendingRequest>();
+
+    // A worker that fails to load only reports it asynchronously; until it says it's ready nothing is sent,
+    // so a load failure can still fall back to the main thread without losing any file
+    let markReady: (ready: boolean) => void;
+    const ready = new Promise<boolean>(resolve => { markReady = resolve; });
+
+    const send = (request: SitemapWorkerRequest & { id: number }, waiting: PendingRequest, transfer: Transferable[] = []) => {
+        pending.set(request.id, waiting);
+        worker.postMessage(request, transfer);
+    };
+
+    worker.onmessage = (event: MessageEvent<SitemapWorkerResponse>) => {
+        const response = event.data;
+        switch (response.type) {
+            case 'ready':
+                markReady(true);
+                break;
+            case 'progress':
+                onProgress(response.progress);
+                break;
+            case 'file': {
+                const request = pending.get(response.id);
+                if (request?.type === 'file') request.resolve(response.outcome);
+                pending.delete(response.id);
+                break;
+            }
+            case 'finished': {
+                const request = pending.get(response.id);
+                if (request?.type === 'finish') request.resolve(response.result);
+                pending.delete(response.id);
+                break;
+            }
+            case 'error':
+                pending.get(response.id)?.reject(new Error(response.error));
+                pending.delete(response.id);
+                break;
+        }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        failure = `Sitemap worker failed: ${event.message || 'unknown error'}`;
+        markReady(false);
+        pending.forEach(({ reject }) => reject(new Error(failure!)));
+        pending.clear();
+        worker.terminate();
+    };
+
+    const init: SitemapWorkerRequest = { type: 'init', options };
+    worker.postMessage(init);
+
+    const useFallback = (): SitemapProcessor => {
+        if (!fallback) {
+            console.warn(`${failure}; parsing on the main thread instead.`);
+            fallback = createInProcessProcessor(options, onProgress);
+        }
+        return fallback;
+    };
+
+    return {
+        processFile: async file => {
+            if (!await ready) return useFallback().processFile(file);
+            if (failure) throw new Error(failure);
+            return new Promise<SitemapFileOutcome>((resolve, reject) =>
+                send({ type: 'file', id: nextId++, file }, { type: 'file', resolve, reject }, [file.body]));
+        },
+        finish: async () => {
+            if (!await ready) return useFallback().finish();
+            if (failure) throw new Error(failure);
+            return new Promise<SitemapInventoryResult>((resolve, reject) =>
+                send({ type: 'finish', id: nextId++ }, { type: 'finish', resolve, reject }));
+        },
+        dispose: () => {
+            worker.terminate();
+            pending.clear();
+        },
+    };
+};
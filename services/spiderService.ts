@@ -0,0 +1,158 @@
+import type { CrawlProgress, CrawlerSettings, SitemapEntry, LinkEdge, SpiderSummary } from "../types";
+import { fetchViaProxies } from "./fetchProxyService";
+import { findRobotsGroup, isAllowedByRobots } from "../utils/robotsTxt";
+import type { ParsedRobotsTxt } from "../utils/robotsTxt";
+import { extractPageLinks, isSameSite, looksLikeHtmlPage } from "../utils/linkExtractor";
+import { normalizeUrl, createUrlVariantTracker, registerUrlVariant } from "../utils/urlNormalization";
+import type { UrlVariantTracker } from "../utils/urlNormalization";
+
+// The token we look for in robots.txt groups; browsers can't send a custom User-Agent, the local proxy does.
+export const SPIDER_USER_AGENT = 'OrchestratorAI-Crawler';
+
+const SPIDER_CONCURRENCY = 4;
+const MAX_CRAWL_DELAY_MS = 10000;
+// Enough for later link analysis without blowing up memory on mega-menus
+const MAX_RECORDED_LINKS = 50000;
+
+export interface SpiderResult {
+    entries: SitemapEntry[];
+    linkGraph: LinkEdge[];
+    summary: SpiderSummary;
+    variants: UrlVariantTracker;  // Link spellings that resolved to an already-queued page
+    budgetExhausted: boolean;   // Stopped at the page budget with links still unvisited
+}
+
+interface QueuedPage {
+    url: string;
+    depth: number;
+}
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+    const onAbort = () => {
+        clearTimeout(timeoutId);
+        resolve();
+    };
+    const timeoutId = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Breadth-first, same-site link-following crawl from the homepage, for sites with no usable sitemap.
+ * Respects robots.txt (including Crawl-delay), meta robots noindex/nofollow and rel="nofollow",
+ * and stops at `spiderMaxDepth` clicks or `spiderMaxPages` fetched pages, whichever comes first.
+ */
+export const spiderSite = async (
+    siteUrl: string,
+    robots: ParsedRobotsTxt | null,
+    settings: CrawlerSettings,
+    signal: AbortSignal,
+    onProgress: (progress: CrawlProgress) => void
+): Promise<SpiderResult> => {
+    const parser = new DOMParser();
+    const startUrl = new URL('/', siteUrl).toString();
+    const maxPages = Math.max(1, settings.spiderMaxPages);
+    const maxDepth = Math.max(0, settings.spiderMaxDepth);
+
+    const crawlDelaySeconds = robots ? findRobotsGroup(robots, SPIDER_USER_AGENT)?.crawlDelay : undefined;
+    const crawlDelayMs = crawlDelaySeconds ? Math.min(crawlDelaySeconds * 1000, MAX_CRAWL_DELAY_MS) : 0;
+    const concurrency = crawlDelayMs > 0 ? 1 : SPIDER_CONCURRENCY;
+
+    const entries: SitemapEntry[] = [];
+    const linkGraph: LinkEdge[] = [];
+    // Pages are identified by their normalized URL but fetched as linked, so no redirect is introduced
+    const variants = createUrlVariantTracker();
+    registerUrlVariant(variants, startUrl, normalizeUrl(startUrl, settings.urlNormalization));
+    const blocked = new Set<string>();
+    const summary: SpiderSummary = { pagesFetched: 0, pagesFailed: 0, pagesNoindex: 0, blockedByRobots: 0, maxDepthReached: 0, linksRecorded: 0 };
+
+    if (!isAllowedByRobots(robots, startUrl, SPIDER_USER_AGENT)) {
+        summary.blockedByRobots = 1;
+        return { entries, linkGraph, summary, variants, budgetExhausted: false };
+    }
+
+    let currentLevel: QueuedPage[] = [{ url: startUrl, depth: 0 }];
+    let attempted = 0;
+    let completed = 0;
+
+    const crawlPage = async (page: QueuedPage, nextLevel: QueuedPage[]) => {
+        let lastUrlFound: string | undefined;
+        try {
+            const { response } = await fetchViaProxies(page.url, signal, settings.proxy);
+            const contentType = response.headers.get('content-type');
+            if (!response.ok || (contentType && !/html/i.test(contentType))) {
+                summary.pagesFailed++;
+                return;
+            }
+            const html = await response.text();
+            if (signal.aborted) return;
+
+            summary.pagesFetched++;
+            summary.maxDepthReached = Math.max(summary.maxDepthReached, page.depth);
+            const extracted = extractPageLinks(html, page.url, parser);
+
+            if (extracted.noindex) {
+                summary.pagesNoindex++;
+            } else {
+                entries.push({ loc: page.url });
+                lastUrlFound = page.url;
+            }
+
+            extracted.links.forEach(link => {
+                if (!isSameSite(link.url, siteUrl)) return;
+                if (linkGraph.length < MAX_RECORDED_LINKS) {
+                    linkGraph.push({ from: page.url, to: link.url, anchorText: link.anchorText, nofollow: link.nofollow });
+                }
+
+                if (link.nofollow || extracted.nofollow || page.depth + 1 > maxDepth) return;
+                if (!looksLikeHtmlPage(link.url)) return;
+                if (registerUrlVariant(variants, link.url, normalizeUrl(link.url, settings.urlNormalization)) !== 'new') return;
+                if (!isAllowedByRobots(robots, link.url, SPIDER_USER_AGENT)) {
+                    blocked.add(link.url);
+                    return;
+                }
+                nextLevel.push({ url: link.url, depth: page.depth + 1 });
+            });
+        } catch (e) {
+            if (!signal.aborted) summary.pagesFailed++;
+        } finally {
+            completed++;
+            onProgress({
+                type: 'spidering',
+                count: completed,
+                total: Math.min(maxPages, attempted + nextLevel.length),
+                currentSitemap: page.url,
+                pagesFound: entries.length,
+                lastUrlFound,
+            });
+        }
+    };
+
+    while (currentLevel.length > 0 && attempted < maxPages && !signal.aborted) {
+        const nextLevel: QueuedPage[] = [];
+        const levelQueue = currentLevel.slice(0, maxPages - attempted);
+        const levelSize = levelQueue.length;
+        attempted += levelSize;
+
+        const worker = async () => {
+            while (levelQueue.length > 0 && !signal.aborted) {
+                await crawlPage(levelQueue.shift()!, nextLevel);
+                if (crawlDelayMs > 0) await sleep(crawlDelayMs, signal);
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(concurrency, levelQueue.length) }, worker));
+
+        if (attempted >= maxPages && (nextLevel.length > 0 || currentLevel.length > levelSize)) {
+            summary.blockedByRobots = blocked.size;
+            summary.linksRecorded = linkGraph.length;
+            return { entries, linkGraph, summary, variants, budgetExhausted: true };
+        }
+        currentLevel = nextLevel;
+    }
+
+    summary.blockedByRobots = blocked.size;
+    summary.linksRecorded = linkGraph.length;
+    return { entries, linkGraph, summary, variants, budgetExhausted: false };
+};
@@ -0,0 +1,172 @@
+import type { AuditFinding, ProxyProviderId, ProxySettings, RedirectHop, UrlStatusCheck } from "../types";
+import { fetchViaProxies } from "./fetchProxyService";
+
+const STATUS_CHECK_CONCURRENCY = 6;
+const STATUS_CHECK_TIMEOUT_MS = 15000;
+
+/**
+ * Whether a status means the page is broken for visitors. Login-protected pages and rate limits answer
+ * 401/403/429 to the checker but work in a browser, so only the other 4xx count.
+ */
+export const isBrokenStatus = (status: number) => status >= 400 && status < 500 && status !== 401 && status !== 403 && status !== 429;
+
+/**
+ * Reads the redirect hops a fetch went through. The local proxy reports every hop in
+ * `X-Redirect-Chain`; a direct fetch only reveals that it was redirected and where it ended up.
+ * Through other proxies `response.url` is the proxy's own URL, so redirects can't be seen at all.
+ */
+const readRedirectChain = (response: Response, requestedUrl: string, providerId: ProxyProviderId): { chain: RedirectHop[]; finalUrl: string } => {
+    const reportedChain = response.headers.get('x-redirect-chain');
+    if (reportedChain) {
+        try {
+            const chain = JSON.parse(reportedChain) as RedirectHop[];
+            return { chain, finalUrl: response.headers.get('x-final-url') || requestedUrl };
+        } catch (e) {
+            console.warn(`Ignoring malformed X-Redirect-Chain header for ${requestedUrl}`);
+        }
+    }
+    if (providerId === 'direct' && response.redirected) {
+        return { chain: [{ url: requestedUrl }], finalUrl: response.url };
+    }
+    return { chain: [], finalUrl: requestedUrl };
+};
+
+/**
+ * Requests a single URL and records its final status, redirect chain, response time and X-Robots-Tag.
+ * Network failures, and error statuses only a public or custom proxy saw, are recorded with status 0 rather than thrown.
+ */
+export const checkUrlStatus = async (url: string, signal: AbortSignal, proxySettings: ProxySettings): Promise<UrlStatusCheck> => {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal.addEventListener('abort', onAbort);
+    const timeoutId = setTimeout(() => controller.abort(), STATUS_CHECK_TIMEOUT_MS);
+    const startedAt = performance.now();
+
+    try {
+        const { response, providerId } = await fetchViaProxies(url, controller.signal, proxySettings, { returnLastResponse: true });
+        const responseTimeMs = Math.round(performance.now() - startedAt);
+        // Only the headers matter; don't download the page
+        try {
+            await response.body?.cancel();
+        } catch (e) {
+            // The body may already be consumed or closed
+        }
+        const { chain, finalUrl } = readRedirectChain(response, url, providerId);
+        const xRobotsTag = response.headers.get('x-robots-tag') || undefined;
+        return {
+            url,
+            finalUrl,
+            status: response.status,
+            redirectChain: chain,
+            responseTimeMs,
+            xRobotsTag,
+            noindex: !!xRobotsTag && /\b(noindex|none)\b/i.test(xRobotsTag),
+            providerId,
+        };
+    } catch (e) {
+        return {
+            url,
+            finalUrl: url,
+            status: 0,
+            redirectChain: [],
+            responseTimeMs: Math.round(performance.now() - startedAt),
+            noindex: false,
+            error: controller.signal.aborted && !signal.aborted ? 'Timed out' : (e instanceof Error ? e.message : String(e)),
+        };
+    } finally {
+        clearTimeout(timeoutId);
+        signal.removeEventListener('abort', onAbort);
+    }
+};
+
+/**
+ * Checks every URL with bounded concurrency. Results keep the input order; URLs not reached
+ * before the signal aborts are omitted.
+ */
+export const checkUrlStatuses = async (
+    urls: string[],
+    proxySettings: ProxySettings,
+    signal: AbortSignal,
+    onProgress: (checked: number, total: number) => void
+): Promise<UrlStatusCheck[]> => {
+    const results: (UrlStatusCheck | undefined)[] = new Array(urls.length);
+    let nextIndex = 0;
+    let checked = 0;
+
+    const worker = async () => {
+        while (nextIndex < urls.length && !signal.aborted) {
+            const index = nextIndex++;
+            results[index] = await checkUrlStatus(urls[index], signal, proxySettings);
+            onProgress(++checked, urls.length);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(STATUS_CHECK_CONCURRENCY, urls.length) }, worker));
+
+    return results.filter((r): r is UrlStatusCheck => r !== undefined);
+};
+
+const describeRedirect = (check: UrlStatusCheck): string =>
+    [...check.redirectChain.map(hop => `${hop.url} → ${hop.status ?? '3xx'}`), `${check.finalUrl} (${check.status})`].join(' → ');
+
+/**
+ * Turns status checks into findings: sitemap URLs should answer 200 directly and be indexable,
+ * so broken 4xx (see isBrokenStatus), 5xx responses, redirects and X-Robots-Tag noindex are all reported with
+ * the measured evidence. Unreachable URLs (status 0) are left out; they more often point at the fetch provider than the site.
+ */
+export const buildUrlStatusFindings = (checks: UrlStatusCheck[]): AuditFinding[] => {
+    const findings: AuditFinding[] = [];
+
+    const broken = checks.filter(c => isBrokenStatus(c.status));
+    if (broken.length > 0) {
+        findings.push({
+            id: 'status-broken-urls',
+            category: 'broken-url',
+            title: `Fix or remove ${broken.length} sitemap URL${broken.length === 1 ? '' : 's'} returning 4xx errors`,
+            priority: 'high',
+            description: 'These URLs are listed in the sitemap but return a client error. Restore the pages, redirect them to a relevant live page, or remove them from the sitemap.',
+            affectedUrls: broken.map(c => c.url),
+            evidence: broken.map(c => c.redirectChain.length > 0 ? describeRedirect(c) : `${c.url} → ${c.status}`),
+        });
+    }
+
+    const serverErrors = checks.filter(c => c.status >= 500);
+    if (serverErrors.length > 0) {
+        findings.push({
+            id: 'status-server-errors',
+            category: 'server-error',
+            title: `Investigate ${serverErrors.length} sitemap URL${serverErrors.length === 1 ? '' : 's'} returning server errors`,
+            priority: 'high',
+            description: 'These URLs returned a 5xx status when checked. Persistent server errors cause search engines to drop pages and slow down crawling.',
+            affectedUrls: serverErrors.map(c => c.url),
+            evidence: serverErrors.map(c => `${c.url} → ${c.status}`),
+        });
+    }
+
+    const redirected = checks.filter(c => c.redirectChain.length > 0 && c.status >= 200 && c.status < 400);
+    if (redirected.length > 0) {
+        findings.push({
+            id: 'status-redirected-urls',
+            category: 'redirected-url',
+            title: `Replace ${redirected.length} redirecting sitemap URL${redirected.length === 1 ? '' : 's'} with their final destinations`,
+            priority: redirected.some(c => c.redirectChain.length > 1) ? 'high' : 'medium',
+            description: 'Sitemaps should only list canonical URLs that respond 200 directly. Update the sitemap (and internal links) to point at the final URL, and collapse multi-hop chains into a single redirect.',
+            affectedUrls: redirected.map(c => c.url),
+            evidence: redirected.map(describeRedirect),
+        });
+    }
+
+    const noindexed = checks.filter(c => c.noindex && c.status >= 200 && c.status < 300);
+    if (noindexed.length > 0) {
+        findings.push({
+            id: 'status-noindex-urls',
+            category: 'noindex-url',
+            title: `Resolve ${noindexed.length} sitemap URL${noindexed.length === 1 ? '' : 's'} marked noindex by X-Robots-Tag`,
+            priority: 'high',
+            description: 'Listing a URL in the sitemap asks search engines to index it, while its X-Robots-Tag header forbids indexing. Either remove the header or drop the URL from the sitemap.',
+            affectedUrls: noindexed.map(c => c.url),
+            evidence: noindexed.map(c => `${c.url} → X-Robots-Tag: ${c.xRobotsTag}`),
+        });
+    }
+
+    return findings;
+};
@@ -12,10 +12,14 @@ export interface StrategicRoadmapData {
 export interface TechnicalAudit {
   status: 'good' | 'needs_improvement' | 'poor';
   summary: string;
-  actionItems: {
-    item: string;
-    priority: 'high' | 'medium' | 'low';
-  }[];
+  actionItems: TechnicalActionItem[];
+}
+
+export interface TechnicalActionItem {
+  item: string;
+  priority: 'high' | 'medium' | 'low';
+  ruleId?: string; // Set on items produced by the on-page rule engine rather than the AI
+  evidence?: string[]; // Affected URLs and what was measured on them; rule items only
 }
 
 export interface ContentGap {
@@ -47,6 +51,9 @@ export interface Node {
   label: string;
   type: 'pillar' | 'cluster' | 'orphan';
   cluster?: string; // clusterName for linking
+  inlinks?: number; // Link metrics, set when the graph is built from crawled links (see LinkGraphPage)
+  depth?: number | null;
+  authority?: number;
 }
 export interface Edge {
   source: string; // source URL
@@ -86,6 +93,7 @@ export interface SitewideAnalysis {
   siteArchitectureGraph: GraphData; 
   localBusinessAudit: LocalBusinessAudit;
   zeroToOneInitiatives: ZeroToOneInitiative[]; // New for v11
+  imageAudit?: ImageAudit; // Measured from the fetched pages, not generated by the AI
 }
 
 
@@ -119,6 +127,7 @@ export interface PageAction {
     strategicGoal?: string; // New for v11 (The Strategy Thread)
   };
   optimizationTasks?: OptimizationTask[];
+  contentMetrics?: ContentMetrics; // Measured on the fetched page, when it was fetched
 }
 
 
@@ -177,6 +186,8 @@ export interface ActionItem {
   verificationChecklist: ChecklistItem[];
   successVerification: { method: string; metric: string }[]; // new for autonomous plan
   nextSteps: { action: string; rationale: string }[]; // new for autonomous plan
+  evidence?: string[]; // Measured facts behind a deterministic finding (see AuditFinding)
+  contentMetrics?: ContentMetrics; // The page's measured content metrics, for content updates
   completed: boolean;
 }
 
@@ -205,6 +216,14 @@ export interface ExecutiveSummaryRedirect {
   from: string;
   to: string;
   reason: string;
+  action?: 'merge' | 'canonical' | 'redirect'; // Set on redirects backed by measured data (duplicate content, status codes, canonicals)
+  similarity?: number; // Body-text similarity between the two pages, 0-1
+  evidence?: string; // The status codes or canonicals that support it
+}
+
+// A model-suggested redirect that the fetched status codes and canonicals contradict or cannot confirm
+export interface FlaggedRedirect extends ExecutiveSummaryRedirect {
+  conflict: string;
 }
 
 export interface ExecutiveSummary {
@@ -214,6 +233,7 @@ export interface ExecutiveSummary {
   optimizations: ExecutiveSummaryAction[];
   newContent: ExecutiveSummaryContent[];
   redirects: ExecutiveSummaryRedirect[];
+  flaggedRedirects?: FlaggedRedirect[]; // Left out of redirects; see utils/redirectAnalysis.ts
 }
 // End of 80/20 Types
 
@@ -229,6 +249,16 @@ export interface HistoricalAnalysis {
   location?: string;
   actionPlan?: DailyActionPlan[];
   executiveSummary?: ExecutiveSummary;
+  crawlReport?: CrawlReport;
+  urlStatus?: UrlStatusCheck[];
+  verifiedFindings?: AuditFinding[];
+  competitorInventories?: CompetitorInventory[];
+  pageSnapshots?: PageSnapshot[];
+  linkAnalysis?: LinkGraphAnalysis;
+  duplicateClusters?: DuplicateCluster[];
+  hreflangAudit?: HreflangAudit;
+  linkCheck?: LinkCheckReport;
+  contentDecay?: DecayAssessment[];
 }
 
 
@@ -264,15 +294,191 @@ export interface SerpInsights {
   lsiKeywords: Record<string, string[]>;
 }
 
+// Rich sitemap entries (sitemap protocol + image/video/news/xhtml extensions)
+export interface SitemapImage {
+    loc: string;
+    title?: string;
+    caption?: string;
+}
+
+export interface SitemapVideo {
+    title?: string;
+    description?: string;
+    thumbnailLoc?: string;
+    contentLoc?: string;
+    playerLoc?: string;
+    duration?: number; // seconds
+    publicationDate?: string;
+}
+
+export interface SitemapNews {
+    publicationName?: string;
+    language?: string;
+    title?: string;
+    publicationDate?: string;
+}
+
+export interface HreflangAlternate {
+    hreflang: string;
+    href: string;
+}
+
+export interface SitemapEntry {
+    loc: string;
+    lastmod?: string;
+    changefreq?: 'always' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'never';
+    priority?: number; // 0.0 - 1.0
+    images?: SitemapImage[];
+    videos?: SitemapVideo[];
+    news?: SitemapNews;
+    alternates?: HreflangAlternate[];
+    sourceSitemap?: string; // The sitemap file this entry was found in
+}
+
 // For the crawling service progress updates
+export interface SitemapSource {
+    url: string;
+    origin: 'user' | 'robots.txt' | 'common-path';
+}
+
 export interface CrawlProgress {
-    type: 'counting' | 'crawling' | 'preflight';
+    type: 'counting' | 'crawling' | 'preflight' | 'spidering' | 'linking';
     count: number;
     total: number;
     currentSitemap?: string;
     pagesFound?: number;
     lastUrlFound?: string;
     totalUrls?: number;
+    sitemapSources?: SitemapSource[];
+    diagnostics?: SitemapDiagnostic[];
+}
+
+// For the configurable crawl fetch layer
+export type ProxyProviderId = 'direct' | 'local' | 'custom' | 'corsproxy' | 'allorigins' | 'thingproxy';
+
+export interface ProxySettings {
+    allowDirect: boolean;         // Fetch without a proxy when the target sends CORS headers
+    useLocalProxy: boolean;       // The bundled Node proxy (`npm run proxy`)
+    localProxyUrl: string;
+    customTemplate: string;       // User-supplied proxy, e.g. "https://proxy.example.com/?url={url}"
+    allowPublicProxies: boolean;  // Third-party CORS proxies (rate limited, see client URLs)
+}
+
+// 'first-come' keeps the first URLs found; 'stratified' inventories every sitemap, then samples each proportionally
+export type SamplingMode = 'first-come' | 'stratified';
+
+export interface CrawlerSettings {
+    proxy: ProxySettings;
+    timeBudgetSeconds: number;  // Crawl stops and keeps what it has after this long
+    maxUrls: number;            // Sample size: first-come stops here, stratified samples down to it
+    samplingMode: SamplingMode;
+    spiderMaxDepth: number;     // Link-following fallback: clicks from the homepage
+    spiderMaxPages: number;     // Link-following fallback: pages fetched
+    mapInternalLinks: boolean;  // Sitemap crawls: also follow links from the homepage (same limits) to build the link graph
+    urlNormalization: UrlNormalizationRules;
+}
+
+// How URL variants are folded into one identity for deduplication, ranking and caching.
+// The host is always lower-cased and default ports dropped; these are the judgement calls.
+export interface UrlNormalizationRules {
+    trailingSlash: 'keep' | 'strip' | 'add';
+    stripTrackingParams: boolean;
+    trackingParams: string[];   // Exact names, or prefixes ending in "*" (e.g. "utm_*")
+    lowercasePath: boolean;     // Only for servers that treat paths case-insensitively
+    stripFragment: boolean;
+    sortQueryParams: boolean;
+}
+
+export interface UrlVariantGroup {
+    canonical: string;          // The normalized identity
+    variants: string[];         // Distinct raw URLs that were merged into it, first-seen first
+}
+
+export interface SectionCoverage {
+    sitemap: string;      // The child sitemap a section was read from
+    totalUrls: number;    // Unique URLs the section lists
+    sampledUrls: number;  // How many of them made it into the crawl result
+}
+
+export type CrawlStatus = 'complete' | 'truncated' | 'cancelled';
+
+export type SitemapFormat = 'sitemapindex' | 'urlset' | 'rss' | 'atom' | 'text';
+
+export type SitemapFetchOutcome =
+    | 'ok'
+    | 'empty'          // Fetched and parsed, but listed no URLs
+    | 'parse-error'
+    | 'http-error'     // The site answered with a non-2xx status (e.g. 404)
+    | 'proxy-failure'  // Every enabled fetch provider failed
+    | 'timeout'        // In flight when the time budget ran out
+    | 'aborted'        // In flight when the user stopped the crawl
+    | 'skipped';       // Discovered but never fetched (budget reached or crawl stopped)
+
+export interface SitemapDiagnostic {
+    url: string;
+    outcome: SitemapFetchOutcome;
+    httpStatus?: number;
+    providerId?: ProxyProviderId;
+    bytes?: number;           // Bytes transferred (before gzip inflation)
+    format?: SitemapFormat;
+    urlCount: number;         // Page URLs listed (0 for sitemap indexes)
+    childSitemapCount?: number;
+    durationMs: number;
+    error?: string;
+}
+
+// A link found on a crawled page. Recorded by the link-following spider.
+export interface LinkEdge {
+    from: string;
+    to: string;
+    anchorText: string;
+    nofollow: boolean;
+}
+
+export interface SpiderSummary {
+    pagesFetched: number;
+    pagesFailed: number;
+    pagesNoindex: number;
+    blockedByRobots: number;
+    maxDepthReached: number;
+    linksRecorded: number;
+}
+
+export interface CrawlReport {
+    siteUrl: string;
+    startedAt: string;
+    method: 'sitemap' | 'spider';   // 'spider' when no usable sitemap existed and links were followed instead
+    spider?: SpiderSummary;
+    linkMap?: SpiderSummary;        // Sitemap crawls with mapInternalLinks: the link-following pass that built the link graph
+    status: CrawlStatus;
+    truncationReason?: 'time-budget' | 'url-budget';
+    sitemapsProcessed: number;
+    sitemapsDiscovered: number;
+    durationMs: number;
+    samplingMode: SamplingMode;
+    urlVariantsMerged?: number;         // Raw URLs dropped because an equivalent variant was already collected
+    mergedVariants?: UrlVariantGroup[]; // Capped sample of the merges, for review
+    totalUrlsFound: number;
+    coverage: SectionCoverage[];
+    sources: SitemapSource[];
+    sitemaps: SitemapDiagnostic[];
+}
+
+export interface CrawlResult extends CrawlReport {
+    entries: SitemapEntry[];  // The sample, ranked by estimated SEO importance
+    linkGraph?: LinkEdge[];   // Kept out of CrawlReport because it is too large to store in history
+    linkGraphComplete?: boolean;   // Every reachable page was visited before the page, depth or time budget ran out
+    sitemapFindings: AuditFinding[];   // Sitemap protocol violations; stored with the other verified findings
+}
+
+export interface ProxyHealth {
+    providerId: ProxyProviderId;
+    label: string;
+    ok: boolean;
+    latencyMs?: number;
+    status?: number;
+    error?: string;
+    checkedAt: number;
 }
 
 // For the Live AI Log Streamer
@@ -297,6 +503,11 @@ export interface GscTokenResponse {
     [key: string]: any;
 }
 
+export interface GscClickTrend {
+    recentClicks: number;   // Last 90 days
+    previousClicks: number; // The 90 days before that
+}
+
 // For Multi-Provider AI Configuration
 export type AiProvider = 'gemini' | 'openai' | 'anthropic' | 'openrouter';
 
@@ -304,4 +515,280 @@ export interface AiConfig {
   provider: AiProvider;
   apiKey: string;
   model?: string; // Primarily for OpenRouter, but can be used for others
-}
\ No newline at end of file
+}
+
+// URL status verification
+export interface RedirectHop {
+  url: string;
+  status?: number; // Unknown when the fetch provider only reports the final URL
+}
+
+export interface UrlStatusCheck {
+  url: string;
+  finalUrl: string;
+  status: number; // 0 when no provider could reach the URL
+  redirectChain: RedirectHop[]; // Hops before the final URL, in order; empty when not redirected
+  responseTimeMs: number;
+  xRobotsTag?: string;
+  noindex: boolean;
+  providerId?: ProxyProviderId;
+  error?: string;
+}
+
+// On-page facts extracted from a page's HTML, so prompts work from what the page actually says
+export interface PageHeading {
+  level: 1 | 2 | 3;
+  text: string;
+}
+
+export interface PageSnapshot {
+  url: string;
+  finalUrl: string;
+  status: number; // 0 when the page could not be fetched
+  fetchedAt: string;
+  htmlBytes: number;
+  title?: string;
+  metaDescription?: string;
+  headings: PageHeading[]; // H1-H3 in document order
+  wordCount: number; // Visible body text, excluding scripts, styles and navigation chrome
+  canonical?: string; // Absolute URL from <link rel="canonical">
+  robotsMeta?: string; // Combined content of meta robots/googlebot
+  hreflang: HreflangAlternate[];
+  openGraph: Record<string, string>; // og:* properties, keyed without the "og:" prefix
+  jsonLd: unknown[]; // Parsed JSON-LD blocks, as written
+  jsonLdTypes: string[]; // Distinct @type values found in the JSON-LD
+  jsonLdErrors: number; // <script type="application/ld+json"> blocks that failed to parse
+  structuredData: StructuredDataItem[]; // Top-level schema.org items from JSON-LD, Microdata and RDFa, validated
+  contentSketch: number[]; // Smallest hashes of the body text's 5-word shingles, for near-duplicate detection
+  images: PageImage[]; // <img> elements in document order
+  links: PageLink[]; // http(s) <a href> targets in document order, navigation included
+  contentDates: string[]; // YYYY-MM-DD dates the page states for itself (<time>, article meta, "Updated on ..."), oldest first
+  schemaDateModified?: string; // Latest JSON-LD dateModified, or datePublished when none is given
+  frameworkMarkers: string[]; // Client-side frameworks whose markers appear in the raw HTML, e.g. "Next.js"
+  emptyMountPoint?: string; // Selector of an app root element served without content, e.g. "#root"
+  contentMetrics?: ContentMetrics; // Unset when the page could not be fetched
+  error?: string;
+}
+
+// Pages whose raw HTML is a JavaScript shell; see utils/renderingRisk.ts
+export interface RenderingRisk {
+  url: string;
+  wordCount: number; // As served, before any JavaScript runs
+  headingCount: number;
+  linkCount: number;
+  frameworks: string[];
+  emptyMountPoint?: string;
+}
+
+export interface PageLink {
+  url: string; // Absolute URL, fragment removed
+  anchorText: string;
+  nofollow: boolean;
+}
+
+export interface PageImage {
+  src: string; // Absolute URL; the lazy-load attribute's URL when src is only a placeholder
+  alt: string | null; // null when the attribute is absent; "" marks the image as decorative
+  hasDimensions: boolean; // Both width and height attributes are set
+  lazy: boolean; // loading="lazy" or a lazy-load library's data-src
+  modernFormat: boolean; // Served as, or offered via <picture>/srcset in, WebP or AVIF
+  bytes?: number; // Content-Length from a HEAD request; unset when not measured
+  contentType?: string; // Content-Type from the same HEAD request
+}
+
+export type ImageIssue = 'missing-alt' | 'empty-alt' | 'missing-dimensions' | 'not-lazy' | 'legacy-format' | 'oversized';
+
+export interface PageImageAudit {
+  url: string;
+  imageCount: number;
+  counts: Record<ImageIssue, number>;
+  examples: Record<ImageIssue, string[]>; // A few offending image URLs per issue
+}
+
+// Image checks over the fetched pages, see utils/imageAudit.ts
+export interface ImageAudit {
+  pagesAudited: number;
+  imagesAudited: number; // Distinct image URLs
+  imagesSized: number; // Distinct image URLs whose file size a HEAD request measured
+  counts: Record<ImageIssue, number>; // Distinct offending image URLs per issue
+  pages: PageImageAudit[]; // Pages with at least one issue, most issues first
+}
+
+// School grades, except LIX (below 30 very easy, above 60 very hard) for languages without a grade formula
+export type ReadabilityFormula = 'flesch-kincaid' | 'wiener-sachtextformel' | 'crawford' | 'lix';
+
+export interface KeywordUsage {
+  phrase: string; // The phrase the body text repeats most
+  occurrences: number;
+  density: number; // Percent of body words
+  inTitle: boolean;
+  inH1: boolean;
+  inFirstParagraph: boolean;
+}
+
+// Readability and focus numbers for one page, see utils/contentMetrics.ts
+export interface ContentMetrics {
+  wordCount: number;
+  language: string; // Primary subtag of <html lang>, "en" when missing
+  readability: { formula: ReadabilityFormula; score: number } | null; // null for short pages and unspaced scripts
+  sentenceCount: number;
+  averageSentenceLength: number; // Words
+  sentenceLengths: { short: number; medium: number; long: number; veryLong: number }; // ≤10, 11-20, 21-30 and >30 words
+  subheadingCount: number; // H2 and H3
+  wordsPerSubheading: number | null;
+  primaryKeyword?: KeywordUsage;
+}
+
+export type StructuredDataFormat = 'json-ld' | 'microdata' | 'rdfa';
+
+// One top-level schema.org item found on a page, checked against the rules in utils/schemaValidation.ts
+export interface StructuredDataItem {
+  format: StructuredDataFormat;
+  types: string[]; // schema.org types without the vocabulary prefix, e.g. "FAQPage"
+  properties: string[]; // Property names present on the item
+  errors: string[]; // Missing required properties or invalid nested items; block rich results
+  warnings: string[]; // Missing recommended properties
+}
+
+// A problem measured by the app itself rather than inferred by the model. Becomes a technical ActionItem.
+export interface AuditFinding {
+  id: string;
+  category: 'broken-url' | 'redirected-url' | 'noindex-url' | 'server-error' | 'sitemap-protocol' | 'orphan-url' | 'hreflang' | 'redirect-loop' | 'canonical-conflict' | 'broken-link' | 'js-rendering';
+  title: string;
+  priority: ActionItem['priority'];
+  description: string;
+  affectedUrls: string[];
+  evidence: string[];
+}
+
+// Competitor crawling
+export interface UrlTopicCount {
+  segment: string; // First path segment, e.g. "/blog/"; "/" for top-level pages
+  count: number;
+}
+
+export interface CompetitorInventory {
+  sitemapUrl: string;
+  host: string;
+  status: CrawlStatus | 'failed';
+  method?: CrawlReport['method'];
+  totalUrlsFound: number;
+  sampledUrls: number;
+  sections: SectionCoverage[];
+  topics: UrlTopicCount[]; // Most common URL sections across the sample
+  topUrls: string[]; // Highest-ranked pages, as sent to the audit
+  error?: string;
+}
+
+// Internal link graph, computed from the links found on crawled pages
+export interface LinkGraphPage {
+  url: string;
+  inlinks: number; // Distinct crawled pages linking here
+  outlinks: number; // Distinct internal pages this page links to
+  depth: number | null; // Clicks from the homepage along followed links; null when not reached
+  authority: number; // Internal PageRank over followed links, scaled so the strongest page is 100
+  inSitemap: boolean;
+  orphan: boolean; // Listed in the sitemap but linked from no crawled page; only set when the link crawl was complete
+}
+
+export interface LinkGraphAnalysis {
+  pages: LinkGraphPage[]; // Strongest first
+  pagesCrawled: number;
+  linkCount: number; // Distinct page-to-page internal links
+  complete: boolean; // false when the link crawl stopped at a budget, so "orphans" may just be unvisited
+  crawlLimits?: { maxPages: number; maxDepth: number }; // The link crawl's budget, to say what a partial crawl covered
+}
+
+// A page whose body text largely repeats its cluster's primary page
+export interface DuplicatePage {
+  url: string;
+  similarity: number; // Estimated share of shingles shared with the primary page, 0-1
+  wordCount: number;
+  action: 'merge' | 'canonical'; // Near-copies get a canonical; heavy overlap is merged and redirected
+  canonicalized: boolean; // Already declares the primary page as its canonical, so nothing to do
+}
+
+// Pages detected as near-duplicates of each other, see utils/nearDuplicates.ts
+export interface DuplicateCluster {
+  primaryUrl: string; // The page to keep
+  primaryWordCount: number;
+  duplicates: DuplicatePage[]; // Most similar first
+}
+
+export type HreflangIssueType =
+  | 'invalid-code'
+  | 'missing-return-link'
+  | 'missing-self-reference'
+  | 'missing-x-default'
+  | 'non-200-target'
+  | 'non-canonical-target'
+  | 'conflicting-alternates';
+
+export interface HreflangIssue {
+  type: HreflangIssueType;
+  url: string; // The page whose annotations are wrong
+  detail: string; // What was measured, e.g. "en-UK: UK is not a region code (use GB)"
+}
+
+export interface HreflangClusterMember {
+  url: string;
+  hreflang: string[]; // Codes the cluster's annotations assign to this URL
+  status?: number; // Final status when the URL was checked
+  declared: boolean; // Its own annotations (page tags or sitemap xhtml:link) are known
+}
+
+// URLs joined by hreflang annotations, from the sitemap and the fetched pages; see utils/hreflang.ts
+export interface HreflangCluster {
+  members: HreflangClusterMember[];
+  hasXDefault: boolean;
+  issues: HreflangIssue[];
+}
+
+export interface HreflangAudit {
+  clustersFound: number;
+  urlsAnnotated: number; // URLs declaring at least one alternate
+  targetsChecked: number; // Alternate URLs whose status is known
+  counts: Record<HreflangIssueType, number>;
+  clusters: HreflangCluster[]; // Most issues first
+}
+
+export interface BrokenLinkSource {
+  page: string; // The fetched page carrying the link
+  anchorText: string;
+}
+
+// One failing link target and every fetched page that links to it
+export interface BrokenLink {
+  url: string;
+  status: number;
+  finalUrl: string; // Where redirects ended, when the target redirected before failing
+  internal: boolean;
+  linkCount: number; // <a href> elements pointing here, repeats on the same page included
+  sources: BrokenLinkSource[]; // One per linking page
+}
+
+// Status of every distinct <a href> target on the fetched pages; see utils/brokenLinks.ts
+export interface LinkCheckReport {
+  pagesScanned: number;
+  linksFound: number;
+  targetsFound: number; // Distinct after normalization
+  targetsChecked: number; // Reached by a status check; the rest were over the cap or unreachable
+  internalBroken: BrokenLink[]; // Most linked first
+  outboundBroken: BrokenLink[];
+}
+
+export type DecaySignalType = 'stale-lastmod' | 'stale-content-date' | 'stale-schema-date' | 'outdated-year' | 'click-decline';
+
+export interface DecaySignal {
+  type: DecaySignalType;
+  points: number; // Contribution to the page's decay score
+  detail: string; // What was measured, e.g. "Title mentions 2022"
+}
+
+// How likely a page is to be outdated, from its dates, year mentions and search clicks; see utils/contentDecay.ts
+export interface DecayAssessment {
+  url: string;
+  score: number; // 0-100
+  lastUpdated?: string; // Most recent YYYY-MM-DD date any source gives for the page
+  signals: DecaySignal[]; // Strongest first
+}
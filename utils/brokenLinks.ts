@@ -0,0 +1,154 @@
+import type { AuditFinding, BrokenLink, LinkCheckReport, PageSnapshot, UrlNormalizationRules, UrlStatusCheck } from '../types';
+import { isSameSite } from './linkExtractor';
+import { normalizeUrl } from './urlNormalization';
+
+// Each of the most linked broken targets gets its own action item; the rest are grouped into one
+const MAX_TARGET_FINDINGS = 10;
+const MAX_EVIDENCE = 10;
+
+// Other sites often refuse proxies and bots (401/403/429, LinkedIn's 999), so only answers that mean the page is gone count
+const isBrokenOutbound = (status: number) => status === 404 || status === 410 || status >= 500;
+// Login-protected pages and rate limits answer 401/403/429 to the checker but work for visitors
+const isBrokenInternal = (status: number) => status >= 400 && status !== 401 && status !== 403 && status !== 429;
+
+export interface LinkCheckOptions {
+    siteUrl: string;
+    urlNormalization: UrlNormalizationRules;
+}
+
+interface LinkTarget {
+    url: string;
+    internal: boolean;
+    linkCount: number;
+    sources: Map<string, string>; // Linking page → first anchor text on it
+}
+
+const groupLinkTargets = (snapshots: PageSnapshot[], options: LinkCheckOptions): Map<string, LinkTarget> => {
+    const targets = new Map<string, LinkTarget>();
+    snapshots.filter(page => !page.error).forEach(page => {
+        page.links.forEach(link => {
+            const key = normalizeUrl(link.url, options.urlNormalization);
+            let target = targets.get(key);
+            if (!target) {
+                target = { url: link.url, internal: isSameSite(link.url, options.siteUrl), linkCount: 0, sources: new Map() };
+                targets.set(key, target);
+            }
+            target.linkCount++;
+            if (!target.sources.has(page.url)) target.sources.set(page.url, link.anchorText);
+        });
+    });
+    return targets;
+};
+
+/**
+ * Every distinct link target on the fetched pages: internal targets first, then by how many pages link
+ * to them, so a cap on status checks drops the least visible outbound links.
+ */
+export const collectLinkTargets = (snapshots: PageSnapshot[], options: LinkCheckOptions): string[] =>
+    Array.from(groupLinkTargets(snapshots, options).values())
+        .sort((a, b) => Number(b.internal) - Number(a.internal) || b.sources.size - a.sources.size)
+        .map(target => target.url);
+
+/**
+ * Matches the link targets with their status checks (which record the site's own error status, see
+ * checkUrlStatus). Internal targets answering 4xx/5xx are broken, except 401/403/429; outbound ones only
+ * when they answer 404, 410 or 5xx. Unreachable targets (status 0) aren't judged.
+ */
+export const buildLinkCheckReport = (snapshots: PageSnapshot[], checks: UrlStatusCheck[], options: LinkCheckOptions): LinkCheckReport => {
+    const targets = groupLinkTargets(snapshots, options);
+    const checksByKey = new Map(checks.filter(check => check.status !== 0).map(check => [normalizeUrl(check.url, options.urlNormalization), check]));
+    const internalBroken: BrokenLink[] = [];
+    const outboundBroken: BrokenLink[] = [];
+    let targetsChecked = 0;
+    let linksFound = 0;
+
+    targets.forEach((target, key) => {
+        linksFound += target.linkCount;
+        const check = checksByKey.get(key);
+        if (!check) return;
+        targetsChecked++;
+        if (!(target.internal ? isBrokenInternal(check.status) : isBrokenOutbound(check.status))) return;
+        (target.internal ? internalBroken : outboundBroken).push({
+            url: target.url,
+            status: check.status,
+            finalUrl: check.finalUrl,
+            internal: target.internal,
+            linkCount: target.linkCount,
+            sources: Array.from(target.sources.entries()).map(([page, anchorText]) => ({ page, anchorText })),
+        });
+    });
+
+    const byLinks = (a: BrokenLink, b: BrokenLink) => b.sources.length - a.sources.length || b.linkCount - a.linkCount;
+    return {
+        pagesScanned: snapshots.filter(page => !page.error).length,
+        linksFound,
+        targetsFound: targets.size,
+        targetsChecked,
+        internalBroken: internalBroken.sort(byLinks),
+        outboundBroken: outboundBroken.sort(byLinks),
+    };
+};
+
+const displayPath = (url: string): string => {
+    try {
+        const parsed = new URL(url);
+        return `${parsed.pathname}${parsed.search}`;
+    } catch (e) {
+        return url;
+    }
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const limitEvidence = (evidence: string[]): string[] =>
+    evidence.length > MAX_EVIDENCE ? [...evidence.slice(0, MAX_EVIDENCE), `...and ${(evidence.length - MAX_EVIDENCE).toLocaleString()} more`] : evidence;
+
+const describeStatus = (link: BrokenLink) =>
+    link.finalUrl && link.finalUrl !== link.url ? `redirects to ${link.finalUrl}, which answers ${link.status}` : `answers ${link.status}`;
+
+const sourceEvidence = (link: BrokenLink): string[] =>
+    link.sources.map(source => `${source.page} → "${source.anchorText || '(no anchor text)'}"`);
+
+/**
+ * One action item per broken internal target (the most linked ones), one for the remaining internal
+ * targets, and one for all broken outbound links.
+ */
+export const buildBrokenLinkFindings = (report: LinkCheckReport): AuditFinding[] => {
+    const findings: AuditFinding[] = report.internalBroken.slice(0, MAX_TARGET_FINDINGS).map(link => ({
+        id: `broken-link-${normalizeUrl(link.url)}`,
+        category: 'broken-link',
+        title: `Fix ${plural(link.linkCount, 'link')} pointing to ${displayPath(link.url)} from ${plural(link.sources.length, 'page')}`,
+        priority: 'high',
+        description: `${link.url} ${describeStatus(link)}. Update these links to the live replacement, or redirect the URL to it if other sites link there too.`,
+        affectedUrls: link.sources.map(source => source.page),
+        evidence: limitEvidence(sourceEvidence(link)),
+    }));
+
+    const rest = report.internalBroken.slice(MAX_TARGET_FINDINGS);
+    if (rest.length > 0) {
+        findings.push({
+            id: 'broken-links-internal-other',
+            category: 'broken-link',
+            title: `Fix internal links to ${plural(rest.length, 'more broken URL')}`,
+            priority: 'medium',
+            description: 'Each of these internal URLs returns an error and is linked from at least one fetched page. Update or remove the links.',
+            affectedUrls: Array.from(new Set(rest.flatMap(link => link.sources.map(source => source.page)))),
+            evidence: limitEvidence(rest.map(link => `${link.url} (${link.status}) ← ${plural(link.sources.length, 'page')}`)),
+        });
+    }
+
+    if (report.outboundBroken.length > 0) {
+        const pages = new Set(report.outboundBroken.flatMap(link => link.sources.map(source => source.page)));
+        findings.push({
+            id: 'broken-links-outbound',
+            category: 'broken-link',
+            title: `Fix or remove ${plural(report.outboundBroken.length, 'broken outbound link')} on ${plural(pages.size, 'page')}`,
+            priority: 'medium',
+            description: 'These links to other sites lead to pages that no longer exist or fail. Link to a current source, or remove the link.',
+            affectedUrls: Array.from(pages),
+            evidence: limitEvidence(report.outboundBroken.map(link => `${link.url} (${link.status}) ← ${link.sources.map(source => source.page).join(', ')}`)),
+        });
+    }
+
+    return findings;
+};
@@ -0,0 +1,128 @@
+import type { DecayAssessment, DecaySignal, GscClickTrend, PageAction, PageSnapshot, SitemapEntry, UrlNormalizationRules } from '../types';
+import { normalizeUrl } from './urlNormalization';
+
+// Pages scoring at least this get a refresh action; high priority from the second threshold
+export const DECAY_ACTION_SCORE = 40;
+const HIGH_PRIORITY_SCORE = 70;
+
+const MONTH_MS = 30.44 * 24 * 60 * 60 * 1000;
+// Too few clicks to tell a decline from noise
+const MIN_PREVIOUS_CLICKS = 20;
+
+export interface DecayOptions {
+    now: Date;
+    urlNormalization: UrlNormalizationRules;
+    clickTrends?: Map<string, GscClickTrend>; // Keyed by page URL as GSC reports it; unset without a GSC connection
+}
+
+const monthsSince = (date: string, now: Date) => (now.getTime() - Date.parse(date)) / MONTH_MS;
+
+const formatAge = (months: number) => months >= 24 ? `${Math.floor(months / 12)} years` : `${Math.floor(months)} months`;
+
+/**
+ * Points for a date's age: nothing within a year, more past two years. Sitemap lastmod counts for less
+ * because many CMSs rewrite it on every deploy or never at all.
+ */
+const agePoints = (months: number, weight: number) => Math.round((months > 24 ? 30 : months > 12 ? 20 : 0) * weight);
+
+const dateSignal = (type: DecaySignal['type'], label: string, date: string | undefined, now: Date, weight: number): DecaySignal[] => {
+    if (!date) return [];
+    const months = monthsSince(date, now);
+    const points = agePoints(months, weight);
+    return points > 0 ? [{ type, points, detail: `${label} ${date} (${formatAge(months)} ago)` }] : [];
+};
+
+// Past years in a title or heading, unless the same text also names the current year or a later one
+const outdatedYears = (text: string, currentYear: number): number[] => {
+    const years = Array.from(text.matchAll(/\b(19|20)\d{2}\b/g), match => Number(match[0])).filter(year => year >= 2000 && year <= currentYear + 1);
+    if (years.length === 0 || years.some(year => year >= currentYear)) return [];
+    return Array.from(new Set(years));
+};
+
+const yearSignals = (page: PageSnapshot, currentYear: number): DecaySignal[] => {
+    const inTitle = outdatedYears(page.title || '', currentYear);
+    if (inTitle.length > 0) {
+        return [{ type: 'outdated-year', points: 40, detail: `Title mentions ${inTitle.join(', ')}: "${page.title}"` }];
+    }
+    const heading = page.headings.find(h => outdatedYears(h.text, currentYear).length > 0);
+    if (!heading) return [];
+    return [{ type: 'outdated-year', points: 20, detail: `H${heading.level} mentions ${outdatedYears(heading.text, currentYear).join(', ')}: "${heading.text}"` }];
+};
+
+const clickSignal = (trend: GscClickTrend | undefined): DecaySignal[] => {
+    if (!trend || trend.previousClicks < MIN_PREVIOUS_CLICKS) return [];
+    const change = (trend.recentClicks - trend.previousClicks) / trend.previousClicks;
+    if (change > -0.3) return [];
+    return [{
+        type: 'click-decline',
+        points: change <= -0.5 ? 40 : 25,
+        detail: `GSC clicks down ${Math.round(-change * 100)}% (${trend.previousClicks} → ${trend.recentClicks} over 90 days)`,
+    }];
+};
+
+/**
+ * Scores every analyzed page for decay from evidence rather than its URL: the age of its sitemap lastmod,
+ * of the dates the page states, and of its schema dateModified; past years in its title or headings; and a
+ * drop in Search Console clicks when connected. A recent date from any of the page's own sources (stated
+ * date or schema) outweighs a stale lastmod, so that signal is dropped. Pages below the action score are left out.
+ */
+export const scoreContentDecay = (entries: SitemapEntry[], snapshots: PageSnapshot[], options: DecayOptions): DecayAssessment[] => {
+    const keyOf = (url: string) => normalizeUrl(url, options.urlNormalization);
+    const snapshotsByKey = new Map(snapshots.filter(page => !page.error).map(page => [keyOf(page.url), page]));
+    const trendsByKey = new Map(Array.from(options.clickTrends || [], ([url, trend]) => [keyOf(url), trend]));
+    const currentYear = options.now.getFullYear();
+
+    return entries
+        .map((entry): DecayAssessment => {
+            const page = snapshotsByKey.get(keyOf(entry.loc));
+            const lastmod = entry.lastmod && !Number.isNaN(Date.parse(entry.lastmod)) ? new Date(entry.lastmod).toISOString().slice(0, 10) : undefined;
+            const statedDate = page?.contentDates[page.contentDates.length - 1];
+            const pageDates = [statedDate, page?.schemaDateModified].filter((date): date is string => !!date);
+            const recentPageDate = pageDates.some(date => monthsSince(date, options.now) <= 12);
+
+            const signals = [
+                ...(recentPageDate ? [] : dateSignal('stale-lastmod', 'Sitemap lastmod', lastmod, options.now, 0.75)),
+                ...dateSignal('stale-content-date', 'Latest date stated on the page', statedDate, options.now, 1),
+                ...dateSignal('stale-schema-date', 'Schema dateModified', page?.schemaDateModified, options.now, 1),
+                ...(page ? yearSignals(page, currentYear) : []),
+                ...clickSignal(trendsByKey.get(keyOf(entry.loc))),
+            ].sort((a, b) => b.points - a.points);
+
+            return {
+                url: entry.loc,
+                score: Math.min(100, signals.reduce((sum, signal) => sum + signal.points, 0)),
+                lastUpdated: [lastmod, ...pageDates].filter((date): date is string => !!date).sort().pop(),
+                signals,
+            };
+        })
+        .filter(assessment => assessment.score >= DECAY_ACTION_SCORE)
+        .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * One refresh action per decaying page, with the measured reasons as evidence.
+ */
+export const buildDecayPageActions = (assessments: DecayAssessment[]): PageAction[] =>
+    assessments.map(assessment => ({
+        url: assessment.url,
+        priority: assessment.score >= HIGH_PRIORITY_SCORE ? 'high' : 'medium',
+        source: 'decay',
+        rewriteDetails: {
+            reason: `Decay risk ${assessment.score}/100: ${assessment.signals.map(signal => signal.detail).join('; ')}.`,
+            evidence: assessment.lastUpdated ? `Last updated ${assessment.lastUpdated} according to its most recent source.` : 'No update date found in the sitemap, page or schema.',
+            suggestedHeadline: 'Refresh facts, dates and examples, then update the visible date, schema dateModified and sitemap lastmod',
+            action: 'refresh',
+            owner: 'content',
+        },
+    }));
+
+/**
+ * Adds the decay actions to the model's page actions. The model's own decay calls were guessed from
+ * the URL and title alone, so they are dropped (keeping any optimization tasks as analysis actions).
+ */
+export const mergeDecayPageActions = (actions: PageAction[], decayActions: PageAction[]): PageAction[] => {
+    const aiActions = actions
+        .map(action => action.source === 'decay' ? { ...action, source: 'analysis' as const, rewriteDetails: undefined } : action)
+        .filter(action => action.rewriteDetails || (action.optimizationTasks && action.optimizationTasks.length > 0));
+    return [...decayActions, ...aiActions];
+};
@@ -0,0 +1,202 @@
+import type { ContentMetrics, KeywordUsage, PageAction, PageSnapshot, ReadabilityFormula, UrlNormalizationRules } from '../types';
+import { normalizeUrl } from './urlNormalization';
+
+// Readability formulas are meaningless on a few lines of text
+const MIN_READABILITY_WORDS = 100;
+// A phrase must recur this often in the body to count as what the page is about
+const MIN_KEYWORD_OCCURRENCES = 3;
+const MIN_KEYWORD_LENGTH = 4;
+
+// Scripts written without spaces between words, where word and sentence counts mean nothing
+const UNSPACED_LANGUAGES = new Set(['zh', 'ja', 'ko', 'th', 'lo', 'km', 'my']);
+
+const VOWEL_GROUPS: Record<string, RegExp> = {
+    en: /[aeiouy]+/g,
+    de: /[aeiouyäöü]+/g,
+    es: /[aeiouáéíóúü]+/g,
+};
+
+const STOPWORDS = new Set([
+    // English
+    'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'could', 'do', 'does',
+    'each', 'for', 'from', 'get', 'has', 'have', 'how', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'more', 'most', 'much', 'my', 'no',
+    'not', 'of', 'on', 'one', 'only', 'or', 'other', 'our', 'out', 'over', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'them',
+    'then', 'there', 'these', 'they', 'this', 'those', 'to', 'up', 'us', 'use', 'very', 'was', 'we', 'were', 'what', 'when', 'where',
+    'which', 'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+    // German
+    'aber', 'als', 'am', 'auch', 'auf', 'aus', 'bei', 'bis', 'das', 'dass', 'dem', 'den', 'der', 'des', 'die', 'ein', 'eine', 'einem',
+    'einen', 'einer', 'es', 'für', 'hat', 'ich', 'ihr', 'im', 'ist', 'mit', 'nach', 'nicht', 'noch', 'oder', 'sich', 'sie', 'sind',
+    'so', 'um', 'und', 'uns', 'von', 'vor', 'war', 'was', 'wie', 'wir', 'wird', 'zu', 'zum', 'zur',
+    // Spanish
+    'al', 'como', 'con', 'de', 'del', 'el', 'en', 'es', 'esta', 'este', 'la', 'las', 'lo', 'los', 'más', 'para', 'pero', 'por', 'que',
+    'se', 'sin', 'su', 'sus', 'un', 'una', 'y',
+    // French
+    'au', 'aux', 'avec', 'ce', 'ces', 'dans', 'des', 'du', 'elle', 'est', 'et', 'il', 'le', 'les', 'leur', 'mais', 'ne', 'nous', 'ou',
+    'par', 'pas', 'plus', 'pour', 'qui', 'sa', 'ses', 'son', 'sur', 'une', 'vous',
+]);
+
+export interface ContentMetricsInput {
+    bodyText: string;
+    blocks: string[];           // Text of each paragraph and list item, in document order
+    title?: string;
+    h1?: string;
+    subheadingCount: number;
+    language?: string;          // <html lang>
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const tokenize = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu) || [];
+
+const splitSentences = (text: string): string[] =>
+    text.split(/(?<=[.!?…])\s+/).map(sentence => sentence.trim()).filter(sentence => tokenize(sentence).length > 0);
+
+// Vowel groups, less a silent final English "e"; good enough for averages over a page
+const countSyllables = (word: string, language: string): number => {
+    const groups = word.match(VOWEL_GROUPS[language] || VOWEL_GROUPS.en)?.length || 0;
+    const silentE = language === 'en' && /[^aeiouy]e$/.test(word) && !/[^aeiouy]le$/.test(word) && groups > 1 ? 1 : 0;
+    return Math.max(1, groups - silentE);
+};
+
+/**
+ * The readability score in the formula suited to the language: Flesch-Kincaid grade for English,
+ * the first Wiener Sachtextformel for German and Crawford for Spanish (all school grades), and
+ * LIX, which works on word length alone, for every other language.
+ */
+const scoreReadability = (words: string[], sentenceCount: number, language: string): { formula: ReadabilityFormula; score: number } => {
+    const wordsPerSentence = words.length / sentenceCount;
+    const syllables = words.map(word => countSyllables(word, language));
+    const totalSyllables = syllables.reduce((sum, count) => sum + count, 0);
+    const share = (count: number) => (count / words.length) * 100;
+    const longWords = words.filter(word => word.length > 6).length;
+
+    if (language === 'en') {
+        return { formula: 'flesch-kincaid', score: round(0.39 * wordsPerSentence + 11.8 * (totalSyllables / words.length) - 15.59) };
+    }
+    if (language === 'de') {
+        const polysyllabic = share(syllables.filter(count => count >= 3).length);
+        const monosyllabic = share(syllables.filter(count => count === 1).length);
+        return { formula: 'wiener-sachtextformel', score: round(0.1935 * polysyllabic + 0.1672 * wordsPerSentence + 0.1297 * share(longWords) - 0.0327 * monosyllabic - 0.875) };
+    }
+    if (language === 'es') {
+        return { formula: 'crawford', score: round(-20.5 * share(sentenceCount) + 4.9 * share(totalSyllables) - 3.407) };
+    }
+    return { formula: 'lix', score: round(wordsPerSentence + share(longWords)) };
+};
+
+const containsPhrase = (text: string | undefined, phrase: string): boolean =>
+    !!text && ` ${tokenize(text).join(' ')} `.includes(` ${phrase} `);
+
+const isKeywordToken = (token: string) => !STOPWORDS.has(token) && !/^\d+$/.test(token);
+
+/**
+ * The phrase the body text repeats most: a two-word phrase when one recurs, else a single word.
+ * Comparing it with the title and H1 shows whether the page is focused on what it says it's about.
+ */
+const findPrimaryKeyword = (tokens: string[], input: ContentMetricsInput, firstParagraph: string | undefined): KeywordUsage | undefined => {
+    const bigrams = new Map<string, number>();
+    const unigrams = new Map<string, number>();
+    tokens.forEach((token, index) => {
+        if (!isKeywordToken(token)) return;
+        if (token.length >= MIN_KEYWORD_LENGTH) unigrams.set(token, (unigrams.get(token) || 0) + 1);
+        const next = tokens[index + 1];
+        if (next && isKeywordToken(next)) {
+            const bigram = `${token} ${next}`;
+            bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+        }
+    });
+
+    const top = (counts: Map<string, number>) => Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+    const [phrase, occurrences] = [top(bigrams), top(unigrams)].find(entry => entry && entry[1] >= MIN_KEYWORD_OCCURRENCES) || [];
+    if (!phrase || !occurrences) return undefined;
+
+    return {
+        phrase,
+        occurrences,
+        density: round(((occurrences * phrase.split(' ').length) / tokens.length) * 100),
+        inTitle: containsPhrase(input.title, phrase),
+        inH1: containsPhrase(input.h1, phrase),
+        inFirstParagraph: containsPhrase(firstParagraph, phrase),
+    };
+};
+
+/**
+ * Measures what a writer can act on: length, readability, sentence length spread, how often the text
+ * is broken up by subheadings, and whether the page's most repeated phrase is in its title, H1 and
+ * opening paragraph.
+ */
+export const computeContentMetrics = (input: ContentMetricsInput): ContentMetrics => {
+    const language = (input.language || 'en').toLowerCase().split('-')[0];
+    const tokens = tokenize(input.bodyText);
+    const spaced = !UNSPACED_LANGUAGES.has(language);
+
+    // Paragraphs end sentences even without punctuation; fall back to the whole text on pages without them
+    const sentences = (input.blocks.length > 0 ? input.blocks : [input.bodyText]).flatMap(splitSentences);
+    const sentenceWords = sentences.map(sentence => tokenize(sentence).length);
+    const sentenceLengths = { short: 0, medium: 0, long: 0, veryLong: 0 };
+    sentenceWords.forEach(count => {
+        if (count <= 10) sentenceLengths.short++;
+        else if (count <= 20) sentenceLengths.medium++;
+        else if (count <= 30) sentenceLengths.long++;
+        else sentenceLengths.veryLong++;
+    });
+    const sentenceTokens = sentences.flatMap(tokenize);
+    const firstParagraph = input.blocks.find(block => tokenize(block).length >= 8);
+
+    return {
+        wordCount: tokens.length,
+        language,
+        readability: spaced && sentenceTokens.length >= MIN_READABILITY_WORDS
+            ? scoreReadability(sentenceTokens, sentences.length, language)
+            : null,
+        sentenceCount: sentences.length,
+        averageSentenceLength: sentences.length > 0 ? round(sentenceTokens.length / sentences.length) : 0,
+        sentenceLengths,
+        subheadingCount: input.subheadingCount,
+        wordsPerSubheading: input.subheadingCount > 0 ? Math.round(tokens.length / input.subheadingCount) : null,
+        primaryKeyword: spaced ? findPrimaryKeyword(tokens, input, firstParagraph) : undefined,
+    };
+};
+
+const READABILITY_LABELS: Record<ReadabilityFormula, string> = {
+    'flesch-kincaid': 'Flesch-Kincaid grade',
+    'wiener-sachtextformel': 'Wiener Sachtextformel grade',
+    'crawford': 'Crawford grade',
+    'lix': 'LIX',
+};
+
+export const readabilityLabel = (formula: ReadabilityFormula) => READABILITY_LABELS[formula];
+
+/**
+ * The metrics as one line each, for the action plan prompt and the report.
+ */
+export const describeContentMetrics = (metrics: ContentMetrics): string[] => {
+    const { sentenceLengths, primaryKeyword } = metrics;
+    const yesNo = (value: boolean) => value ? 'yes' : 'no';
+    return [
+        `Words: ${metrics.wordCount}`,
+        metrics.readability && `Readability: ${readabilityLabel(metrics.readability.formula)} ${metrics.readability.score}`,
+        `Sentences: ${metrics.sentenceCount}, average ${metrics.averageSentenceLength} words (≤10: ${sentenceLengths.short}, 11-20: ${sentenceLengths.medium}, 21-30: ${sentenceLengths.long}, >30: ${sentenceLengths.veryLong})`,
+        `Subheadings: ${metrics.subheadingCount}${metrics.wordsPerSubheading !== null ? `, one per ${metrics.wordsPerSubheading} words` : ''}`,
+        primaryKeyword
+            ? `Primary keyword "${primaryKeyword.phrase}": ${primaryKeyword.occurrences} uses (${primaryKeyword.density}%), in title: ${yesNo(primaryKeyword.inTitle)}, in H1: ${yesNo(primaryKeyword.inH1)}, in first paragraph: ${yesNo(primaryKeyword.inFirstParagraph)}`
+            : 'Primary keyword: no phrase recurs often enough to be the focus',
+    ].filter((line): line is string => !!line);
+};
+
+/**
+ * Gives each page action the measured metrics of its fetched page. Actions for pages that weren't
+ * fetched are left as they are.
+ */
+export const attachContentMetrics = (actions: PageAction[], snapshots: PageSnapshot[], rules: UrlNormalizationRules): PageAction[] => {
+    const metricsByUrl = new Map<string, ContentMetrics>();
+    snapshots.forEach(page => {
+        if (!page.contentMetrics) return;
+        metricsByUrl.set(normalizeUrl(page.url, rules), page.contentMetrics);
+        metricsByUrl.set(normalizeUrl(page.finalUrl, rules), page.contentMetrics);
+    });
+    return actions.map(action => {
+        const contentMetrics = metricsByUrl.get(normalizeUrl(action.url, rules));
+        return contentMetrics ? { ...action, contentMetrics } : action;
+    });
+};
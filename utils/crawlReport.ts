@@ -0,0 +1,32 @@
+import type { SitemapDiagnostic, SitemapFetchOutcome } from '../types';
+
+export const OUTCOME_LABELS: Record<SitemapFetchOutcome, string> = {
+    'ok': 'OK',
+    'empty': 'Empty',
+    'parse-error': 'Parse error',
+    'http-error': 'HTTP error',
+    'proxy-failure': 'Proxy failure',
+    'timeout': 'Timed out',
+    'aborted': 'Stopped',
+    'skipped': 'Skipped',
+};
+
+export const isFailedOutcome = (outcome: SitemapFetchOutcome): boolean => outcome !== 'ok';
+
+/**
+ * Counts diagnostics per outcome, most frequent first; outcomes that never occurred are omitted.
+ */
+export const countOutcomes = (sitemaps: SitemapDiagnostic[]): { outcome: SitemapFetchOutcome, count: number }[] => {
+    const counts = new Map<SitemapFetchOutcome, number>();
+    sitemaps.forEach(s => counts.set(s.outcome, (counts.get(s.outcome) || 0) + 1));
+    return Array.from(counts.entries())
+        .map(([outcome, count]) => ({ outcome, count }))
+        .sort((a, b) => b.count - a.count);
+};
+
+export const formatBytes = (bytes: number | undefined): string => {
+    if (bytes === undefined) return '—';
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
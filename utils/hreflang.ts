@@ -0,0 +1,289 @@
+import type { AuditFinding, HreflangAlternate, HreflangAudit, HreflangCluster, HreflangClusterMember, HreflangIssue, HreflangIssueType, PageSnapshot, SitemapEntry, UrlNormalizationRules, UrlStatusCheck } from '../types';
+import { normalizeUrl } from './urlNormalization';
+
+const MAX_EXAMPLES = 10;
+
+// ISO 639-1. Three-letter ISO 639-2/3 codes are accepted without a lookup.
+const LANGUAGES = new Set((
+    'aa ab ae af ak am an ar as av ay az ba be bg bh bi bm bn bo br bs ca ce ch co cr cs cu cv cy da de dv dz ee el en eo es et eu ' +
+    'fa ff fi fj fo fr fy ga gd gl gn gu gv ha he hi ho hr ht hu hy hz ia id ie ig ii ik io is it iu ja jv ka kg ki kj kk kl km kn ko ' +
+    'kr ks ku kv kw ky la lb lg li ln lo lt lu lv mg mh mi mk ml mn mr ms mt my na nb nd ne ng nl nn no nr nv ny oc oj om or os pa pi ' +
+    'pl ps pt qu rm rn ro ru rw sa sc sd se sg si sk sl sm sn so sq sr ss st su sv sw ta te tg th ti tk tl tn to tr ts tt tw ty ug uk ' +
+    'ur uz ve vi vo wa wo xh yi yo za zh zu'
+).split(' '));
+
+// ISO 3166-1 alpha-2. Three-digit UN M.49 areas such as 419 (Latin America) are accepted as well.
+const REGIONS = new Set((
+    'ad ae af ag ai al am ao aq ar as at au aw ax az ba bb bd be bf bg bh bi bj bl bm bn bo bq br bs bt bv bw by bz ca cc cd cf cg ch ' +
+    'ci ck cl cm cn co cr cu cv cw cx cy cz de dj dk dm do dz ec ee eg eh er es et fi fj fk fm fo fr ga gb gd ge gf gg gh gi gl gm gn ' +
+    'gp gq gr gs gt gu gw gy hk hm hn hr ht hu id ie il im in io iq ir is it je jm jo jp ke kg kh ki km kn kp kr kw ky kz la lb lc li ' +
+    'lk lr ls lt lu lv ly ma mc md me mf mg mh mk ml mm mn mo mp mq mr ms mt mu mv mw mx my mz na nc ne nf ng ni nl no np nr nu nz om ' +
+    'pa pe pf pg ph pk pl pm pn pr ps pt pw py qa re ro rs ru rw sa sb sc sd se sg sh si sj sk sl sm sn so sr ss st sv sx sy sz tc td ' +
+    'tf tg th tj tk tl tm tn to tr tt tv tw tz ua ug um us uy uz va vc ve vg vi vn vu wf ws ye yt za zm zw'
+).split(' '));
+
+// Country codes commonly written where a language code belongs, and retired codes
+const LANGUAGE_HINTS: Record<string, string> = { jp: 'ja', cn: 'zh', dk: 'da', gr: 'el', cz: 'cs', ua: 'uk', iw: 'he', in: 'id', ji: 'yi' };
+const REGION_HINTS: Record<string, string> = { uk: 'GB' };
+
+export const HREFLANG_ISSUES: HreflangIssueType[] = [
+    'invalid-code', 'conflicting-alternates', 'missing-return-link', 'non-200-target', 'non-canonical-target', 'missing-self-reference', 'missing-x-default',
+];
+
+const ISSUE_DETAILS: Record<HreflangIssueType, { title: (count: number) => string; priority: AuditFinding['priority']; description: string }> = {
+    'invalid-code': {
+        title: count => `Correct ${count} invalid hreflang code${count === 1 ? '' : 's'}`,
+        priority: 'high',
+        description: 'hreflang values must be an ISO 639-1 language code, optionally followed by a hyphen and an ISO 3166-1 region code (e.g. en, en-GB, pt-BR), or x-default. Search engines ignore alternates with any other value.',
+    },
+    'conflicting-alternates': {
+        title: count => `Resolve ${count} conflicting hreflang annotation${count === 1 ? '' : 's'}`,
+        priority: 'high',
+        description: 'Pages in the same language cluster disagree: one code points at two URLs, the sitemap and the page tags differ, or pages label the same URL with different codes. Search engines drop ambiguous annotations; keep a single, identical set on every member.',
+    },
+    'missing-return-link': {
+        title: count => `Add ${count} missing hreflang return link${count === 1 ? '' : 's'}`,
+        priority: 'high',
+        description: 'hreflang annotations must be reciprocal: if page A lists page B as an alternate, B must list A. Search engines ignore one-way annotations.',
+    },
+    'non-200-target': {
+        title: count => `Point ${count} hreflang alternate${count === 1 ? '' : 's'} at live URLs`,
+        priority: 'high',
+        description: 'These alternates redirect or return an error. hreflang must point at the final URL that answers 200; update the annotations wherever they appear.',
+    },
+    'non-canonical-target': {
+        title: count => `Point ${count} hreflang alternate${count === 1 ? '' : 's'} at canonical URLs`,
+        priority: 'medium',
+        description: 'These alternates declare a different canonical URL. hreflang and canonical signals then contradict each other and the alternate is usually ignored; reference the canonical URL instead.',
+    },
+    'missing-self-reference': {
+        title: count => `Add a self-referencing hreflang to ${count} page${count === 1 ? '' : 's'}`,
+        priority: 'low',
+        description: 'Each page should list itself among its own alternates, with its own language code, next to the other versions.',
+    },
+    'missing-x-default': {
+        title: count => `Add x-default to ${count} hreflang cluster${count === 1 ? '' : 's'}`,
+        priority: 'low',
+        description: 'No member declares an x-default alternate, so visitors whose language matches none of the versions get whichever one search engines pick. Point x-default at the language selector or the main version.',
+    },
+};
+
+/**
+ * Checks an hreflang value's syntax and subtags. Returns why it is invalid, or undefined when it is valid.
+ */
+export const validateHreflangCode = (code: string): string | undefined => {
+    const value = code.trim();
+    if (value.toLowerCase() === 'x-default') return undefined;
+    if (value.includes('_')) return `${value}: use a hyphen, not an underscore (${value.replace(/_/g, '-')})`;
+    const [language, ...rest] = value.toLowerCase().split('-');
+    if (!/^[a-z]{2,3}$/.test(language)) return `${value}: "${language}" is not a language code`;
+    if (language.length === 2 && !LANGUAGES.has(language)) {
+        const hint = LANGUAGE_HINTS[language];
+        return `${value}: "${language}" is not a language code${hint ? ` (use ${hint})` : ''}`;
+    }
+    const subtags = rest[0] && /^[a-z]{4}$/.test(rest[0]) ? rest.slice(1) : rest; // Optional script, e.g. zh-Hant-TW
+    if (subtags.length === 0) return undefined;
+    const [region] = subtags;
+    if (subtags.length > 1) return `${value}: only language, script and region subtags are allowed`;
+    if (/^\d{3}$/.test(region)) return undefined;
+    if (!REGIONS.has(region)) {
+        const hint = REGION_HINTS[region];
+        return `${value}: ${region.toUpperCase()} is not a region code${hint ? ` (use ${hint})` : ''}`;
+    }
+    return undefined;
+};
+
+interface Declaration {
+    url: string;
+    alternates: HreflangAlternate[];
+}
+
+export interface HreflangAuditOptions {
+    urlNormalization: UrlNormalizationRules;
+    statusChecks: UrlStatusCheck[];   // The analyzed URLs plus the alternates checked for this audit
+}
+
+const isFetched = (snapshot: PageSnapshot) => !snapshot.error && snapshot.status >= 200 && snapshot.status < 300;
+
+/**
+ * Alternate URLs the annotations reference that have no status check yet, in first-seen order.
+ */
+export const collectHreflangTargets = (
+    entries: SitemapEntry[],
+    snapshots: PageSnapshot[],
+    checked: UrlStatusCheck[],
+    urlNormalization: UrlNormalizationRules
+): string[] => {
+    const seen = new Set(checked.map(check => normalizeUrl(check.url, urlNormalization)));
+    const targets: string[] = [];
+    const alternates = [...entries.flatMap(entry => entry.alternates || []), ...snapshots.filter(isFetched).flatMap(snapshot => snapshot.hreflang)];
+    alternates.forEach(({ href }) => {
+        const key = normalizeUrl(href, urlNormalization);
+        if (seen.has(key)) return;
+        seen.add(key);
+        targets.push(href);
+    });
+    return targets;
+};
+
+/**
+ * Groups URLs joined by hreflang annotations into clusters and checks them. Annotations come from the
+ * sitemap's xhtml:link entries and the fetched pages' <link rel="alternate"> tags; a URL's own annotations
+ * are known when the page was fetched or the sitemap declares alternates for it. Return links are only
+ * required of URLs whose annotations are known, status only judged where a check reached the URL, and
+ * canonicals only where the page was fetched.
+ */
+export const auditHreflang = (entries: SitemapEntry[], snapshots: PageSnapshot[], options: HreflangAuditOptions): HreflangAudit => {
+    const keyOf = (url: string) => normalizeUrl(url, options.urlNormalization);
+    const displayUrls = new Map<string, string>();
+    const register = (url: string) => {
+        const key = keyOf(url);
+        if (!displayUrls.has(key)) displayUrls.set(key, url);
+        return key;
+    };
+    const issues = new Map<string, HreflangIssue[]>(); // Keyed by the URL at fault, assigned to clusters below
+    const addIssue = (key: string, type: HreflangIssueType, detail: string) => {
+        const list = issues.get(key) || [];
+        if (!list.some(issue => issue.type === type && issue.detail === detail)) list.push({ type, url: displayUrls.get(key)!, detail });
+        issues.set(key, list);
+    };
+
+    // Sitemap and page annotations for the same URL are combined; a code they send to different URLs conflicts
+    const declarations = new Map<string, Declaration>();
+    const declare = (url: string, alternates: HreflangAlternate[], source: string) => {
+        const key = register(url);
+        const declaration = declarations.get(key) || { url: displayUrls.get(key)!, alternates: [] };
+        alternates.forEach(alternate => {
+            const code = alternate.hreflang.trim().toLowerCase();
+            const targetKey = register(alternate.href);
+            const existing = declaration.alternates.find(a => a.hreflang.toLowerCase() === code);
+            if (!existing) {
+                declaration.alternates.push({ hreflang: alternate.hreflang.trim(), href: displayUrls.get(targetKey)! });
+            } else if (keyOf(existing.href) !== targetKey) {
+                addIssue(key, 'conflicting-alternates', `${alternate.hreflang} → ${existing.href} and ${alternate.href} (${source})`);
+            }
+        });
+        declarations.set(key, declaration);
+    };
+    entries.filter(entry => entry.alternates?.length).forEach(entry => declare(entry.loc, entry.alternates!, 'sitemap'));
+    const canonicals = new Map<string, string>();
+    snapshots.filter(isFetched).forEach(snapshot => {
+        declare(snapshot.url, snapshot.hreflang, 'page tags');
+        if (snapshot.canonical) canonicals.set(keyOf(snapshot.url), snapshot.canonical);
+    });
+
+    // Union-find over declaring URLs and their targets
+    const parent = new Map<string, string>();
+    const find = (key: string): string => {
+        if (!parent.has(key)) parent.set(key, key);
+        let root = key;
+        while (parent.get(root) !== root) root = parent.get(root)!;
+        parent.set(key, root);
+        return root;
+    };
+    const union = (a: string, b: string) => parent.set(find(a), find(b));
+    declarations.forEach((declaration, key) => {
+        if (declaration.alternates.length === 0) return;
+        find(key);
+        declaration.alternates.forEach(alternate => union(key, keyOf(alternate.href)));
+    });
+
+    const statusByKey = new Map(options.statusChecks.map(check => [keyOf(check.url), check]));
+    const components = new Map<string, string[]>();
+    parent.forEach((_, key) => {
+        const root = find(key);
+        components.set(root, [...(components.get(root) || []), key]);
+    });
+
+    const clusters: HreflangCluster[] = Array.from(components.values()).map(keys => {
+        const codesByTarget = new Map<string, Map<string, string[]>>(); // target → code → declaring URLs
+        let hasXDefault = false;
+
+        keys.forEach(key => {
+            const declaration = declarations.get(key);
+            if (!declaration || declaration.alternates.length === 0) return;
+            if (!declaration.alternates.some(a => keyOf(a.href) === key)) {
+                addIssue(key, 'missing-self-reference', `Lists ${declaration.alternates.length} alternate${declaration.alternates.length === 1 ? '' : 's'}, none of them itself`);
+            }
+            declaration.alternates.forEach(alternate => {
+                const code = alternate.hreflang;
+                const targetKey = keyOf(alternate.href);
+                const invalid = validateHreflangCode(code);
+                if (invalid) addIssue(key, 'invalid-code', invalid);
+                if (code.toLowerCase() === 'x-default') hasXDefault = true;
+
+                const codes = codesByTarget.get(targetKey) || new Map<string, string[]>();
+                if (code.toLowerCase() !== 'x-default') codes.set(code, [...(codes.get(code) || []), declaration.url]);
+                codesByTarget.set(targetKey, codes);
+
+                if (targetKey === key) return;
+                const targetDeclaration = declarations.get(targetKey);
+                if (targetDeclaration && !targetDeclaration.alternates.some(a => keyOf(a.href) === key)) {
+                    addIssue(targetKey, 'missing-return-link', `No alternate back to ${declaration.url}, which lists it as ${code}`);
+                }
+                const check = statusByKey.get(targetKey);
+                if (check && check.status !== 0 && (check.status !== 200 || check.redirectChain.length > 0)) {
+                    const outcome = check.redirectChain.length > 0 ? `redirects to ${check.finalUrl} (${check.status})` : `answers ${check.status}`;
+                    addIssue(key, 'non-200-target', `${code} → ${alternate.href} ${outcome}`);
+                }
+                const canonical = canonicals.get(targetKey);
+                if (canonical && keyOf(canonical) !== targetKey) {
+                    addIssue(key, 'non-canonical-target', `${code} → ${alternate.href}, whose canonical is ${canonical}`);
+                }
+            });
+        });
+
+        // Every member should be labelled with one code; different labels mean the versions disagree
+        codesByTarget.forEach((codes, targetKey) => {
+            const distinct = Array.from(codes.keys()).filter((code, i, all) => all.findIndex(c => c.toLowerCase() === code.toLowerCase()) === i);
+            if (distinct.length < 2) return;
+            addIssue(targetKey, 'conflicting-alternates', `Labelled ${distinct.map(code => `${code} by ${codes.get(code)!.join(', ')}`).join('; ')}`);
+        });
+
+        const firstDeclaring = keys.find(key => declarations.get(key)?.alternates.length);
+        if (!hasXDefault && firstDeclaring) {
+            addIssue(firstDeclaring, 'missing-x-default', `None of the ${keys.length} URLs in this cluster declares x-default`);
+        }
+
+        const members: HreflangClusterMember[] = keys.map(key => ({
+            url: displayUrls.get(key)!,
+            hreflang: Array.from(codesByTarget.get(key)?.keys() || []),
+            status: statusByKey.get(key)?.status || undefined,
+            declared: declarations.has(key),
+        }));
+        return { members, hasXDefault, issues: keys.flatMap(key => issues.get(key) || []) };
+    });
+
+    const counts = Object.fromEntries(HREFLANG_ISSUES.map(type => [type, 0])) as Record<HreflangIssueType, number>;
+    clusters.forEach(cluster => cluster.issues.forEach(issue => counts[issue.type]++));
+
+    return {
+        clustersFound: clusters.length,
+        urlsAnnotated: Array.from(declarations.values()).filter(declaration => declaration.alternates.length > 0).length,
+        targetsChecked: Array.from(parent.keys()).filter(key => statusByKey.get(key)?.status).length,
+        counts,
+        clusters: clusters.sort((a, b) => b.issues.length - a.issues.length),
+    };
+};
+
+/**
+ * One finding per issue type found, most severe first, with the URLs at fault and what was measured.
+ */
+export const buildHreflangFindings = (audit: HreflangAudit): AuditFinding[] => {
+    const allIssues = audit.clusters.flatMap(cluster => cluster.issues);
+    return HREFLANG_ISSUES.flatMap(type => {
+        const found = allIssues.filter(issue => issue.type === type);
+        if (found.length === 0) return [];
+        const details = ISSUE_DETAILS[type];
+        const examples = found.slice(0, MAX_EXAMPLES).map(issue => `${issue.url}: ${issue.detail}`);
+        return [{
+            id: `hreflang-${type}`,
+            category: 'hreflang' as const,
+            title: details.title(found.length),
+            priority: details.priority,
+            description: details.description,
+            affectedUrls: Array.from(new Set(found.map(issue => issue.url))),
+            evidence: found.length > examples.length ? [...examples, `...and ${(found.length - examples.length).toLocaleString()} more`] : examples,
+        }];
+    });
+};
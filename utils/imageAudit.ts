@@ -0,0 +1,82 @@
+import type { ImageAudit, ImageIssue, PageImage, PageImageAudit, PageSnapshot } from '../types';
+
+// The first few images in the document are likely above the fold, where lazy-loading delays the paint
+export const EAGER_IMAGE_COUNT = 3;
+// Well above what a compressed content image needs; hero images rarely need more either
+export const MAX_IMAGE_BYTES = 200 * 1024;
+const MAX_EXAMPLES_PER_ISSUE = 5;
+
+const LEGACY_FORMATS = new Set(['jpg', 'jpeg', 'png', 'gif', 'bmp', 'tif', 'tiff']);
+
+export const IMAGE_ISSUES: ImageIssue[] = ['missing-alt', 'empty-alt', 'missing-dimensions', 'not-lazy', 'legacy-format', 'oversized'];
+
+const imageFormat = (url: string): string | undefined => {
+    try {
+        return new URL(url).pathname.match(/\.(\w+)$/)?.[1].toLowerCase();
+    } catch (e) {
+        return undefined;
+    }
+};
+
+const isLegacyFormat = (image: PageImage): boolean => {
+    if (image.modernFormat || /image\/(webp|avif)/i.test(image.contentType || '')) return false;
+    const format = imageFormat(image.src);
+    return !!format && LEGACY_FORMATS.has(format);
+};
+
+const emptyCounts = (): Record<ImageIssue, number> =>
+    Object.fromEntries(IMAGE_ISSUES.map(issue => [issue, 0])) as Record<ImageIssue, number>;
+
+/**
+ * The images on one page with each issue. Lazy-loading is only expected of images after the first
+ * few, and file size only of images a HEAD request measured.
+ */
+export const findImageIssues = (page: PageSnapshot): Record<ImageIssue, PageImage[]> => ({
+    'missing-alt': page.images.filter(image => image.alt === null),
+    'empty-alt': page.images.filter(image => image.alt !== null && image.alt.trim() === ''),
+    'missing-dimensions': page.images.filter(image => !image.hasDimensions),
+    'not-lazy': page.images.slice(EAGER_IMAGE_COUNT).filter(image => !image.lazy),
+    'legacy-format': page.images.filter(isLegacyFormat),
+    'oversized': page.images.filter(image => image.bytes !== undefined && image.bytes > MAX_IMAGE_BYTES),
+});
+
+const isAuditable = (page: PageSnapshot) => !page.error && page.status >= 200 && page.status < 300;
+
+/**
+ * Summarizes the image issues of every fetched page. Site-wide counts are of distinct image URLs, so
+ * a logo repeated on every page counts once; per-page counts include every image on the page.
+ */
+export const auditImages = (snapshots: PageSnapshot[]): ImageAudit => {
+    const pages = snapshots.filter(isAuditable);
+    const offenders = Object.fromEntries(IMAGE_ISSUES.map(issue => [issue, new Set<string>()])) as Record<ImageIssue, Set<string>>;
+    const allImages = new Set<string>();
+    const sizedImages = new Set<string>();
+
+    const pageAudits: PageImageAudit[] = pages.map(page => {
+        page.images.forEach(image => {
+            allImages.add(image.src);
+            if (image.bytes !== undefined) sizedImages.add(image.src);
+        });
+        const issues = findImageIssues(page);
+        const counts = emptyCounts();
+        const examples = {} as Record<ImageIssue, string[]>;
+        IMAGE_ISSUES.forEach(issue => {
+            issues[issue].forEach(image => offenders[issue].add(image.src));
+            counts[issue] = issues[issue].length;
+            examples[issue] = issues[issue].slice(0, MAX_EXAMPLES_PER_ISSUE).map(image => image.src);
+        });
+        return { url: page.url, imageCount: page.images.length, counts, examples };
+    });
+
+    const issueTotal = (page: PageImageAudit) => IMAGE_ISSUES.reduce((sum, issue) => sum + page.counts[issue], 0);
+    const counts = emptyCounts();
+    IMAGE_ISSUES.forEach(issue => counts[issue] = offenders[issue].size);
+
+    return {
+        pagesAudited: pages.length,
+        imagesAudited: allImages.size,
+        imagesSized: sizedImages.size,
+        counts,
+        pages: pageAudits.filter(page => issueTotal(page) > 0).sort((a, b) => issueTotal(b) - issueTotal(a)),
+    };
+};
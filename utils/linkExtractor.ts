@@ -0,0 +1,80 @@
+export interface ExtractedLink {
+    url: string;          // Absolute URL, fragment removed
+    anchorText: string;
+    nofollow: boolean;
+}
+
+export interface ExtractedPageLinks {
+    links: ExtractedLink[];
+    noindex: boolean;     // <meta name="robots" content="noindex">
+    nofollow: boolean;    // <meta name="robots" content="nofollow">: links on the page should not be followed
+}
+
+// Files a link-following crawler should never request as pages
+const NON_HTML_EXTENSION = /\.(pdf|jpe?g|png|gif|webp|avif|svg|ico|bmp|tiff?|mp4|webm|mov|avi|mp3|wav|ogg|zip|gz|rar|7z|tar|exe|dmg|docx?|xlsx?|pptx?|csv|txt|xml|json|rss|atom|css|js|woff2?|ttf|eot)$/i;
+
+export const looksLikeHtmlPage = (url: string): boolean => {
+    try {
+        return !NON_HTML_EXTENSION.test(new URL(url).pathname);
+    } catch (e) {
+        return false;
+    }
+};
+
+/**
+ * Compares hosts ignoring a leading "www.", which sites routinely mix in internal links.
+ */
+export const isSameSite = (a: string, b: string): boolean => {
+    try {
+        const host = (url: string) => new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+        return host(a) === host(b);
+    } catch (e) {
+        return false;
+    }
+};
+
+/**
+ * Extracts every crawlable `<a href>` from an HTML document, resolved against the page URL
+ * (or its `<base href>`), together with the page's meta robots directives.
+ */
+export const extractPageLinks = (html: string, pageUrl: string, parser: DOMParser): ExtractedPageLinks => {
+    const doc = parser.parseFromString(html, 'text/html');
+
+    const metaRobots = Array.from(doc.querySelectorAll('meta[name="robots" i], meta[name="googlebot" i]'))
+        .map(meta => (meta.getAttribute('content') || '').toLowerCase())
+        .join(',');
+
+    let baseUrl = pageUrl;
+    const baseHref = doc.querySelector('base[href]')?.getAttribute('href');
+    if (baseHref) {
+        try {
+            baseUrl = new URL(baseHref, pageUrl).toString();
+        } catch (e) {
+            // Keep the page URL as base
+        }
+    }
+
+    const links: ExtractedLink[] = [];
+    doc.querySelectorAll('a[href]').forEach(anchor => {
+        const href = anchor.getAttribute('href')!.trim();
+        if (!href || /^(javascript|mailto|tel|data):/i.test(href) || href.startsWith('#')) return;
+        try {
+            const resolved = new URL(href, baseUrl);
+            if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') return;
+            resolved.hash = '';
+            links.push({
+                url: resolved.toString(),
+                anchorText: (anchor.textContent || anchor.getAttribute('aria-label') || anchor.querySelector('img')?.getAttribute('alt') || '').replace(/\s+/g, ' ').trim(),
+                nofollow: /\bnofollow\b/i.test(anchor.getAttribute('rel') || ''),
+            });
+        } catch (e) {
+            // Malformed href; browsers ignore these too
+        }
+    });
+
+    return {
+        links,
+        noindex: /\b(noindex|none)\b/.test(metaRobots),
+        nofollow: /\b(nofollow|none)\b/.test(metaRobots),
+    };
+};
@@ -0,0 +1,257 @@
+import type { AuditFinding, Edge, GraphData, LinkEdge, LinkGraphAnalysis, LinkGraphPage, Node, UrlNormalizationRules } from '../types';
+import { normalizeUrl } from './urlNormalization';
+
+const DAMPING = 0.85;
+const PAGERANK_ITERATIONS = 40;
+
+// The architecture graph is drawn as an SVG, so only the strongest pages fit
+const MAX_PILLARS = 5;
+const MAX_CLUSTER_NODES = 30;
+const MAX_ORPHAN_NODES = 8;
+const MAX_LABEL_LENGTH = 24;
+
+export interface LinkGraphOptions {
+    homepage: string;
+    sitemapUrls: string[];      // Empty when pages were discovered by following links, so none can be an orphan
+    complete: boolean;
+    crawlLimits: { maxPages: number; maxDepth: number };
+    urlNormalization: UrlNormalizationRules;
+}
+
+const addToSet = (map: Map<string, Set<string>>, key: string, value: string) => {
+    let set = map.get(key);
+    if (!set) {
+        set = new Set();
+        map.set(key, set);
+    }
+    set.add(value);
+};
+
+/**
+ * PageRank over followed links. Rank held by pages without followed outlinks is spread evenly, so the
+ * total stays 1 and crawl boundaries don't drain it.
+ */
+const computePageRank = (keys: string[], followedOut: Map<string, Set<string>>): Map<string, number> => {
+    const count = keys.length;
+    let rank = new Map(keys.map(key => [key, 1 / count]));
+    for (let i = 0; i < PAGERANK_ITERATIONS; i++) {
+        const next = new Map(keys.map(key => [key, (1 - DAMPING) / count]));
+        let danglingRank = 0;
+        keys.forEach(key => {
+            const targets = followedOut.get(key);
+            if (!targets || targets.size === 0) {
+                danglingRank += rank.get(key)!;
+                return;
+            }
+            const share = DAMPING * rank.get(key)! / targets.size;
+            targets.forEach(target => next.set(target, next.get(target)! + share));
+        });
+        const danglingShare = DAMPING * danglingRank / count;
+        keys.forEach(key => next.set(key, next.get(key)! + danglingShare));
+        rank = next;
+    }
+    return rank;
+};
+
+/**
+ * Builds per-URL link metrics from the links recorded on crawled pages: distinct inlinks and outlinks,
+ * click depth from the homepage, an internal PageRank-style authority score, and orphans (sitemap URLs
+ * no crawled page links to). URLs are compared after normalization; the sitemap's spelling is reported.
+ */
+export const analyzeLinkGraph = (links: LinkEdge[], options: LinkGraphOptions): LinkGraphAnalysis => {
+    const keyOf = (url: string) => normalizeUrl(url, options.urlNormalization);
+    const displayUrls = new Map<string, string>();
+    const register = (url: string) => {
+        const key = keyOf(url);
+        if (!displayUrls.has(key)) displayUrls.set(key, url);
+        return key;
+    };
+
+    const homeKey = register(options.homepage);
+    const sitemapKeys = new Set(options.sitemapUrls.map(register));
+    const inlinks = new Map<string, Set<string>>();
+    const outlinks = new Map<string, Set<string>>();
+    const followedOut = new Map<string, Set<string>>();
+    const crawled = new Set<string>();
+    let linkCount = 0;
+
+    links.forEach(link => {
+        const from = register(link.from);
+        const to = register(link.to);
+        crawled.add(from);
+        if (from === to) return;
+        if (!outlinks.get(from)?.has(to)) linkCount++;
+        addToSet(outlinks, from, to);
+        addToSet(inlinks, to, from);
+        if (!link.nofollow) addToSet(followedOut, from, to);
+    });
+
+    // Click depth: breadth-first from the homepage along followed links
+    const depths = new Map<string, number>([[homeKey, 0]]);
+    let frontier = [homeKey];
+    while (frontier.length > 0) {
+        const next: string[] = [];
+        frontier.forEach(key => followedOut.get(key)?.forEach(target => {
+            if (depths.has(target)) return;
+            depths.set(target, depths.get(key)! + 1);
+            next.push(target);
+        }));
+        frontier = next;
+    }
+
+    const keys = Array.from(displayUrls.keys());
+    const rank = computePageRank(keys, followedOut);
+    const maxRank = Math.max(...Array.from(rank.values()));
+
+    const pages: LinkGraphPage[] = keys.map(key => {
+        const inlinkCount = inlinks.get(key)?.size || 0;
+        return {
+            url: displayUrls.get(key)!,
+            inlinks: inlinkCount,
+            outlinks: outlinks.get(key)?.size || 0,
+            depth: depths.get(key) ?? null,
+            authority: Math.round((rank.get(key)! / maxRank) * 1000) / 10,
+            inSitemap: sitemapKeys.has(key),
+            // Without a complete link crawl, a missing inlink may just be on a page the crawl never visited
+            orphan: options.complete && sitemapKeys.has(key) && inlinkCount === 0 && key !== homeKey,
+        };
+    });
+
+    return {
+        pages: pages.sort((a, b) => b.authority - a.authority || b.inlinks - a.inlinks),
+        pagesCrawled: crawled.size,
+        linkCount,
+        complete: options.complete,
+        crawlLimits: options.crawlLimits,
+    };
+};
+
+/**
+ * Whether a page is a sitemap URL no crawled page links to. After a complete link crawl that makes it an
+ * orphan; after a partial one the link may sit on a page the crawl never visited.
+ */
+export const isUnlinkedSitemapPage = (page: LinkGraphPage, complete: boolean): boolean =>
+    page.orphan || (!complete && page.inSitemap && page.inlinks === 0 && page.depth !== 0);
+
+export const findUnlinkedSitemapPages = (analysis: LinkGraphAnalysis): LinkGraphPage[] =>
+    analysis.pages.filter(page => isUnlinkedSitemapPage(page, analysis.complete));
+
+/**
+ * "Orphans" after a complete link crawl, otherwise what the partial crawl covered, e.g. "Not linked within 200 pages / 3 clicks".
+ */
+export const describeUnlinkedPages = (analysis: LinkGraphAnalysis): string => {
+    if (analysis.complete) return 'Orphans';
+    const limits = analysis.crawlLimits;
+    return limits ? `Not linked within ${limits.maxPages.toLocaleString()} pages / ${limits.maxDepth} clicks` : 'Not linked from crawled pages';
+};
+
+const labelForUrl = (url: string): string => {
+    try {
+        const segments = new URL(url).pathname.split('/').filter(Boolean);
+        if (segments.length === 0) return 'Homepage';
+        const words = decodeURIComponent(segments[segments.length - 1]).replace(/\.\w+$/, '').replace(/[-_]+/g, ' ').trim();
+        const label = words.replace(/\b\w/g, c => c.toUpperCase()) || `/${segments.join('/')}`;
+        return label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…` : label;
+    } catch (e) {
+        return url;
+    }
+};
+
+const pathSegments = (url: string): string[] => {
+    try {
+        return new URL(url).pathname.split('/').filter(Boolean);
+    } catch (e) {
+        return [];
+    }
+};
+
+const sharedPrefixLength = (a: string[], b: string[]): number => {
+    let i = 0;
+    while (i < a.length && i < b.length && a[i] === b[i]) i++;
+    return i;
+};
+
+/**
+ * Turns the link analysis into the pillar/cluster/orphan graph the architecture view draws. The
+ * strongest pages are the pillars; every other shown page joins the strongest pillar that links to it
+ * (or, failing that, the pillar sharing most of its path). Only real links are drawn as edges.
+ */
+export const buildArchitectureGraph = (analysis: LinkGraphAnalysis, links: LinkEdge[], rules: UrlNormalizationRules): GraphData => {
+    const linked = analysis.pages.filter(page => !page.orphan);
+    const pillars = linked.slice(0, MAX_PILLARS);
+    const clusters = linked.slice(MAX_PILLARS, MAX_PILLARS + MAX_CLUSTER_NODES);
+    const orphans = analysis.pages.filter(page => page.orphan).slice(0, MAX_ORPHAN_NODES);
+    if (pillars.length === 0) return { nodes: [], edges: [] };
+
+    const keyOf = (url: string) => normalizeUrl(url, rules);
+    const followed = new Set<string>();
+    links.forEach(link => {
+        if (!link.nofollow) followed.add(`${keyOf(link.from)} ${keyOf(link.to)}`);
+    });
+    const linksTo = (from: string, to: string) => followed.has(`${keyOf(from)} ${keyOf(to)}`);
+
+    const toNode = (page: LinkGraphPage, type: Node['type'], cluster?: string): Node => ({
+        id: page.url,
+        label: labelForUrl(page.url),
+        type,
+        cluster,
+        inlinks: page.inlinks,
+        depth: page.depth,
+        authority: page.authority,
+    });
+
+    const nodes: Node[] = pillars.map(page => toNode(page, 'pillar', page.url));
+    const edges: Edge[] = [];
+
+    pillars.forEach(source => pillars.forEach(target => {
+        if (source !== target && linksTo(source.url, target.url)) edges.push({ source: source.url, target: target.url });
+    }));
+
+    clusters.forEach(page => {
+        // Pillars are sorted strongest first, so the first match is the strongest linking pillar
+        let pillar = pillars.find(p => linksTo(p.url, page.url));
+        if (!pillar) {
+            const segments = pathSegments(page.url);
+            pillar = pillars.reduce((best, p) =>
+                sharedPrefixLength(pathSegments(p.url), segments) > sharedPrefixLength(pathSegments(best.url), segments) ? p : best);
+        }
+        nodes.push(toNode(page, 'cluster', pillar.url));
+        if (linksTo(pillar.url, page.url)) edges.push({ source: pillar.url, target: page.url });
+        if (linksTo(page.url, pillar.url)) edges.push({ source: page.url, target: pillar.url });
+    });
+
+    orphans.forEach(page => nodes.push(toNode(page, 'orphan')));
+
+    return { nodes, edges };
+};
+
+/**
+ * Reports sitemap URLs that no crawled page links to. Only a link crawl that visited every reachable page
+ * can prove a page is orphaned; after a crawl cut short by its budget they are reported at low priority,
+ * labelled with what the crawl covered, for the user to check.
+ */
+export const buildOrphanFindings = (analysis: LinkGraphAnalysis): AuditFinding[] => {
+    const orphans = findUnlinkedSitemapPages(analysis);
+    if (orphans.length === 0) return [];
+    if (!analysis.complete) {
+        const covered = analysis.crawlLimits ? ` within ${analysis.crawlLimits.maxDepth} clicks of the homepage` : '';
+        return [{
+            id: 'links-unlinked-urls',
+            category: 'orphan-url',
+            title: `Check ${orphans.length} sitemap URL${orphans.length === 1 ? '' : 's'} not linked from the ${analysis.pagesCrawled} crawled pages`,
+            priority: 'low',
+            description: `These URLs are listed in the sitemap, but none of the ${analysis.pagesCrawled} pages the link crawl visited${covered} links to them. The crawl stopped at its budget, so a link may be on a page it didn't reach; link to the ones that are orphaned, or raise the link-following limits in Crawler Settings for a complete check.`,
+            affectedUrls: orphans.map(page => page.url),
+            evidence: orphans.map(page => `${page.url} → 0 inlinks from crawled pages`),
+        }];
+    }
+    return [{
+        id: 'links-orphan-urls',
+        category: 'orphan-url',
+        title: `Link to ${orphans.length} orphaned sitemap URL${orphans.length === 1 ? '' : 's'} from related pages`,
+        priority: 'medium',
+        description: `These URLs are listed in the sitemap, but none of the ${analysis.pagesCrawled} pages reachable from the homepage links to them. Search engines find and value pages through internal links; add links from relevant pages, or remove the URLs from the sitemap if they are obsolete.`,
+        affectedUrls: orphans.map(page => page.url),
+        evidence: orphans.map(page => `${page.url} → 0 inlinks`),
+    }];
+};
@@ -0,0 +1,197 @@
+import type { DuplicateCluster, DuplicatePage, ExecutiveSummaryRedirect, LinkGraphAnalysis, PageAction, PageSnapshot, UrlNormalizationRules } from '../types';
+import { normalizeUrl } from './urlNormalization';
+
+// Five-word shingles: long enough that shared template phrases don't make unrelated pages look alike
+const SHINGLE_WORDS = 5;
+// Bottom-k sketch size; the Jaccard estimate is within a few points at this size and exact for short pages
+const SKETCH_SIZE = 128;
+// Too little text to tell a duplicate from a page that is merely short
+const MIN_SKETCH_WORDS = 50;
+
+// Pages sharing at least this share of their shingles are grouped as near-duplicates
+export const NEAR_DUPLICATE_SIMILARITY = 0.8;
+// Above this the pages are copies of each other, so a canonical keeps both URLs without splitting signals
+export const CANONICAL_SIMILARITY = 0.9;
+
+export interface DuplicateDetectionOptions {
+    urlNormalization: UrlNormalizationRules;
+    linkAnalysis?: LinkGraphAnalysis;   // Picks the page with the most internal authority as the one to keep
+}
+
+// FNV-1a, 32-bit
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+/**
+ * Hashes every run of five consecutive words in the text and keeps the smallest distinct hashes, sorted.
+ * Two sketches estimate the Jaccard similarity of the full shingle sets. Empty for very short text.
+ */
+export const sketchText = (text: string): number[] => {
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    if (words.length < MIN_SKETCH_WORDS) return [];
+    const hashes = new Set<number>();
+    for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) {
+        hashes.add(hashString(words.slice(i, i + SHINGLE_WORDS).join(' ')));
+    }
+    return Array.from(hashes).sort((a, b) => a - b).slice(0, SKETCH_SIZE);
+};
+
+/**
+ * Bottom-k estimate of the Jaccard similarity: of the smallest hashes in the union of both sketches,
+ * the share that both pages contain.
+ */
+export const estimateSimilarity = (a: number[], b: number[]): number => {
+    if (a.length === 0 || b.length === 0) return 0;
+    let i = 0;
+    let j = 0;
+    let taken = 0;
+    let shared = 0;
+    while (taken < SKETCH_SIZE && (i < a.length || j < b.length)) {
+        if (j >= b.length || (i < a.length && a[i] < b[j])) {
+            i++;
+        } else if (i >= a.length || b[j] < a[i]) {
+            j++;
+        } else {
+            shared++;
+            i++;
+            j++;
+        }
+        taken++;
+    }
+    return shared / taken;
+};
+
+const isNoindex = (page: PageSnapshot) => /\b(noindex|none)\b/i.test(page.robotsMeta || '');
+
+const percent = (similarity: number) => `${Math.round(similarity * 100)}%`;
+
+/**
+ * Groups fetched pages whose body text is largely the same. Each cluster keeps one primary page: the
+ * page the others already canonicalize to, else the one with the most internal link authority, else
+ * the longest. Every other page is compared with the primary and marked for a canonical (near-copies)
+ * or a merge and 301 (heavy overlap). Clusters form through chains of similar pages, so a page that is
+ * itself below the threshold against the primary gets no action. Noindexed pages are left out, as they
+ * don't compete in search.
+ */
+export const findDuplicateClusters = (snapshots: PageSnapshot[], options: DuplicateDetectionOptions): DuplicateCluster[] => {
+    const keyOf = (url: string) => normalizeUrl(url, options.urlNormalization);
+    const pages = snapshots.filter(page => !page.error && page.status >= 200 && page.status < 300 && !isNoindex(page) && page.contentSketch.length > 0);
+
+    // Union-find over every pair above the threshold; the page counts are small enough to compare all pairs
+    const parent = pages.map((_, index) => index);
+    const find = (index: number): number => {
+        while (parent[index] !== index) {
+            parent[index] = parent[parent[index]];
+            index = parent[index];
+        }
+        return index;
+    };
+    for (let a = 0; a < pages.length; a++) {
+        for (let b = a + 1; b < pages.length; b++) {
+            if (estimateSimilarity(pages[a].contentSketch, pages[b].contentSketch) >= NEAR_DUPLICATE_SIMILARITY) {
+                parent[find(b)] = find(a);
+            }
+        }
+    }
+
+    const groups = new Map<number, PageSnapshot[]>();
+    pages.forEach((page, index) => {
+        const root = find(index);
+        groups.set(root, [...(groups.get(root) || []), page]);
+    });
+
+    const authority = new Map((options.linkAnalysis?.pages || []).map(page => [keyOf(page.url), page.authority]));
+    const authorityOf = (page: PageSnapshot) => authority.get(keyOf(page.finalUrl)) ?? authority.get(keyOf(page.url)) ?? 0;
+
+    return Array.from(groups.values())
+        .filter(group => group.length > 1)
+        .map(group => {
+            const canonicalTargets = new Set(group
+                .filter(page => page.canonical && keyOf(page.canonical) !== keyOf(page.finalUrl))
+                .map(page => keyOf(page.canonical!)));
+            const declaredPrimary = group.find(page => canonicalTargets.has(keyOf(page.finalUrl)));
+            const primary = declaredPrimary || group.reduce((best, page) =>
+                authorityOf(page) > authorityOf(best) || (authorityOf(page) === authorityOf(best) && page.wordCount > best.wordCount) ? page : best);
+
+            const duplicates = group
+                .filter(page => page !== primary)
+                .map(page => ({ page, similarity: estimateSimilarity(page.contentSketch, primary.contentSketch) }))
+                .filter(({ similarity }) => similarity >= NEAR_DUPLICATE_SIMILARITY)
+                .map(({ page, similarity }): DuplicatePage => ({
+                    url: page.url,
+                    similarity: Math.round(similarity * 100) / 100,
+                    wordCount: page.wordCount,
+                    action: similarity >= CANONICAL_SIMILARITY ? 'canonical' : 'merge',
+                    canonicalized: !!page.canonical && keyOf(page.canonical) === keyOf(primary.finalUrl),
+                }))
+                .sort((a, b) => b.similarity - a.similarity);
+
+            return { primaryUrl: primary.url, primaryWordCount: primary.wordCount, duplicates };
+        })
+        .filter(cluster => cluster.duplicates.length > 0)
+        .sort((a, b) => b.duplicates.length - a.duplicates.length);
+};
+
+// Duplicates that still need work; pages already canonicalized to the primary are resolved
+const openDuplicates = (clusters: DuplicateCluster[]): { cluster: DuplicateCluster; page: DuplicatePage }[] =>
+    clusters.flatMap(cluster => cluster.duplicates.filter(page => !page.canonicalized).map(page => ({ cluster, page })));
+
+const evidenceFor = (cluster: DuplicateCluster, page: DuplicatePage) =>
+    `${percent(page.similarity)} of body-text shingles shared with ${cluster.primaryUrl} (${page.wordCount} vs ${cluster.primaryWordCount} words)`;
+
+/**
+ * One merge or canonical page action per unresolved duplicate, carrying the measured similarity.
+ */
+export const buildDuplicatePageActions = (clusters: DuplicateCluster[]): PageAction[] =>
+    openDuplicates(clusters).map(({ cluster, page }) => ({
+        url: page.url,
+        priority: page.action === 'canonical' ? 'high' : 'medium',
+        source: 'analysis',
+        rewriteDetails: {
+            reason: page.action === 'canonical'
+                ? `Near-copy of ${cluster.primaryUrl}; the two URLs split ranking signals for the same content.`
+                : `Overlaps heavily with ${cluster.primaryUrl}; consolidating makes one stronger page.`,
+            evidence: evidenceFor(cluster, page),
+            suggestedHeadline: page.action === 'canonical' ? `Canonicalize to ${cluster.primaryUrl}` : `Merge into ${cluster.primaryUrl}`,
+            action: page.action,
+            owner: page.action === 'canonical' ? 'dev' : 'content',
+        },
+    }));
+
+/**
+ * Adds the duplicate actions to the model's page actions. The model only sees URLs and page summaries,
+ * so its own merge/canonical calls are dropped (keeping any optimization tasks), as are its actions for
+ * pages that are about to be merged or canonicalized.
+ */
+export const mergeDuplicatePageActions = (actions: PageAction[], duplicateActions: PageAction[]): PageAction[] => {
+    const duplicateUrls = new Set(duplicateActions.map(action => action.url));
+    const aiActions = actions
+        .filter(action => !duplicateUrls.has(action.url))
+        .map(action => {
+            const guessed = action.rewriteDetails?.action === 'merge' || action.rewriteDetails?.action === 'canonical';
+            return guessed ? { ...action, rewriteDetails: undefined } : action;
+        })
+        .filter(action => action.rewriteDetails || (action.optimizationTasks && action.optimizationTasks.length > 0));
+    return [...duplicateActions, ...aiActions];
+};
+
+/**
+ * The executive summary's redirects: a 301 for each page to merge and a canonical for each near-copy,
+ * pointing at the cluster's primary page.
+ */
+export const buildDuplicateRedirects = (clusters: DuplicateCluster[]): ExecutiveSummaryRedirect[] =>
+    openDuplicates(clusters).map(({ cluster, page }) => ({
+        from: page.url,
+        to: cluster.primaryUrl,
+        reason: page.action === 'canonical'
+            ? `Duplicate content: add <link rel="canonical" href="${cluster.primaryUrl}">. ${evidenceFor(cluster, page)}.`
+            : `Overlapping content: merge its unique sections into the target, then 301 redirect. ${evidenceFor(cluster, page)}.`,
+        action: page.action,
+        similarity: page.similarity,
+    }));
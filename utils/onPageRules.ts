@@ -0,0 +1,278 @@
+import type { ImageIssue, PageImage, PageSnapshot, TechnicalActionItem, TechnicalAudit, UrlNormalizationRules } from '../types';
+import { normalizeUrl } from './urlNormalization';
+import { EAGER_IMAGE_COUNT, MAX_IMAGE_BYTES, findImageIssues } from './imageAudit';
+import { formatBytes } from './crawlReport';
+
+// Google truncates titles at roughly 600px, which is about 60 characters of average text
+export const MAX_TITLE_LENGTH = 60;
+// Below this many words of body copy a page rarely satisfies a query on its own
+export const THIN_CONTENT_WORDS = 300;
+
+export interface OnPageRuleOptions {
+    fromSitemap: boolean;       // Noindex is only a conflict when the URL was listed for indexing
+    urlNormalization: UrlNormalizationRules;
+    jsRenderedUrls: Set<string>; // Pages whose raw HTML is a JavaScript shell (see utils/renderingRisk.ts)
+}
+
+interface OnPageRule {
+    id: string;
+    // Crawlers act on these tags in the raw HTML before any rendering, so they are checked on JavaScript shells too
+    appliesToShells?: boolean;
+    // Matches AI action items that cover the same issue, so they are dropped when the rule fires
+    topic: RegExp;
+    evaluate: (pages: PageSnapshot[], options: OnPageRuleOptions) => Omit<TechnicalActionItem, 'ruleId'> | null;
+}
+
+// Offending images listed per page in the evidence; the image audit section has the full counts
+const MAX_IMAGES_IN_EVIDENCE = 5;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const isNoindex = (page: PageSnapshot) => /\b(noindex|none)\b/i.test(page.robotsMeta || '');
+
+const countH1 = (page: PageSnapshot) => page.headings.filter(h => h.level === 1).length;
+
+// Pages sharing the same value, compared case-insensitively; only groups of two or more
+const findDuplicates = (pages: PageSnapshot[], valueOf: (page: PageSnapshot) => string | undefined): [string, PageSnapshot[]][] => {
+    const groups = new Map<string, { value: string; pages: PageSnapshot[] }>();
+    pages.forEach(page => {
+        const value = valueOf(page);
+        if (!value) return;
+        const key = value.toLowerCase();
+        const group = groups.get(key) || { value, pages: [] };
+        group.pages.push(page);
+        groups.set(key, group);
+    });
+    return Array.from(groups.values())
+        .filter(group => group.pages.length > 1)
+        .sort((a, b) => b.pages.length - a.pages.length)
+        .map(group => [group.value, group.pages]);
+};
+
+/**
+ * One rule per image issue, with the evidence grouped by page. `describe` gets the number of distinct
+ * offending images (a logo on every page counts once) and of pages they appear on.
+ */
+const imageRule = (
+    issue: ImageIssue,
+    topic: RegExp,
+    priority: TechnicalActionItem['priority'],
+    describe: (images: number, pages: number) => string,
+    detail: (image: PageImage) => string = image => image.src,
+): OnPageRule => ({
+    id: `image-${issue}`,
+    topic,
+    evaluate: pages => {
+        const affected = pages
+            .map(page => ({ page, images: findImageIssues(page)[issue] }))
+            .filter(({ images }) => images.length > 0);
+        if (affected.length === 0) return null;
+        const distinct = new Set(affected.flatMap(({ images }) => images.map(image => image.src))).size;
+        return {
+            item: describe(distinct, affected.length),
+            priority,
+            evidence: affected.map(({ page, images }) => {
+                const more = images.length > MAX_IMAGES_IN_EVIDENCE ? `, ...and ${images.length - MAX_IMAGES_IN_EVIDENCE} more` : '';
+                return `${page.url} → ${plural(images.length, 'image')}: ${images.slice(0, MAX_IMAGES_IN_EVIDENCE).map(detail).join(', ')}${more}`;
+            }),
+        };
+    },
+});
+
+const RULES: OnPageRule[] = [
+    {
+        id: 'missing-title',
+        topic: /\b(title tags?|page titles?|meta titles?)\b/i,
+        evaluate: pages => {
+            const missing = pages.filter(page => !page.title);
+            return missing.length === 0 ? null : {
+                item: `Add a <title> to ${plural(missing.length, 'page')} missing one`,
+                priority: 'high',
+                evidence: missing.map(page => `${page.url} → no <title>`),
+            };
+        },
+    },
+    {
+        id: 'duplicate-title',
+        topic: /\b(title tags?|page titles?|meta titles?)\b/i,
+        evaluate: pages => {
+            const duplicates = findDuplicates(pages, page => page.title);
+            const affected = duplicates.reduce((sum, [, group]) => sum + group.length, 0);
+            return duplicates.length === 0 ? null : {
+                item: `Write unique titles for ${plural(affected, 'page')} sharing ${plural(duplicates.length, 'duplicate title')}`,
+                priority: 'medium',
+                evidence: duplicates.map(([title, group]) => `"${title}" → ${group.map(page => page.url).join(', ')}`),
+            };
+        },
+    },
+    {
+        id: 'long-title',
+        topic: /\b(title tags?|page titles?|meta titles?)\b/i,
+        evaluate: pages => {
+            const long = pages.filter(page => page.title && page.title.length > MAX_TITLE_LENGTH);
+            return long.length === 0 ? null : {
+                item: `Shorten ${plural(long.length, 'title')} longer than ${MAX_TITLE_LENGTH} characters`,
+                priority: 'low',
+                evidence: long.map(page => `${page.url} → ${page.title!.length} chars: "${page.title}"`),
+            };
+        },
+    },
+    {
+        id: 'missing-description',
+        topic: /\bmeta descriptions?\b/i,
+        evaluate: pages => {
+            const missing = pages.filter(page => !page.metaDescription);
+            return missing.length === 0 ? null : {
+                item: `Add a meta description to ${plural(missing.length, 'page')} missing one`,
+                priority: 'medium',
+                evidence: missing.map(page => `${page.url} → no meta description`),
+            };
+        },
+    },
+    {
+        id: 'duplicate-description',
+        topic: /\bmeta descriptions?\b/i,
+        evaluate: pages => {
+            const duplicates = findDuplicates(pages, page => page.metaDescription);
+            const affected = duplicates.reduce((sum, [, group]) => sum + group.length, 0);
+            return duplicates.length === 0 ? null : {
+                item: `Write unique meta descriptions for ${plural(affected, 'page')} sharing ${plural(duplicates.length, 'duplicate description')}`,
+                priority: 'medium',
+                evidence: duplicates.map(([description, group]) => `"${description}" → ${group.map(page => page.url).join(', ')}`),
+            };
+        },
+    },
+    {
+        id: 'missing-h1',
+        topic: /\bh1s?\b/i,
+        evaluate: pages => {
+            const missing = pages.filter(page => countH1(page) === 0);
+            return missing.length === 0 ? null : {
+                item: `Add an H1 heading to ${plural(missing.length, 'page')} missing one`,
+                priority: 'medium',
+                evidence: missing.map(page => `${page.url} → no <h1>`),
+            };
+        },
+    },
+    {
+        id: 'multiple-h1',
+        topic: /\bh1s?\b/i,
+        evaluate: pages => {
+            const multiple = pages.filter(page => countH1(page) > 1);
+            return multiple.length === 0 ? null : {
+                item: `Reduce ${plural(multiple.length, 'page')} with several H1 headings to a single H1`,
+                priority: 'low',
+                evidence: multiple.map(page => `${page.url} → ${countH1(page)} <h1>: ${page.headings.filter(h => h.level === 1).map(h => `"${h.text}"`).join(', ')}`),
+            };
+        },
+    },
+    {
+        id: 'noindex-in-sitemap',
+        appliesToShells: true,
+        topic: /\bno-?index\b/i,
+        evaluate: (pages, options) => {
+            if (!options.fromSitemap) return null;
+            const noindexed = pages.filter(isNoindex);
+            return noindexed.length === 0 ? null : {
+                item: `Resolve ${plural(noindexed.length, 'sitemap URL')} carrying a noindex meta robots tag`,
+                priority: 'high',
+                evidence: noindexed.map(page => `${page.url} → <meta name="robots" content="${page.robotsMeta}">`),
+            };
+        },
+    },
+    {
+        id: 'canonical-elsewhere',
+        appliesToShells: true,
+        topic: /\bcanonical/i,
+        evaluate: (pages, options) => {
+            const elsewhere = pages.filter(page => page.canonical &&
+                normalizeUrl(page.canonical, options.urlNormalization) !== normalizeUrl(page.finalUrl, options.urlNormalization));
+            return elsewhere.length === 0 ? null : {
+                item: `Review ${plural(elsewhere.length, 'page')} whose canonical points to another URL`,
+                priority: 'medium',
+                evidence: elsewhere.map(page => `${page.url} → canonical: ${page.canonical}`),
+            };
+        },
+    },
+    {
+        id: 'thin-content',
+        topic: /\b(thin|shallow) content\b|\bword counts?\b/i,
+        evaluate: pages => {
+            // Noindexed pages aren't competing in search, so their length doesn't matter
+            const thin = pages.filter(page => page.wordCount < THIN_CONTENT_WORDS && !isNoindex(page));
+            return thin.length === 0 ? null : {
+                item: `Expand or consolidate ${plural(thin.length, 'thin page')} under ${THIN_CONTENT_WORDS} words`,
+                priority: 'medium',
+                evidence: thin.map(page => `${page.url} → ${page.wordCount} words`),
+            };
+        },
+    },
+    {
+        id: 'structured-data-errors',
+        // Only AI items about fixing schema; "add FAQPage schema" is a different recommendation
+        topic: /\b(fix|invalid|broken|errors?)\b.*\b(schema|structured data|json-ld)\b|\b(schema|structured data|json-ld)\b.*\b(errors?|invalid|broken)\b/i,
+        evaluate: pages => {
+            const invalid = pages.filter(page => page.jsonLdErrors > 0 || page.structuredData.some(item => item.errors.length > 0));
+            return invalid.length === 0 ? null : {
+                item: `Fix structured data errors on ${plural(invalid.length, 'page')} so they stay eligible for rich results`,
+                priority: 'medium',
+                evidence: invalid.flatMap(page => [
+                    ...page.structuredData
+                        .filter(item => item.errors.length > 0)
+                        .map(item => `${page.url} → ${item.types.join('/') || 'untyped'} (${item.format}): ${item.errors.join('; ')}`),
+                    ...(page.jsonLdErrors > 0 ? [`${page.url} → ${plural(page.jsonLdErrors, 'JSON-LD block')} not valid JSON`] : []),
+                ]),
+            };
+        },
+    },
+    imageRule('missing-alt', /\balt (text|attributes?|tags?)\b/i, 'medium',
+        (images, pages) => `Add alt text to ${plural(images, 'image')} on ${plural(pages, 'page')} missing the attribute`),
+    imageRule('empty-alt', /\balt (text|attributes?|tags?)\b/i, 'low',
+        (images, pages) => `Review the empty alt text of ${plural(images, 'image')} on ${plural(pages, 'page')}; it marks an image as decorative`),
+    imageRule('missing-dimensions', /\b(image dimensions|width and height|layout shifts?|cls)\b/i, 'medium',
+        (images, pages) => `Set width and height on ${plural(images, 'image')} on ${plural(pages, 'page')} to prevent layout shift`),
+    imageRule('not-lazy', /\blazy[- ]?load/i, 'low',
+        (images, pages) => `Lazy-load ${plural(images, 'image')} below the first ${EAGER_IMAGE_COUNT} on ${plural(pages, 'page')}`),
+    imageRule('legacy-format', /\b(webp|avif|next-gen (image )?formats?|modern image formats?)\b/i, 'low',
+        (images, pages) => `Serve ${plural(images, 'JPEG/PNG/GIF image')} on ${plural(pages, 'page')} as WebP or AVIF`),
+    imageRule('oversized', /\b(compress|oversized|large|heavy)\b.*\bimages?\b|\bimages?\b.*\b(compress|file sizes?|oversized|too large)\b/i, 'medium',
+        (images, pages) => `Compress ${plural(images, 'image')} larger than ${formatBytes(MAX_IMAGE_BYTES)} on ${plural(pages, 'page')}`,
+        image => `${image.src} (${formatBytes(image.bytes)})`),
+];
+
+/**
+ * Checks the fetched pages against fixed on-page rules and returns one technical action item per rule
+ * that fired, with the affected URLs as evidence. Pages that failed to fetch are skipped, so the
+ * same pages always produce the same items. JavaScript shells only go through the raw-HTML rules: their
+ * missing title, H1 or text is reported as a rendering problem instead.
+ */
+export const runOnPageRules = (snapshots: PageSnapshot[], options: OnPageRuleOptions): TechnicalActionItem[] => {
+    const pages = snapshots.filter(page => !page.error && page.status >= 200 && page.status < 300);
+    if (pages.length === 0) return [];
+
+    const renderedPages = pages.filter(page => !options.jsRenderedUrls.has(page.url));
+    const items: TechnicalActionItem[] = [];
+    RULES.forEach(rule => {
+        const checked = rule.appliesToShells ? pages : renderedPages;
+        const result = checked.length > 0 ? rule.evaluate(checked, options) : null;
+        if (result) items.push({ ...result, ruleId: rule.id });
+    });
+    return items;
+};
+
+/**
+ * Puts rule items at the top of the AI's technical health and drops the AI items about the same issues,
+ * since the rule version carries the evidence. Items from an earlier merge are replaced, so merging
+ * a cached audit again is safe.
+ */
+export const mergeOnPageRuleItems = (health: TechnicalAudit, ruleItems: TechnicalActionItem[]): TechnicalAudit => {
+    const firedTopics = RULES.filter(rule => ruleItems.some(item => item.ruleId === rule.id)).map(rule => rule.topic);
+    const aiItems = health.actionItems.filter(item => !item.ruleId && !firedTopics.some(topic => topic.test(item.item)));
+    const hasHighPriority = ruleItems.some(item => item.priority === 'high');
+
+    return {
+        ...health,
+        status: health.status === 'good' && hasHighPriority ? 'needs_improvement' : health.status,
+        actionItems: [...ruleItems, ...aiItems],
+    };
+};
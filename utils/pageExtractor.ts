@@ -0,0 +1,247 @@
+import type { HreflangAlternate, PageHeading, PageImage, PageLink, PageSnapshot } from '../types';
+import { extractStructuredData } from './structuredData';
+import { validateSchemaNode } from './schemaValidation';
+import { sketchText } from './nearDuplicates';
+import { computeContentMetrics } from './contentMetrics';
+
+export type ExtractedPageContent = Pick<PageSnapshot,
+    'title' | 'metaDescription' | 'headings' | 'wordCount' | 'canonical' | 'robotsMeta' | 'hreflang' | 'openGraph' | 'jsonLd' | 'jsonLdTypes' | 'jsonLdErrors' | 'structuredData' | 'contentSketch' | 'images' | 'links' | 'contentDates' | 'schemaDateModified' | 'frameworkMarkers' | 'emptyMountPoint' | 'contentMetrics'>;
+
+const MAX_HEADINGS = 60;
+const MAX_HEADING_LENGTH = 200;
+const MAX_JSON_LD_BLOCKS = 10;
+const MAX_STRUCTURED_DATA_ITEMS = 20;
+const MAX_IMAGES = 100;
+const MAX_LINKS = 500;
+const MAX_CONTENT_DATES = 10;
+
+const MODERN_IMAGE_URL = /\.(webp|avif)(\s|\?|#|,|$)/i;
+const MODERN_IMAGE_TYPE = /image\/(webp|avif)/i;
+
+// Page chrome that isn't part of the content a search engine weighs
+const NON_CONTENT_SELECTOR = 'script, style, noscript, template, svg, iframe, nav, header, footer, aside, form';
+
+const cleanText = (value: string | null | undefined): string => (value || '').replace(/\s+/g, ' ').trim();
+
+const resolveUrl = (href: string | null | undefined, baseUrl: string): string | undefined => {
+    if (!href?.trim()) return undefined;
+    try {
+        return new URL(href.trim(), baseUrl).toString();
+    } catch (e) {
+        return undefined;
+    }
+};
+
+/**
+ * Reads an <img> the way a browser would end up loading it. Lazy-load libraries keep the real URL in
+ * data-src and put a placeholder in src, so the placeholder is skipped. Inline data: images aren't files to audit.
+ */
+const readImage = (img: Element, baseUrl: string): PageImage | undefined => {
+    const rawSrc = img.getAttribute('src')?.trim();
+    const lazySrc = img.getAttribute('data-src') || img.getAttribute('data-lazy-src');
+    const srcAttribute = rawSrc && !rawSrc.startsWith('data:') ? rawSrc : lazySrc;
+    const src = srcAttribute && !srcAttribute.trim().startsWith('data:') ? resolveUrl(srcAttribute, baseUrl) : undefined;
+    if (!src) return undefined;
+
+    const srcset = `${img.getAttribute('srcset') || ''} ${img.getAttribute('data-srcset') || ''}`;
+    const picture = img.parentElement?.tagName.toLowerCase() === 'picture' ? img.parentElement : null;
+    const pictureSources = picture ? Array.from(picture.querySelectorAll('source')) : [];
+    const modernFormat = MODERN_IMAGE_URL.test(src) || MODERN_IMAGE_URL.test(srcset) || pictureSources.some(source =>
+        MODERN_IMAGE_TYPE.test(source.getAttribute('type') || '') || MODERN_IMAGE_URL.test(source.getAttribute('srcset') || ''));
+
+    return {
+        src,
+        alt: img.getAttribute('alt'),
+        hasDimensions: img.hasAttribute('width') && img.hasAttribute('height'),
+        lazy: img.getAttribute('loading')?.toLowerCase() === 'lazy' || !!lazySrc || img.hasAttribute('data-srcset') || /\blazy/i.test(img.getAttribute('class') || ''),
+        modernFormat,
+    };
+};
+
+// Markers client-side frameworks leave in the HTML they serve, whether or not it was rendered on the server
+const FRAMEWORK_MARKERS: [framework: string, selector: string][] = [
+    ['Next.js', '#__next, script#__NEXT_DATA__, script[src*="/_next/"]'],
+    ['Nuxt', '#__nuxt, script#__NUXT_DATA__, script[src*="/_nuxt/"]'],
+    ['Gatsby', '#___gatsby'],
+    ['Angular', '[ng-version], app-root'],
+    ['Vue', '[data-v-app], [data-server-rendered]'],
+    ['React', '[data-reactroot], div#root'],
+];
+const MOUNT_POINT_SELECTOR = '#root, #app, #__next, #__nuxt, #___gatsby, app-root';
+// A mount point holding no elements and at most a "Loading..." placeholder is waiting for JavaScript
+const MAX_PLACEHOLDER_LENGTH = 40;
+
+// "Updated on March 3, 2021", "Last modified: 3 March 2021", "Published 2021-03-03"
+const STATED_DATE = /\b(?:last\s+)?(?:updated|modified|reviewed|published|posted)\s*(?:on|:)?\s*((?:[A-Z][a-z]+\.?\s+\d{1,2},?\s+\d{4})|(?:\d{1,2}\s+[A-Z][a-z]+\.?\s+\d{4})|(?:\d{4}-\d{2}-\d{2}))/gi;
+const DATE_META_SELECTOR = [
+    'meta[property="article:modified_time" i]', 'meta[property="article:published_time" i]', 'meta[property="og:updated_time" i]',
+    'meta[name="last-modified" i]', 'meta[name="date" i]', 'meta[itemprop="dateModified" i]', 'meta[itemprop="datePublished" i]',
+].join(', ');
+
+// Calendar date of a machine- or human-written date, or undefined when it doesn't parse
+const toIsoDate = (value: string | null | undefined): string | undefined => {
+    if (!value?.trim()) return undefined;
+    const time = Date.parse(value.trim());
+    if (Number.isNaN(time)) return undefined;
+    const date = new Date(time).toISOString().slice(0, 10);
+    return date >= '1995-01-01' ? date : undefined;
+};
+
+const collectSchemaDates = (node: unknown, dates: { modified: string[]; published: string[] }) => {
+    if (Array.isArray(node)) {
+        node.forEach(item => collectSchemaDates(item, dates));
+    } else if (node && typeof node === 'object') {
+        const record = node as Record<string, unknown>;
+        const modified = typeof record.dateModified === 'string' ? toIsoDate(record.dateModified) : undefined;
+        const published = typeof record.datePublished === 'string' ? toIsoDate(record.datePublished) : undefined;
+        if (modified) dates.modified.push(modified);
+        if (published) dates.published.push(published);
+        Object.values(record).forEach(value => collectSchemaDates(value, dates));
+    }
+};
+
+const collectJsonLdTypes = (node: unknown, types: Set<string>) => {
+    if (Array.isArray(node)) {
+        node.forEach(item => collectJsonLdTypes(item, types));
+    } else if (node && typeof node === 'object') {
+        const type = (node as Record<string, unknown>)['@type'];
+        (Array.isArray(type) ? type : [type]).forEach(t => {
+            if (typeof t === 'string') types.add(t);
+        });
+        Object.values(node).forEach(value => collectJsonLdTypes(value, types));
+    }
+};
+
+/**
+ * Pulls the on-page facts the audit prompts need out of an HTML document: title, meta description,
+ * H1-H3 outline, visible word count, readability metrics and a shingle sketch of the body text,
+ * canonical, meta robots, hreflang, Open Graph, images, links, stated dates, client-side framework shells, and structured data (JSON-LD, Microdata and
+ * RDFa) validated against schema.org rich-result requirements.
+ * Relative URLs are resolved against the page URL (or its `<base href>`).
+ */
+export const extractPageContent = (html: string, pageUrl: string, parser: DOMParser): ExtractedPageContent => {
+    const doc = parser.parseFromString(html, 'text/html');
+    const baseUrl = resolveUrl(doc.querySelector('base[href]')?.getAttribute('href'), pageUrl) || pageUrl;
+
+    const robotsMeta = Array.from(doc.querySelectorAll('meta[name="robots" i], meta[name="googlebot" i]'))
+        .map(meta => cleanText(meta.getAttribute('content')))
+        .filter(Boolean)
+        .join(', ');
+
+    const headings: PageHeading[] = Array.from(doc.querySelectorAll('h1, h2, h3'))
+        .map(el => ({ level: Number(el.tagName[1]) as PageHeading['level'], text: cleanText(el.textContent).slice(0, MAX_HEADING_LENGTH) }))
+        .filter(heading => heading.text)
+        .slice(0, MAX_HEADINGS);
+
+    const hreflang: HreflangAlternate[] = [];
+    doc.querySelectorAll('link[rel~="alternate" i][hreflang][href]').forEach(link => {
+        const href = resolveUrl(link.getAttribute('href'), baseUrl);
+        if (href) hreflang.push({ hreflang: link.getAttribute('hreflang')!.trim(), href });
+    });
+
+    const openGraph: Record<string, string> = {};
+    doc.querySelectorAll('meta[property^="og:" i]').forEach(meta => {
+        const key = meta.getAttribute('property')!.slice(3).toLowerCase();
+        const content = cleanText(meta.getAttribute('content'));
+        if (key && content && !(key in openGraph)) openGraph[key] = content;
+    });
+
+    const parsedJsonLd: unknown[] = [];
+    const jsonLdTypes = new Set<string>();
+    let jsonLdErrors = 0;
+    doc.querySelectorAll('script[type="application/ld+json" i]').forEach(script => {
+        try {
+            const parsed = JSON.parse(script.textContent || '');
+            collectJsonLdTypes(parsed, jsonLdTypes);
+            parsedJsonLd.push(parsed);
+        } catch (e) {
+            jsonLdErrors++;
+        }
+    });
+    const structuredData = extractStructuredData(doc, parsedJsonLd).slice(0, MAX_STRUCTURED_DATA_ITEMS).map(validateSchemaNode);
+
+    // <noscript> fallbacks repeat lazy-loaded images for clients without JavaScript
+    const images = Array.from(doc.querySelectorAll('img'))
+        .filter(img => !img.closest('noscript'))
+        .map(img => readImage(img, baseUrl))
+        .filter((image): image is PageImage => !!image)
+        .slice(0, MAX_IMAGES);
+
+    const datedElements = [
+        ...Array.from(doc.querySelectorAll('time[datetime]'), time => time.getAttribute('datetime')),
+        ...Array.from(doc.querySelectorAll(DATE_META_SELECTOR), meta => meta.getAttribute('content')),
+    ].filter((value): value is string => !!value);
+
+    // Read before the navigation chrome is stripped below: a broken menu link is broken on every page
+    const links: PageLink[] = [];
+    doc.querySelectorAll('a[href]').forEach(anchor => {
+        if (links.length >= MAX_LINKS) return;
+        const href = anchor.getAttribute('href')!.trim();
+        if (/^(javascript|mailto|tel|data):/i.test(href) || href.startsWith('#')) return;
+        const url = resolveUrl(href, baseUrl);
+        if (!url || !/^https?:/i.test(url)) return;
+        links.push({
+            url: url.replace(/#.*$/, ''),
+            anchorText: cleanText(anchor.textContent || anchor.getAttribute('aria-label') || anchor.querySelector('img')?.getAttribute('alt')),
+            nofollow: /\bnofollow\b/i.test(anchor.getAttribute('rel') || ''),
+        });
+    });
+
+    const frameworkMarkers = FRAMEWORK_MARKERS
+        .filter(([, selector]) => doc.querySelector(selector))
+        .map(([framework]) => framework);
+    const emptyMountPoint = Array.from(doc.querySelectorAll(MOUNT_POINT_SELECTOR))
+        .find(el => el.children.length === 0 && cleanText(el.textContent).length <= MAX_PLACEHOLDER_LENGTH);
+
+    const schemaDates = { modified: [] as string[], published: [] as string[] };
+    collectSchemaDates(parsedJsonLd, schemaDates);
+    const schemaDateModified = [...schemaDates.modified].sort().pop() || [...schemaDates.published].sort().pop();
+
+    // Word count and sketch run on the body with scripts and navigation chrome removed; the parsed document is ours to mutate
+    const body = doc.body;
+    body?.querySelectorAll(NON_CONTENT_SELECTOR).forEach(el => el.remove());
+    const bodyText = cleanText(body?.textContent);
+    // Innermost paragraphs and list items only, so nested lists aren't counted twice
+    const blocks = Array.from(body?.querySelectorAll('p, li') || [])
+        .filter(el => !el.querySelector('p, li'))
+        .map(el => cleanText(el.textContent))
+        .filter(Boolean);
+    const title = cleanText(doc.querySelector('title')?.textContent) || undefined;
+
+    // Dates the page states for itself; <time> elements in stripped chrome (bylines in headers) were read above
+    const statedDates = [
+        ...datedElements,
+        ...Array.from(bodyText.matchAll(STATED_DATE), match => match[1]),
+    ].map(toIsoDate).filter((date): date is string => !!date);
+    const contentDates = Array.from(new Set(statedDates)).sort().slice(-MAX_CONTENT_DATES);
+
+    return {
+        title,
+        metaDescription: cleanText(doc.querySelector('meta[name="description" i]')?.getAttribute('content')) || undefined,
+        headings,
+        wordCount: bodyText ? bodyText.split(' ').length : 0,
+        canonical: resolveUrl(doc.querySelector('link[rel~="canonical" i]')?.getAttribute('href'), baseUrl),
+        robotsMeta: robotsMeta || undefined,
+        hreflang,
+        openGraph,
+        jsonLd: parsedJsonLd.slice(0, MAX_JSON_LD_BLOCKS),
+        jsonLdTypes: Array.from(jsonLdTypes),
+        jsonLdErrors,
+        structuredData,
+        contentSketch: sketchText(bodyText),
+        images,
+        links,
+        contentDates,
+        schemaDateModified,
+        frameworkMarkers,
+        emptyMountPoint: emptyMountPoint ? (emptyMountPoint.id ? `#${emptyMountPoint.id}` : emptyMountPoint.tagName.toLowerCase()) : undefined,
+        contentMetrics: computeContentMetrics({
+            bodyText,
+            blocks,
+            title,
+            h1: headings.find(heading => heading.level === 1)?.text,
+            subheadingCount: headings.filter(heading => heading.level > 1).length,
+            language: doc.documentElement.getAttribute('lang') || undefined,
+        }),
+    };
+};
@@ -0,0 +1,227 @@
+import type { AuditFinding, ExecutiveSummaryRedirect, FlaggedRedirect, PageSnapshot, UrlNormalizationRules, UrlStatusCheck } from '../types';
+import { normalizeUrl } from './urlNormalization';
+
+// The bundled proxy stops following after this many hops (see proxy/server.js)
+const MAX_FOLLOWED_REDIRECTS = 10;
+
+export interface RedirectAnalysisOptions {
+    urlNormalization: UrlNormalizationRules;
+    sitemapUrls: string[];   // Empty when pages were discovered by following links
+}
+
+const isRedirected = (check: UrlStatusCheck) => check.redirectChain.length > 0;
+const isLive = (check: UrlStatusCheck) => check.status === 200 && !isRedirected(check);
+const isError = (check: UrlStatusCheck) => check.status >= 400;
+// Only a 404/410 says the page is gone; a 401/403/429/5xx may be a login wall, a block or a passing outage
+const isGone = (check: UrlStatusCheck) => check.status === 404 || check.status === 410;
+
+const describeChain = (check: UrlStatusCheck): string =>
+    [...check.redirectChain.map(hop => `${hop.url} → ${hop.status ?? '3xx'}`), `${check.finalUrl} (${check.status})`].join(' → ');
+
+/**
+ * A chain that revisits a URL, or that was still redirecting when the proxy gave up following it.
+ */
+export const isRedirectLoop = (check: UrlStatusCheck): boolean => {
+    if (!isRedirected(check)) return false;
+    const visited = [...check.redirectChain.map(hop => hop.url), check.finalUrl];
+    if (new Set(visited).size < visited.length) return true;
+    return check.status >= 300 && check.status < 400 && check.redirectChain.length >= MAX_FOLLOWED_REDIRECTS;
+};
+
+const createLookup = (checks: UrlStatusCheck[], snapshots: PageSnapshot[], rules: UrlNormalizationRules) => {
+    const keyOf = (url: string) => normalizeUrl(url, rules);
+    const checksByKey = new Map(checks.filter(check => check.status !== 0).map(check => [keyOf(check.url), check]));
+    const snapshotsByKey = new Map(snapshots.filter(snapshot => !snapshot.error).map(snapshot => [keyOf(snapshot.url), snapshot]));
+    return {
+        keyOf,
+        statusOf: (url: string) => checksByKey.get(keyOf(url)),
+        snapshotOf: (url: string) => snapshotsByKey.get(keyOf(url)),
+    };
+};
+
+/**
+ * URLs with no status check yet, deduplicated after normalization, in first-seen order.
+ */
+export const findUncheckedUrls = (urls: string[], checked: UrlStatusCheck[], rules: UrlNormalizationRules): string[] => {
+    const seen = new Set(checked.map(check => normalizeUrl(check.url, rules)));
+    return urls.filter(url => {
+        const key = normalizeUrl(url, rules);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+/**
+ * Canonicals of the fetched pages that point at another URL; their status decides whether the canonical holds.
+ */
+export const collectCanonicalTargets = (snapshots: PageSnapshot[], rules: UrlNormalizationRules): string[] =>
+    snapshots
+        .filter(snapshot => !snapshot.error && snapshot.canonical && normalizeUrl(snapshot.canonical, rules) !== normalizeUrl(snapshot.finalUrl, rules))
+        .map(snapshot => snapshot.canonical!);
+
+/**
+ * Redirect loops and canonicals that contradict the measured status codes: canonicals pointing at a
+ * redirect or an error, and sitemap URLs canonicalized to another live URL. Multi-hop chains are
+ * reported with the other redirects by buildUrlStatusFindings and fixed by buildVerifiedRedirects.
+ */
+export const buildRedirectFindings = (checks: UrlStatusCheck[], snapshots: PageSnapshot[], options: RedirectAnalysisOptions): AuditFinding[] => {
+    const { keyOf, statusOf } = createLookup(checks, snapshots, options.urlNormalization);
+    const findings: AuditFinding[] = [];
+
+    const loops = checks.filter(isRedirectLoop);
+    if (loops.length > 0) {
+        findings.push({
+            id: 'redirect-loops',
+            category: 'redirect-loop',
+            title: `Break ${loops.length} redirect loop${loops.length === 1 ? '' : 's'}`,
+            priority: 'high',
+            description: 'These URLs redirect in a circle, or through more hops than crawlers follow, so neither users nor search engines ever reach a page. Point each one straight at a URL that answers 200.',
+            affectedUrls: loops.map(check => check.url),
+            evidence: loops.map(describeChain),
+        });
+    }
+
+    const canonicalized = snapshots.filter(snapshot => !snapshot.error && snapshot.canonical && keyOf(snapshot.canonical) !== keyOf(snapshot.finalUrl));
+    const toRedirect = canonicalized.filter(snapshot => {
+        const target = statusOf(snapshot.canonical!);
+        return target && isRedirected(target) && !isError(target);
+    });
+    if (toRedirect.length > 0) {
+        findings.push({
+            id: 'canonical-to-redirect',
+            category: 'canonical-conflict',
+            title: `Point ${toRedirect.length} canonical${toRedirect.length === 1 ? '' : 's'} at the final URL instead of a redirect`,
+            priority: 'high',
+            description: 'A canonical must name the URL that should be indexed. These name a URL that redirects, so search engines have to choose between the two signals and often ignore the canonical.',
+            affectedUrls: toRedirect.map(snapshot => snapshot.url),
+            evidence: toRedirect.map(snapshot => `${snapshot.url} → canonical: ${describeChain(statusOf(snapshot.canonical!)!)}`),
+        });
+    }
+
+    const toError = canonicalized.filter(snapshot => {
+        const target = statusOf(snapshot.canonical!);
+        return target && isError(target);
+    });
+    if (toError.length > 0) {
+        findings.push({
+            id: 'canonical-to-error',
+            category: 'canonical-conflict',
+            title: `Fix ${toError.length} canonical${toError.length === 1 ? '' : 's'} pointing at a missing or failing URL`,
+            priority: 'high',
+            description: 'These pages name a canonical URL that returns an error. Search engines ignore the canonical and may drop the page; point it at the page itself or at the live equivalent.',
+            affectedUrls: toError.map(snapshot => snapshot.url),
+            evidence: toError.map(snapshot => `${snapshot.url} → canonical: ${snapshot.canonical} (${statusOf(snapshot.canonical!)!.status})`),
+        });
+    }
+
+    const sitemapKeys = new Set(options.sitemapUrls.map(keyOf));
+    const sitemapElsewhere = canonicalized.filter(snapshot => {
+        const own = statusOf(snapshot.url);
+        const target = statusOf(snapshot.canonical!);
+        // A redirected sitemap URL is already reported as such
+        return sitemapKeys.has(keyOf(snapshot.url)) && !(own && isRedirected(own)) && target && isLive(target);
+    });
+    if (sitemapElsewhere.length > 0) {
+        findings.push({
+            id: 'canonical-sitemap-elsewhere',
+            category: 'canonical-conflict',
+            title: `List canonical URLs in the sitemap instead of ${sitemapElsewhere.length} canonicalized page${sitemapElsewhere.length === 1 ? '' : 's'}`,
+            priority: 'medium',
+            description: 'These sitemap URLs declare another live URL as their canonical. The sitemap asks for one URL to be indexed while the page asks for another; list the canonical URL in the sitemap, or make the page its own canonical if it should rank.',
+            affectedUrls: sitemapElsewhere.map(snapshot => snapshot.url),
+            evidence: sitemapElsewhere.map(snapshot => `${snapshot.url} → canonical: ${snapshot.canonical} (200)`),
+        });
+    }
+
+    return findings;
+};
+
+/**
+ * Redirects the measured data supports: collapse each multi-hop chain into one 301 to its final URL,
+ * and repoint canonicals that name a redirecting URL at where it ends up.
+ */
+export const buildVerifiedRedirects = (checks: UrlStatusCheck[], snapshots: PageSnapshot[], rules: UrlNormalizationRules): ExecutiveSummaryRedirect[] => {
+    const { keyOf, statusOf } = createLookup(checks, snapshots, rules);
+    const chains: ExecutiveSummaryRedirect[] = checks
+        .filter(check => check.redirectChain.length > 1 && check.status === 200 && !isRedirectLoop(check))
+        .map(check => ({
+            from: check.url,
+            to: check.finalUrl,
+            reason: `Redirect chain of ${check.redirectChain.length} hops: replace it with a single 301 to the final URL.`,
+            action: 'redirect',
+            evidence: describeChain(check),
+        }));
+    const canonicals: ExecutiveSummaryRedirect[] = snapshots
+        .filter(snapshot => !snapshot.error && snapshot.canonical && keyOf(snapshot.canonical) !== keyOf(snapshot.finalUrl))
+        .flatMap(snapshot => {
+            const target = statusOf(snapshot.canonical!);
+            if (!target || !isRedirected(target) || target.status !== 200 || isRedirectLoop(target)) return [];
+            return [{
+                from: snapshot.url,
+                to: target.finalUrl,
+                reason: `The canonical names ${snapshot.canonical}, which redirects: set <link rel="canonical" href="${target.finalUrl}">.`,
+                action: 'canonical' as const,
+                evidence: describeChain(target),
+            }];
+        });
+    return [...chains, ...canonicals];
+};
+
+/**
+ * Checks the model's redirect suggestions against the fetched status codes and canonicals. A suggestion
+ * is kept only when its source is gone (404/410) and its target answers 200; one that would redirect a live,
+ * self-canonical page, lands on an error or another redirect, or disagrees with a measured redirect is
+ * flagged, as is one whose URLs could not be checked. Suggestions the site already implements are dropped.
+ */
+export const reconcileAiRedirects = (
+    suggestions: ExecutiveSummaryRedirect[],
+    measured: ExecutiveSummaryRedirect[],
+    checks: UrlStatusCheck[],
+    snapshots: PageSnapshot[],
+    rules: UrlNormalizationRules
+): { supported: ExecutiveSummaryRedirect[]; flagged: FlaggedRedirect[] } => {
+    const { keyOf, statusOf, snapshotOf } = createLookup(checks, snapshots, rules);
+    const measuredByFrom = new Map(measured.map(redirect => [keyOf(redirect.from), redirect]));
+    const supported: ExecutiveSummaryRedirect[] = [];
+    const flagged: FlaggedRedirect[] = [];
+    const flag = (redirect: ExecutiveSummaryRedirect, conflict: string) => flagged.push({ ...redirect, conflict });
+
+    suggestions.forEach(suggestion => {
+        const existing = measuredByFrom.get(keyOf(suggestion.from));
+        if (existing) {
+            if (keyOf(existing.to) !== keyOf(suggestion.to)) flag(suggestion, `The measured data sends this URL to ${existing.to} instead.`);
+            return;
+        }
+        const from = statusOf(suggestion.from);
+        const to = statusOf(suggestion.to);
+        if (!from || !to) {
+            const unchecked = [!from && suggestion.from, !to && suggestion.to].filter(Boolean).join(' and ');
+            flag(suggestion, `Not verified: ${unchecked} could not be checked.`);
+            return;
+        }
+        if (isRedirected(from) && keyOf(from.finalUrl) === keyOf(suggestion.to)) return;
+        if (isLive(from) && !from.noindex) {
+            const canonical = snapshotOf(suggestion.from)?.canonical;
+            if (!canonical || keyOf(canonical) === keyOf(suggestion.from)) {
+                flag(suggestion, `${suggestion.from} answers 200 and is its own canonical; a redirect would take a live page out of the index.`);
+                return;
+            }
+        }
+        if (isError(to)) {
+            flag(suggestion, `The target answers ${to.status}.`);
+            return;
+        }
+        if (isRedirected(to)) {
+            flag(suggestion, `The target redirects: ${describeChain(to)}.`);
+            return;
+        }
+        if (isGone(from) && isLive(to)) {
+            supported.push({ ...suggestion, action: 'redirect', evidence: `${suggestion.from} → ${from.status}; ${suggestion.to} → 200` });
+            return;
+        }
+        flag(suggestion, `Not supported by the measured data: ${suggestion.from} → ${from.status}${isRedirected(from) ? ` (redirects to ${from.finalUrl})` : ''}.`);
+    });
+
+    return { supported, flagged };
+};
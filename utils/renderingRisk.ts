@@ -0,0 +1,63 @@
+import type { AuditFinding, PageSnapshot, RenderingRisk } from '../types';
+
+// A server-rendered page carries its text, headings and navigation in the HTML; a JavaScript shell falls below these
+const MIN_RAW_WORDS = 50;
+const MIN_RAW_LINKS = 3;
+const MAX_EVIDENCE = 10;
+
+/**
+ * Whether a fetched page depends on JavaScript for its content. Thin raw text is required; on top of it,
+ * an empty app root is enough, a framework marker needs missing headings or navigation, and without any
+ * shell marker both must be missing.
+ */
+export const assessRenderingRisk = (page: PageSnapshot): RenderingRisk | undefined => {
+    if (page.error || page.wordCount >= MIN_RAW_WORDS) return undefined;
+    const noHeadings = page.headings.length === 0;
+    const fewLinks = page.links.length < MIN_RAW_LINKS;
+    const isShell = page.emptyMountPoint
+        || (page.frameworkMarkers.length > 0 && (noHeadings || fewLinks))
+        || (noHeadings && fewLinks);
+    if (!isShell) return undefined;
+    return {
+        url: page.url,
+        wordCount: page.wordCount,
+        headingCount: page.headings.length,
+        linkCount: page.links.length,
+        frameworks: page.frameworkMarkers,
+        emptyMountPoint: page.emptyMountPoint,
+    };
+};
+
+export const findRenderingRisks = (snapshots: PageSnapshot[]): RenderingRisk[] =>
+    snapshots.map(assessRenderingRisk).filter((risk): risk is RenderingRisk => !!risk);
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * What the raw HTML holds, e.g. "Next.js shell, empty #__next; 4 words, 0 headings, 1 link before JavaScript runs".
+ */
+export const describeRenderingRisk = (risk: RenderingRisk): string => {
+    const shell = [
+        risk.frameworks.length > 0 && `${risk.frameworks.join('/')} shell`,
+        risk.emptyMountPoint && `empty ${risk.emptyMountPoint}`,
+    ].filter(Boolean).join(', ');
+    const counts = `${plural(risk.wordCount, 'word')}, ${plural(risk.headingCount, 'heading')}, ${plural(risk.linkCount, 'link')} before JavaScript runs`;
+    return shell ? `${shell}; ${counts}` : counts;
+};
+
+/**
+ * One high-priority action item for all pages that only render in the browser.
+ */
+export const buildRenderingFindings = (risks: RenderingRisk[]): AuditFinding[] => {
+    if (risks.length === 0) return [];
+    const evidence = risks.map(risk => `${risk.url}: ${describeRenderingRisk(risk)}`);
+    return [{
+        id: 'js-rendering',
+        category: 'js-rendering',
+        title: `Serve the content of ${plural(risks.length, 'page')} in the HTML instead of rendering it with JavaScript`,
+        priority: 'high',
+        description: 'The HTML these pages return is an empty application shell: their text, headings and links only appear after JavaScript runs in the browser. Google indexes them only after a delayed rendering pass, and most other search engines and AI crawlers never see the content or follow the links. Render these routes on the server or prerender them (e.g. Next.js or Nuxt server rendering, Angular SSR, or a static export).',
+        affectedUrls: risks.map(risk => risk.url),
+        evidence: evidence.length > MAX_EVIDENCE ? [...evidence.slice(0, MAX_EVIDENCE), `...and ${(evidence.length - MAX_EVIDENCE).toLocaleString()} more`] : evidence,
+    }];
+};
@@ -1,5 +1,9 @@
 
-import type { HistoricalAnalysis, ExecutiveSummary, StrategicRoadmapData, DailyActionPlan, SitewideAnalysis } from '../types';
+import type { HistoricalAnalysis, ExecutiveSummary, StrategicRoadmapData, DailyActionPlan, SitewideAnalysis, CrawlReport, AuditFinding, UrlStatusCheck, CompetitorInventory, PageSnapshot, LinkGraphAnalysis, DuplicateCluster, HreflangAudit, LinkCheckReport, DecayAssessment } from '../types';
+import { OUTCOME_LABELS, countOutcomes, formatBytes, isFailedOutcome } from './crawlReport';
+import { IMAGE_ISSUES } from './imageAudit';
+import { describeContentMetrics } from './contentMetrics';
+import { describeUnlinkedPages, findUnlinkedSitemapPages } from './linkGraph';
 
 const generateExecutiveSummaryMarkdown = (summary: ExecutiveSummary): string => {
     if (!summary) return '';
@@ -37,11 +41,23 @@ const generateExecutiveSummaryMarkdown = (summary: ExecutiveSummary): string =>
     }
 
     if (summary.redirects.length > 0) {
-        markdown += `### Critical Redirects\n`;
+        markdown += `### Redirects & Canonicals\n`;
         summary.redirects.forEach(item => {
             markdown += `- **From:** ${item.from}\n`;
             markdown += `  - **To:** ${item.to}\n`;
             markdown += `  - **Reason:** ${item.reason}\n`;
+            if (item.evidence) markdown += `  - **Measured:** ${item.evidence}\n`;
+        });
+        markdown += `\n`;
+    }
+
+    if (summary.flaggedRedirects && summary.flaggedRedirects.length > 0) {
+        markdown += `### Flagged Redirect Suggestions\n`;
+        markdown += `*Suggested by the AI but not applied: the measured status codes and canonicals contradict or cannot confirm them.*\n`;
+        summary.flaggedRedirects.forEach(item => {
+            markdown += `- **From:** ${item.from}\n`;
+            markdown += `  - **To:** ${item.to}\n`;
+            markdown += `  - **Conflict:** ${item.conflict}\n`;
         });
         markdown += `\n`;
     }
@@ -78,6 +94,14 @@ const generateDailyActionPlanMarkdown = (actionPlan: DailyActionPlan[]): string
             });
             markdown += `\n`;
 
+            if (action.contentMetrics) {
+                markdown += `**Content Metrics (measured):**\n`;
+                describeContentMetrics(action.contentMetrics).forEach(line => {
+                    markdown += `- ${line}\n`;
+                });
+                markdown += `\n`;
+            }
+
             if (action.prompts && action.prompts.length > 0) {
                 markdown += `**AI Prompts:**\n`;
                 action.prompts.forEach(p => {
@@ -107,12 +131,33 @@ const generateSitewideAuditMarkdown = (audit: SitewideAnalysis): string => {
         if (audit.technicalHealth.actionItems.length > 0) {
             markdown += `**Recommended Actions:**\n`;
             audit.technicalHealth.actionItems.forEach(item => {
-                markdown += `- **${item.item}** (Priority: ${item.priority})\n`;
+                markdown += `- **${item.item}** (Priority: ${item.priority}${item.ruleId ? ', verified' : ''})\n`;
+                item.evidence?.forEach(line => {
+                    markdown += `  - ${line}\n`;
+                });
             });
             markdown += `\n`;
         }
     }
 
+    // Image Audit
+    if (audit.imageAudit && audit.imageAudit.imagesAudited > 0) {
+        const imageAudit = audit.imageAudit;
+        markdown += `### 🖼️ Image SEO Audit\n`;
+        markdown += `*${imageAudit.imagesAudited} distinct images on ${imageAudit.pagesAudited} pages, ${imageAudit.imagesSized} sized by HEAD request.*\n\n`;
+        markdown += `| ${IMAGE_ISSUES.join(' | ')} |\n`;
+        markdown += `|${IMAGE_ISSUES.map(() => '---').join('|')}|\n`;
+        markdown += `| ${IMAGE_ISSUES.map(issue => imageAudit.counts[issue]).join(' | ')} |\n\n`;
+        imageAudit.pages.slice(0, 15).forEach(page => {
+            const issues = IMAGE_ISSUES.filter(issue => page.counts[issue] > 0);
+            markdown += `- ${page.url} (${page.imageCount} images): ${issues.map(issue => `${issue} ${page.counts[issue]}`).join(', ')}\n`;
+            issues.forEach(issue => {
+                markdown += `  - ${issue}: ${page.examples[issue].join(', ')}\n`;
+            });
+        });
+        markdown += `\n`;
+    }
+
     // Zero-to-One Initiatives
     if (audit.zeroToOneInitiatives && audit.zeroToOneInitiatives.length > 0) {
         markdown += `### 💡 Zero-to-One Initiatives\n`;
@@ -155,6 +200,195 @@ const generateSitewideAuditMarkdown = (audit: SitewideAnalysis): string => {
     return markdown;
 };
 
+const generateCrawlReportMarkdown = (crawl: CrawlReport): string => {
+    if (!crawl) return '';
+    let markdown = `## 🕷️ Crawl Diagnostics\n\n`;
+    markdown += `*   **Status:** ${crawl.status}${crawl.truncationReason ? ` (${crawl.truncationReason})` : ''}\n`;
+    markdown += `*   **Duration:** ${(crawl.durationMs / 1000).toFixed(1)}s\n`;
+    markdown += `*   **Sitemaps:** ${crawl.sitemaps.length} (${countOutcomes(crawl.sitemaps).map(({ outcome, count }) => `${count} ${OUTCOME_LABELS[outcome].toLowerCase()}`).join(', ')})\n`;
+    markdown += `*   **URLs:** ${crawl.totalUrlsFound} found, ${crawl.coverage.reduce((sum, c) => sum + c.sampledUrls, 0)} sampled (${crawl.samplingMode})\n`;
+    if (crawl.method === 'spider' && crawl.spider) {
+        markdown += `*   **Discovery:** link-following from the homepage (no sitemap URLs): ${crawl.spider.pagesFetched} pages fetched to depth ${crawl.spider.maxDepthReached}, ${crawl.spider.linksRecorded} internal links, ${crawl.spider.pagesFailed} failed, ${crawl.spider.pagesNoindex} noindex, ${crawl.spider.blockedByRobots} blocked by robots.txt\n`;
+    } else if (crawl.linkMap) {
+        markdown += `*   **Link Map:** ${crawl.linkMap.pagesFetched} pages fetched from the homepage to depth ${crawl.linkMap.maxDepthReached}, ${crawl.linkMap.linksRecorded} internal links, ${crawl.linkMap.pagesFailed} failed, ${crawl.linkMap.blockedByRobots} blocked by robots.txt\n`;
+    }
+    if (crawl.urlVariantsMerged) {
+        markdown += `*   **Normalization:** ${crawl.urlVariantsMerged} URL variants merged into their normalized URL\n`;
+    }
+    markdown += `\n`;
+
+    if (crawl.sources.length > 0) {
+        markdown += `**Sitemap Sources:**\n`;
+        crawl.sources.forEach(source => {
+            markdown += `- ${source.url} (${source.origin})\n`;
+        });
+        markdown += `\n`;
+    }
+
+    if (crawl.mergedVariants && crawl.mergedVariants.length > 0) {
+        markdown += `**Merged URL Variants:**\n`;
+        crawl.mergedVariants.forEach(group => {
+            markdown += `- ${group.canonical} ← ${group.variants.join(', ')}\n`;
+        });
+        markdown += `\n`;
+    }
+
+    const problems = crawl.sitemaps.filter(s => isFailedOutcome(s.outcome));
+    if (problems.length > 0) {
+        markdown += `### Sitemaps With Problems\n\n`;
+        markdown += `| Sitemap | Status | HTTP | Proxy | Size | Time | Detail |\n`;
+        markdown += `|---|---|---|---|---|---|---|\n`;
+        problems.forEach(s => {
+            markdown += `| ${s.url} | ${OUTCOME_LABELS[s.outcome]} | ${s.httpStatus ?? '—'} | ${s.providerId ?? '—'} | ${formatBytes(s.bytes)} | ${s.outcome === 'skipped' ? '—' : `${s.durationMs}ms`} | ${(s.error || '').replace(/\|/g, '\\|')} |\n`;
+        });
+        markdown += `\n`;
+    }
+
+    return markdown;
+};
+
+const generateVerifiedFindingsMarkdown = (findings: AuditFinding[], checks: UrlStatusCheck[]): string => {
+    let markdown = `## ✅ Verified Issues\n\n`;
+    markdown += `*Measured by fetching the sitemaps and ${checks.length} URLs directly (${checks.filter(c => c.status === 0).length} could not be reached), not inferred by the AI.*\n\n`;
+    if (findings.length === 0) {
+        markdown += `No sitemap protocol, status, redirect or X-Robots-Tag problems were found.\n\n`;
+        return markdown;
+    }
+    findings.forEach(finding => {
+        markdown += `### ${finding.title} (${finding.priority})\n\n`;
+        markdown += `${finding.description}\n\n`;
+        finding.evidence.forEach(line => {
+            markdown += `- ${line}\n`;
+        });
+        markdown += `\n`;
+    });
+    return markdown;
+};
+
+const generateCompetitorInventoryMarkdown = (competitors: CompetitorInventory[]): string => {
+    let markdown = `## 🏁 Competitor Inventory\n\n`;
+    markdown += `| Competitor | URLs Found | Status | Main Sections |\n`;
+    markdown += `|---|---|---|---|\n`;
+    competitors.forEach(c => {
+        const sections = c.topics.slice(0, 5).map(t => `${t.segment} (${t.count})`).join(', ');
+        markdown += `| ${c.host} | ${c.status === 'failed' ? '—' : c.totalUrlsFound} | ${c.status === 'failed' ? `failed: ${(c.error || '').replace(/\|/g, '\\|')}` : c.status} | ${sections || '—'} |\n`;
+    });
+    markdown += `\n`;
+    return markdown;
+};
+
+const generatePageSnapshotMarkdown = (snapshots: PageSnapshot[]): string => {
+    const escape = (value: string) => value.replace(/\|/g, '\\|');
+    let markdown = `## 📄 On-Page Extraction\n\n`;
+    markdown += `*Titles, descriptions and headings as fetched from ${snapshots.length} top pages.*\n\n`;
+    markdown += `| Page | Title | Description | H1 | Words | Canonical | Schema |\n`;
+    markdown += `|---|---|---|---|---|---|---|\n`;
+    snapshots.forEach(page => {
+        if (page.error) {
+            markdown += `| ${page.url} | — | — | — | — | — | not fetched: ${escape(page.error)} |\n`;
+            return;
+        }
+        const h1s = page.headings.filter(h => h.level === 1);
+        const canonical = !page.canonical ? 'missing' : page.canonical === page.finalUrl ? 'self' : page.canonical;
+        // History saved before structured data was validated only has the JSON-LD types
+        const schema = page.structuredData
+            ? page.structuredData.map(item => `${item.types.join('/') || 'untyped'}${item.errors.length > 0 ? ` (**${item.errors.length} errors**)` : ''}`).join(', ')
+            : page.jsonLdTypes.join(', ');
+        markdown += `| ${page.url} | ${page.title ? `${escape(page.title)} (${page.title.length})` : '**missing**'} | ${page.metaDescription ? `${page.metaDescription.length} chars` : '**missing**'} | ${h1s.length === 1 ? escape(h1s[0].text) : `**${h1s.length}**`} | ${page.wordCount} | ${canonical} | ${schema || '—'} |\n`;
+    });
+    markdown += `\n`;
+
+    const schemaErrors = snapshots.flatMap(page => (page.structuredData || [])
+        .filter(item => item.errors.length > 0)
+        .map(item => `- ${page.url}: ${item.types.join('/') || 'untyped'} (${item.format}) ${item.errors.join('; ')}\n`));
+    if (schemaErrors.length > 0) {
+        markdown += `**Structured Data Errors:**\n${schemaErrors.join('')}\n`;
+    }
+    return markdown;
+};
+
+const generateLinkGraphMarkdown = (analysis: LinkGraphAnalysis): string => {
+    const orphans = findUnlinkedSitemapPages(analysis);
+    let markdown = `## 🔗 Internal Link Graph\n\n`;
+    markdown += `*Built from ${analysis.linkCount} internal links found on ${analysis.pagesCrawled} crawled pages${analysis.complete ? '' : ' (partial: the link crawl stopped at its budget)'}. Authority is an internal PageRank, 100 for the strongest page.*\n\n`;
+    markdown += `| Page | Authority | Inlinks | Outlinks | Depth |\n`;
+    markdown += `|---|---|---|---|---|\n`;
+    analysis.pages.slice(0, 20).forEach(page => {
+        markdown += `| ${page.url} | ${page.authority} | ${page.inlinks} | ${page.outlinks} | ${page.depth ?? 'not reached'} |\n`;
+    });
+    markdown += `\n`;
+    if (orphans.length > 0) {
+        markdown += `**${analysis.complete ? 'Orphaned sitemap URLs' : `Sitemap URLs ${describeUnlinkedPages(analysis).toLowerCase()}`} (no inlinks):**\n`;
+        orphans.forEach(page => {
+            markdown += `- ${page.url}\n`;
+        });
+        markdown += `\n`;
+    }
+    return markdown;
+};
+
+const generateDuplicateContentMarkdown = (clusters: DuplicateCluster[]): string => {
+    let markdown = `## 🪞 Near-Duplicate Content\n\n`;
+    markdown += `*Pages whose body text shares most of its 5-word phrases. Keep the first URL of each cluster.*\n\n`;
+    clusters.forEach(cluster => {
+        markdown += `**Keep:** ${cluster.primaryUrl} (${cluster.primaryWordCount} words)\n`;
+        cluster.duplicates.forEach(page => {
+            const action = page.canonicalized ? 'canonical already set' : page.action === 'canonical' ? 'add canonical' : 'merge and 301';
+            markdown += `- ${page.url}: ${Math.round(page.similarity * 100)}% similar, ${page.wordCount} words, ${action}\n`;
+        });
+        markdown += `\n`;
+    });
+    return markdown;
+};
+
+const generateHreflangMarkdown = (audit: HreflangAudit): string => {
+    let markdown = `## 🌐 Hreflang Clusters\n\n`;
+    markdown += `*${audit.clustersFound} cluster${audit.clustersFound === 1 ? '' : 's'} from sitemap xhtml:link entries and page alternate tags; ${audit.urlsAnnotated} URLs annotated, ${audit.targetsChecked} alternates status-checked.*\n\n`;
+    audit.clusters.forEach((cluster, i) => {
+        markdown += `**Cluster ${i + 1}**${cluster.hasXDefault ? ' (x-default set)' : ''}\n`;
+        cluster.members.forEach(member => {
+            markdown += `- ${member.hreflang.join(', ') || '—'}: ${member.url}${member.status !== undefined ? ` (${member.status})` : ''}\n`;
+        });
+        cluster.issues.forEach(issue => {
+            markdown += `  - ⚠️ ${issue.type}: ${issue.url}: ${issue.detail}\n`;
+        });
+        markdown += `\n`;
+    });
+    return markdown;
+};
+
+const generateBrokenLinksMarkdown = (report: LinkCheckReport): string => {
+    let markdown = `## 🔗 Broken Links\n\n`;
+    markdown += `*${report.linksFound} links on ${report.pagesScanned} pages; ${report.targetsChecked} of ${report.targetsFound} distinct targets checked.*\n\n`;
+    const section = (title: string, links: LinkCheckReport['internalBroken']) => {
+        if (links.length === 0) return;
+        markdown += `### ${title}\n`;
+        links.forEach(link => {
+            markdown += `- **${link.url}** (${link.status}): ${link.linkCount} link${link.linkCount === 1 ? '' : 's'} from ${link.sources.length} page${link.sources.length === 1 ? '' : 's'}\n`;
+            link.sources.forEach(source => {
+                markdown += `  - ${source.page}${source.anchorText ? ` ("${source.anchorText}")` : ''}\n`;
+            });
+        });
+        markdown += `\n`;
+    };
+    section('Internal', report.internalBroken);
+    section('Outbound', report.outboundBroken);
+    if (report.internalBroken.length === 0 && report.outboundBroken.length === 0) {
+        markdown += `No broken links among the targets checked.\n\n`;
+    }
+    return markdown;
+};
+
+const generateContentDecayMarkdown = (assessments: DecayAssessment[]): string => {
+    let markdown = `## ⏳ Content Decay\n\n`;
+    assessments.forEach(assessment => {
+        markdown += `- **${assessment.url}**: risk ${assessment.score}/100${assessment.lastUpdated ? `, last updated ${assessment.lastUpdated}` : ''}\n`;
+        assessment.signals.forEach(signal => {
+            markdown += `  - ${signal.detail} (+${signal.points})\n`;
+        });
+    });
+    return markdown + `\n`;
+};
 
 export const generateReportMarkdown = (analysis: HistoricalAnalysis): string => {
     let report = `# SEO Strategy Report for ${analysis.sitemapUrl}\n\n`;
@@ -180,5 +414,50 @@ export const generateReportMarkdown = (analysis: HistoricalAnalysis): string =>
         report += generateSitewideAuditMarkdown(analysis.sitewideAnalysis);
     }
 
+    if (analysis.competitorInventories && analysis.competitorInventories.length > 0) {
+        report += `------------------------------\n\n`;
+        report += generateCompetitorInventoryMarkdown(analysis.competitorInventories);
+    }
+
+    if (analysis.pageSnapshots && analysis.pageSnapshots.length > 0) {
+        report += `------------------------------\n\n`;
+        report += generatePageSnapshotMarkdown(analysis.pageSnapshots);
+    }
+
+    if (analysis.linkAnalysis) {
+        report += `------------------------------\n\n`;
+        report += generateLinkGraphMarkdown(analysis.linkAnalysis);
+    }
+
+    if (analysis.duplicateClusters && analysis.duplicateClusters.length > 0) {
+        report += `------------------------------\n\n`;
+        report += generateDuplicateContentMarkdown(analysis.duplicateClusters);
+    }
+
+    if (analysis.hreflangAudit && analysis.hreflangAudit.clustersFound > 0) {
+        report += `------------------------------\n\n`;
+        report += generateHreflangMarkdown(analysis.hreflangAudit);
+    }
+
+    if (analysis.linkCheck && analysis.linkCheck.linksFound > 0) {
+        report += `------------------------------\n\n`;
+        report += generateBrokenLinksMarkdown(analysis.linkCheck);
+    }
+
+    if (analysis.contentDecay && analysis.contentDecay.length > 0) {
+        report += `------------------------------\n\n`;
+        report += generateContentDecayMarkdown(analysis.contentDecay);
+    }
+
+    if (analysis.verifiedFindings) {
+        report += `------------------------------\n\n`;
+        report += generateVerifiedFindingsMarkdown(analysis.verifiedFindings, analysis.urlStatus || []);
+    }
+
+    if (analysis.crawlReport) {
+        report += `------------------------------\n\n`;
+        report += generateCrawlReportMarkdown(analysis.crawlReport);
+    }
+
     return report;
 };
@@ -0,0 +1,131 @@
+export interface RobotsRule {
+    allow: boolean;
+    path: string;   // Path pattern; may contain `*` wildcards and a trailing `$` anchor
+}
+
+export interface RobotsGroup {
+    userAgents: string[];   // Lower-cased user-agent tokens the group applies to
+    rules: RobotsRule[];
+    crawlDelay?: number;
+}
+
+export interface ParsedRobotsTxt {
+    sitemaps: string[];
+    groups: RobotsGroup[];
+}
+
+/**
+ * Parses a robots.txt body. Only the directives the crawler relies on are extracted.
+ * @param text The raw robots.txt content.
+ * @param baseUrl Used to resolve relative `Sitemap:` values (technically invalid, but common).
+ */
+export const parseRobotsTxt = (text: string, baseUrl: string): ParsedRobotsTxt => {
+    const sitemaps: string[] = [];
+    const groups: RobotsGroup[] = [];
+    let currentGroup: RobotsGroup | null = null;
+    let groupHasRules = false;
+
+    text.split(/\r?\n/).forEach(rawLine => {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        const separatorIndex = line.indexOf(':');
+        if (separatorIndex === -1) return;
+
+        const directive = line.slice(0, separatorIndex).trim().toLowerCase();
+        const value = line.slice(separatorIndex + 1).trim();
+
+        switch (directive) {
+            case 'sitemap': {
+                if (!value) return;
+                try {
+                    const resolved = new URL(value, baseUrl).toString();
+                    if (!sitemaps.includes(resolved)) sitemaps.push(resolved);
+                } catch (e) {
+                    console.warn(`Ignoring invalid Sitemap directive in robots.txt: ${value}`);
+                }
+                return;
+            }
+            case 'user-agent': {
+                // Consecutive User-agent lines share one group; a User-agent after rules starts a new one
+                if (!currentGroup || groupHasRules) {
+                    currentGroup = { userAgents: [], rules: [] };
+                    groups.push(currentGroup);
+                    groupHasRules = false;
+                }
+                if (value) currentGroup.userAgents.push(value.toLowerCase());
+                return;
+            }
+            case 'allow':
+            case 'disallow': {
+                if (!currentGroup) return;
+                groupHasRules = true;
+                // An empty Disallow means "allow everything" and adds no rule
+                if (value) currentGroup.rules.push({ allow: directive === 'allow', path: value });
+                return;
+            }
+            case 'crawl-delay': {
+                if (!currentGroup) return;
+                groupHasRules = true;
+                const delay = parseFloat(value);
+                if (!isNaN(delay) && delay >= 0) currentGroup.crawlDelay = delay;
+                return;
+            }
+        }
+    });
+
+    return { sitemaps, groups };
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.+?^{}()|[\]\\]/g, '\\$&');
+
+const ruleMatches = (pattern: string, path: string): boolean => {
+    const anchored = pattern.endsWith('$');
+    const body = (anchored ? pattern.slice(0, -1) : pattern).split('*').map(escapeRegExp).join('.*');
+    return new RegExp(`^${body}${anchored ? '$' : ''}`).test(path);
+};
+
+/**
+ * Picks the group that applies to a crawler: the one naming the longest matching user-agent token,
+ * falling back to the `*` group.
+ */
+export const findRobotsGroup = (robots: ParsedRobotsTxt, userAgent: string): RobotsGroup | null => {
+    const agent = userAgent.toLowerCase();
+    let bestGroup: RobotsGroup | null = null;
+    let bestLength = 0;
+    for (const group of robots.groups) {
+        for (const token of group.userAgents) {
+            if (token !== '*' && agent.includes(token) && token.length > bestLength) {
+                bestGroup = group;
+                bestLength = token.length;
+            }
+        }
+    }
+    if (bestGroup) return bestGroup;
+    return robots.groups.find(g => g.userAgents.includes('*')) || null;
+};
+
+/**
+ * Checks a URL against robots.txt (RFC 9309): the most specific (longest) matching rule wins,
+ * and Allow wins a tie. URLs with no matching rule are allowed.
+ */
+export const isAllowedByRobots = (robots: ParsedRobotsTxt | null, url: string, userAgent: string): boolean => {
+    if (!robots) return true;
+    const group = findRobotsGroup(robots, userAgent);
+    if (!group || group.rules.length === 0) return true;
+
+    let path: string;
+    try {
+        const parsed = new URL(url);
+        path = decodeURIComponent(parsed.pathname) + parsed.search;
+    } catch (e) {
+        return true;
+    }
+
+    let verdict: RobotsRule | null = null;
+    for (const rule of group.rules) {
+        if (!ruleMatches(rule.path, path)) continue;
+        if (!verdict || rule.path.length > verdict.path.length || (rule.path.length === verdict.path.length && rule.allow)) {
+            verdict = rule;
+        }
+    }
+    return verdict ? verdict.allow : true;
+};
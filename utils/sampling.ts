@@ -0,0 +1,105 @@
+export interface Reservoir<T> {
+    capacity: number;
+    seen: number;   // Items offered so far, including those not kept
+    items: T[];
+    random: () => number;
+}
+
+export const createReservoir = <T>(capacity: number, random: () => number = Math.random): Reservoir<T> => ({ capacity, seen: 0, items: [], random });
+
+/**
+ * A pseudo-random generator in [0, 1) seeded from a string (FNV-1a hash into mulberry32), so the
+ * same input stream always yields the same sample.
+ */
+export const createSeededRandom = (seed: string): (() => number) => {
+    let state = 2166136261;
+    for (let i = 0; i < seed.length; i++) {
+        state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+    }
+    return () => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/**
+ * Offers an item to the reservoir (Algorithm R). After any number of offers, `items` is a uniform
+ * random sample of everything offered, without holding the full stream in memory.
+ */
+export const addToReservoir = <T>(reservoir: Reservoir<T>, item: T): void => {
+    reservoir.seen++;
+    if (reservoir.items.length < reservoir.capacity) {
+        reservoir.items.push(item);
+        return;
+    }
+    const index = Math.floor(reservoir.random() * reservoir.seen);
+    if (index < reservoir.capacity) {
+        reservoir.items[index] = item;
+    }
+};
+
+/**
+ * Picks `count` items uniformly at random (partial Fisher-Yates on a copy).
+ */
+export const sampleWithoutReplacement = <T>(items: T[], count: number, random: () => number = Math.random): T[] => {
+    if (count >= items.length) return [...items];
+    const pool = [...items];
+    for (let i = 0; i < count; i++) {
+        const j = i + Math.floor(random() * (pool.length - i));
+        [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool.slice(0, count);
+};
+
+/**
+ * Splits a sample budget across strata proportionally to their size, guaranteeing every non-empty
+ * stratum at least one slot (when the budget allows) so small sections are still represented.
+ * Uses the largest-remainder method; no stratum is given more than it holds.
+ * @param totals The number of items in each stratum.
+ * @param budget The total number of items to sample.
+ * @returns The number of items to take from each stratum, in the same order as `totals`.
+ */
+export const allocateProportionalQuotas = (totals: number[], budget: number): number[] => {
+    const grandTotal = totals.reduce((sum, t) => sum + t, 0);
+    if (grandTotal <= budget) return [...totals];
+
+    const quotas = totals.map(() => 0);
+    let remaining = budget;
+
+    // Guarantee one slot per non-empty stratum, largest strata first if the budget is tiny
+    const bySize = totals.map((t, i) => i).filter(i => totals[i] > 0).sort((a, b) => totals[b] - totals[a]);
+    for (const i of bySize) {
+        if (remaining === 0) break;
+        quotas[i] = 1;
+        remaining--;
+    }
+
+    // Distribute the rest proportionally, re-running until leftovers (from capped strata) are placed
+    while (remaining > 0) {
+        const open = bySize.filter(i => quotas[i] < totals[i]);
+        if (open.length === 0) break;
+        const openTotal = open.reduce((sum, i) => sum + (totals[i] - quotas[i]), 0);
+        const shares = open.map(i => ({ i, exact: (remaining * (totals[i] - quotas[i])) / openTotal }));
+
+        let placed = 0;
+        shares.forEach(share => {
+            const whole = Math.min(Math.floor(share.exact), totals[share.i] - quotas[share.i]);
+            quotas[share.i] += whole;
+            placed += whole;
+        });
+        let leftover = remaining - placed;
+        shares
+            .sort((a, b) => (b.exact - Math.floor(b.exact)) - (a.exact - Math.floor(a.exact)))
+            .forEach(share => {
+                if (leftover > 0 && quotas[share.i] < totals[share.i]) {
+                    quotas[share.i]++;
+                    leftover--;
+                }
+            });
+        remaining = leftover;
+    }
+
+    return quotas;
+};
@@ -0,0 +1,134 @@
+import type { StructuredDataItem } from '../types';
+import type { SchemaNode, SchemaValue } from './structuredData';
+
+// Nested problems beyond this many per item are summarized, so one broken FAQ doesn't flood the report
+const MAX_NESTED_ERRORS = 5;
+
+interface SchemaRule {
+    types: string[];            // The type and the subtypes sites commonly use instead
+    required: string[];         // "a|b" is satisfied by either property
+    recommended: string[];
+    checkNested?: (node: SchemaNode) => string[];
+}
+
+const hasValue = (values: SchemaValue[] | undefined): boolean =>
+    !!values && values.some(value => typeof value !== 'string' || value.trim() !== '');
+
+const hasProperty = (node: SchemaNode, spec: string): boolean => spec.split('|').some(name => hasValue(node.properties[name]));
+
+const describeSpec = (spec: string): string => spec.split('|').map(name => `"${name}"`).join(' or ');
+
+const nodesOf = (node: SchemaNode, property: string): SchemaNode[] =>
+    (node.properties[property] || []).filter((value): value is SchemaNode => typeof value !== 'string');
+
+const isType = (node: SchemaNode, ...types: string[]) => node.types.some(type => types.includes(type));
+
+// Checks each nested item of `property` and labels problems by position, e.g. `Question 2 in "mainEntity" is missing "acceptedAnswer"`
+const checkEach = (node: SchemaNode, property: string, label: string, check: (item: SchemaValue, index: number, all: SchemaValue[]) => string[]): string[] => {
+    const items = node.properties[property] || [];
+    return items.flatMap((item, index) => check(item, index, items).map(problem => `${label} ${index + 1} in "${property}" ${problem}`));
+};
+
+const missing = (item: SchemaNode, specs: string[]): string[] =>
+    specs.filter(spec => !hasProperty(item, spec)).map(spec => `is missing ${describeSpec(spec)}`);
+
+const RULES: SchemaRule[] = [
+    {
+        types: ['Article', 'NewsArticle', 'BlogPosting', 'TechArticle', 'Report', 'ScholarlyArticle'],
+        required: ['headline'],
+        recommended: ['author', 'datePublished', 'dateModified', 'image'],
+    },
+    {
+        types: ['Product', 'ProductGroup'],
+        required: ['name', 'offers|review|aggregateRating'],
+        recommended: ['image', 'description', 'brand', 'sku'],
+        checkNested: node => [
+            ...checkEach(node, 'offers', 'Offer', item => {
+                if (typeof item === 'string') return ['is text, not an Offer'];
+                return isType(item, 'AggregateOffer') ? missing(item, ['lowPrice', 'priceCurrency']) : missing(item, ['price|priceSpecification', 'priceCurrency']);
+            }),
+            ...nodesOf(node, 'aggregateRating').flatMap(rating =>
+                missing(rating, ['ratingValue', 'reviewCount|ratingCount']).map(problem => `"aggregateRating" ${problem}`)),
+        ],
+    },
+    {
+        types: ['FAQPage'],
+        required: ['mainEntity'],
+        recommended: [],
+        checkNested: node => checkEach(node, 'mainEntity', 'Question', item => {
+            if (typeof item === 'string' || !isType(item, 'Question')) return ['is not a Question'];
+            const answers = nodesOf(item, 'acceptedAnswer');
+            return [
+                ...missing(item, ['name', 'acceptedAnswer']),
+                ...(hasProperty(item, 'acceptedAnswer') && !answers.some(answer => hasProperty(answer, 'text')) ? ['has an answer without "text"'] : []),
+            ];
+        }),
+    },
+    {
+        types: ['HowTo'],
+        required: ['name', 'step'],
+        recommended: ['image', 'totalTime', 'supply', 'tool'],
+        checkNested: node => checkEach(node, 'step', 'Step', item => {
+            if (typeof item === 'string') return ['is text, not a HowToStep'];
+            return isType(item, 'HowToSection') ? missing(item, ['itemListElement']) : missing(item, ['text|itemListElement']);
+        }),
+    },
+    {
+        types: [
+            'LocalBusiness', 'Store', 'Restaurant', 'FoodEstablishment', 'CafeOrCoffeeShop', 'BarOrPub', 'Bakery',
+            'ProfessionalService', 'LegalService', 'Attorney', 'FinancialService', 'RealEstateAgent', 'AutomotiveBusiness', 'AutoRepair',
+            'HomeAndConstructionBusiness', 'Plumber', 'Electrician', 'HealthAndBeautyBusiness', 'MedicalBusiness', 'Dentist',
+            'LodgingBusiness', 'Hotel',
+        ],
+        required: ['name', 'address'],
+        recommended: ['telephone', 'url', 'openingHoursSpecification|openingHours', 'geo', 'image', 'priceRange'],
+    },
+    {
+        types: ['BreadcrumbList'],
+        required: ['itemListElement'],
+        recommended: [],
+        checkNested: node => checkEach(node, 'itemListElement', 'Item', (item, index, all) => {
+            if (typeof item === 'string' || !isType(item, 'ListItem')) return ['is not a ListItem'];
+            const named = hasProperty(item, 'name') || nodesOf(item, 'item').some(target => hasProperty(target, 'name'));
+            return [
+                ...missing(item, ['position']),
+                ...(named ? [] : ['is missing "name"']),
+                // Google allows the last crumb (the current page) to omit its URL
+                ...(index < all.length - 1 ? missing(item, ['item']) : []),
+            ];
+        }),
+    },
+    {
+        types: ['Organization', 'Corporation', 'NGO', 'EducationalOrganization', 'OnlineStore'],
+        required: ['name'],
+        recommended: ['url', 'logo', 'sameAs'],
+    },
+];
+
+/**
+ * Checks a top-level item against the required and recommended properties of the rich-result types we
+ * audit. Items of other types are reported with their properties and no issues.
+ */
+export const validateSchemaNode = (node: SchemaNode): StructuredDataItem => {
+    const rule = RULES.find(r => isType(node, ...r.types));
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (node.types.length === 0) {
+        errors.push('has no type');
+    } else if (rule) {
+        rule.required.filter(spec => !hasProperty(node, spec)).forEach(spec => errors.push(`missing required ${describeSpec(spec)}`));
+        rule.recommended.filter(spec => !hasProperty(node, spec)).forEach(spec => warnings.push(`missing recommended ${describeSpec(spec)}`));
+        const nested = rule.checkNested?.(node) || [];
+        errors.push(...nested.slice(0, MAX_NESTED_ERRORS));
+        if (nested.length > MAX_NESTED_ERRORS) errors.push(`...and ${nested.length - MAX_NESTED_ERRORS} more nested problems`);
+    }
+
+    return {
+        format: node.format,
+        types: node.types,
+        properties: Object.keys(node.properties),
+        errors,
+        warnings,
+    };
+};
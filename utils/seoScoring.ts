@@ -1,3 +1,6 @@
+import type { SitemapEntry, SectionCoverage, UrlNormalizationRules } from '../types';
+import { allocateProportionalQuotas } from './sampling';
+import { DEFAULT_URL_NORMALIZATION, normalizeUrl } from './urlNormalization';
 
 const KEYWORD_BOOSTS: { [key: string]: number } = {
     // Commercial keywords
@@ -77,14 +80,89 @@ const calculateScore = (url: string): number => {
     }
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Adjusts the URL heuristic score with the signals the sitemap itself declares.
+ */
+const calculateEntryScore = (entry: SitemapEntry): number => {
+    let score = calculateScore(entry.loc);
+    if (score === 0) return 0; // Excluded files stay excluded
+
+    // 1. Declared <priority> (0.5 is the protocol default, so it is neutral)
+    if (entry.priority !== undefined) {
+        score += (entry.priority - 0.5) * 20;
+    }
+
+    // 2. Freshness from <lastmod>: recently maintained pages matter more, long-abandoned ones less
+    if (entry.lastmod) {
+        const lastmod = Date.parse(entry.lastmod);
+        if (!isNaN(lastmod)) {
+            const ageDays = (Date.now() - lastmod) / DAY_MS;
+            if (ageDays <= 90) score += 5;
+            else if (ageDays > 730) score -= 5;
+        }
+    }
+
+    // 3. Rich media and international alternates signal pages the site invests in
+    if (entry.videos?.length) score += 4;
+    if (entry.images && entry.images.length >= 3) score += 2;
+    if (entry.alternates?.length) score += 3;
+
+    return Math.max(0, score);
+};
+
 /**
- * Ranks an array of URLs based on their estimated SEO importance.
- * @param urls An array of URL strings.
- * @returns A new array of URL strings sorted from most to least important.
+ * Ranks sitemap entries based on their estimated SEO importance.
+ * Entries that normalize to the same URL are ranked once, keeping the best-scoring variant.
+ * @param entries An array of sitemap entries.
+ * @param rules The URL normalization rules that decide which entries are the same page.
+ * @returns A new array of entries sorted from most to least important.
  */
-export const rankUrls = (urls: string[]): string[] => {
-    return [...urls]
-        .map(url => ({ url, score: calculateScore(url) }))
+export const rankUrls = (entries: SitemapEntry[], rules: UrlNormalizationRules = DEFAULT_URL_NORMALIZATION): SitemapEntry[] => {
+    const best = new Map<string, { entry: SitemapEntry; score: number }>();
+    entries.forEach(entry => {
+        const key = normalizeUrl(entry.loc, rules);
+        const score = calculateEntryScore(entry);
+        const current = best.get(key);
+        if (!current || score > current.score) best.set(key, { entry, score });
+    });
+    return Array.from(best.values())
         .sort((a, b) => b.score - a.score)
-        .map(item => item.url);
+        .map(item => item.entry);
+};
+
+/**
+ * Picks the `limit` most important entries while keeping every sitemap section represented in
+ * proportion to its share of the whole site, instead of letting the highest-scoring section take every slot.
+ * @param rankedEntries Entries already sorted by `rankUrls`.
+ * @param coverage Per-section totals from the crawl; used as the proportional weights.
+ * @param limit The number of entries to return.
+ * @returns The selected entries, still in rank order.
+ */
+export const selectRepresentativeEntries = (rankedEntries: SitemapEntry[], coverage: SectionCoverage[], limit: number): SitemapEntry[] => {
+    if (rankedEntries.length <= limit || coverage.length === 0) return rankedEntries.slice(0, limit);
+
+    const sampledBySection = new Map<string, SitemapEntry[]>();
+    rankedEntries.forEach(entry => {
+        const key = entry.sourceSitemap || '';
+        if (!sampledBySection.has(key)) sampledBySection.set(key, []);
+        sampledBySection.get(key)!.push(entry);
+    });
+
+    // Weight by the section's real size, but never ask a section for more entries than were sampled from it
+    const sectionKeys = Array.from(sampledBySection.keys());
+    const totalsByKey = new Map(coverage.map(c => [c.sitemap, c.totalUrls]));
+    const quotas = allocateProportionalQuotas(sectionKeys.map(key => totalsByKey.get(key) || sampledBySection.get(key)!.length), limit);
+
+    const selected = new Set<SitemapEntry>();
+    sectionKeys.forEach((key, i) => {
+        sampledBySection.get(key)!.slice(0, quotas[i]).forEach(entry => selected.add(entry));
+    });
+    // Capped sections can leave slots unused; fill them with the best remaining entries overall
+    for (const entry of rankedEntries) {
+        if (selected.size >= limit) break;
+        selected.add(entry);
+    }
+    return rankedEntries.filter(entry => selected.has(entry));
 };
@@ -0,0 +1,227 @@
+import type { AuditFinding, SamplingMode, SectionCoverage, SitemapEntry, SitemapFormat, UrlNormalizationRules, UrlVariantGroup } from '../types';
+import { parseSitemapContent } from './sitemapParser';
+import { createReservoir, createSeededRandom, addToReservoir, sampleWithoutReplacement, allocateProportionalQuotas } from './sampling';
+import type { Reservoir } from './sampling';
+import { createSitemapValidator, inspectSitemapFile, buildSitemapFindings } from './sitemapValidator';
+import type { SitemapValidationState } from './sitemapValidator';
+import { normalizeUrl, createUrlVariantTracker, registerUrlVariant, getMergedVariantGroups } from './urlNormalization';
+import type { UrlVariantTracker } from './urlNormalization';
+import { rankUrls } from './seoScoring';
+
+// Everything here is DOM-free so it can run in workers/sitemapInventory.worker.ts, off the main thread.
+
+// How often a large file reports progress while its entries are being inventoried
+const PROGRESS_INTERVAL = 2000;
+
+export interface SitemapInventoryOptions {
+    maxUrls: number;
+    samplingMode: SamplingMode;
+    urlNormalization: UrlNormalizationRules;
+}
+
+export interface SitemapFileInput {
+    url: string;
+    body: ArrayBuffer;          // Raw response body, possibly gzipped
+    depth: number;              // 0 for seed sitemaps, 1 for children of an index, ...
+    parentSitemap?: string;
+}
+
+export interface SitemapFileResult {
+    format: SitemapFormat;
+    decodedBytes: number;
+    urlCount: number;           // Entries listed in the file, before deduplication
+    childSitemaps: string[];    // Only for sitemap indexes
+    newUrls: number;
+    pagesFound: number;         // Unique URLs inventoried so far, across all files
+    lastUrlFound?: string;
+    sampleFull: boolean;        // first-come mode: the URL budget is used up
+}
+
+export type SitemapFileOutcome =
+    | { status: 'parsed'; result: SitemapFileResult }
+    | { status: 'failed'; stage: 'read' | 'parse'; error: string };
+
+export interface SitemapInventoryProgress {
+    sitemapUrl: string;
+    pagesFound: number;
+    lastUrlFound?: string;
+}
+
+export interface SitemapInventoryResult {
+    entries: SitemapEntry[];    // The sample, ranked most important first
+    coverage: SectionCoverage[];
+    totalUrlsFound: number;
+    sitemapFindings: AuditFinding[];
+    urlVariantsMerged: number;
+    mergedVariants: UrlVariantGroup[];
+}
+
+export interface SitemapInventory {
+    options: SitemapInventoryOptions;
+    // Dedupes across sections by normalized URL, so a URL listed twice (or once with a trailing slash
+    // and once without) counts once. Entries keep the URL as published.
+    seenUrls: UrlVariantTracker;
+    sections: Map<string, { total: number; reservoir: Reservoir<SitemapEntry> }>;
+    firstCome: Map<string, SitemapEntry>;
+    validator: SitemapValidationState;
+}
+
+export const createSitemapInventory = (options: SitemapInventoryOptions): SitemapInventory => ({
+    options: { ...options, maxUrls: Math.max(1, options.maxUrls) },
+    seenUrls: createUrlVariantTracker(),
+    sections: new Map(),
+    firstCome: new Map(),
+    validator: createSitemapValidator(),
+});
+
+const isGzip = (bytes: Uint8Array): boolean => bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+/**
+ * Decodes a sitemap response body as text, transparently inflating `.xml.gz` payloads.
+ * Servers that send `Content-Encoding: gzip` are already decoded by fetch, so we sniff the
+ * gzip magic bytes instead of trusting the file extension or headers.
+ */
+export const decodeSitemapBody = async (body: ArrayBuffer): Promise<{ text: string, decodedBytes: number }> => {
+    const bytes = new Uint8Array(body);
+    if (!isGzip(bytes)) {
+        return { text: new TextDecoder().decode(bytes), decodedBytes: bytes.length };
+    }
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+    const decoded = new Uint8Array(await new Response(stream).arrayBuffer());
+    return { text: new TextDecoder().decode(decoded), decodedBytes: decoded.length };
+};
+
+const addSitemapFile = (
+    inventory: SitemapInventory,
+    file: SitemapFileInput,
+    text: string,
+    decodedBytes: number,
+    onProgress: (progress: SitemapInventoryProgress) => void
+): SitemapFileResult => {
+    const { options, seenUrls, sections, firstCome } = inventory;
+    const isStratified = options.samplingMode === 'stratified';
+    const parsed = parseSitemapContent(text);
+    const duplicateLocs: string[] = [];
+    let newUrls = 0;
+    let lastUrlFound: string | undefined;
+
+    if (parsed.format !== 'sitemapindex') {
+        // Extract entries (urlset, RSS/Atom feed or plain-text list). The sample is seeded from the sitemap URL,
+        // so an unchanged sitemap yields the same pages on every run and the analysis cache can hit.
+        const section = sections.get(file.url) || { total: 0, reservoir: createReservoir<SitemapEntry>(isStratified ? options.maxUrls : 0, createSeededRandom(file.url)) };
+        sections.set(file.url, section);
+        for (const entry of parsed.entries) {
+            const registered = registerUrlVariant(seenUrls, entry.loc, normalizeUrl(entry.loc, options.urlNormalization));
+            if (registered !== 'new') {
+                // Spelling variants are reported as merged URLs, not as protocol duplicates
+                if (registered === 'repeat') duplicateLocs.push(entry.loc);
+                continue;
+            }
+            section.total++;
+            lastUrlFound = entry.loc;
+            newUrls++;
+
+            const sourcedEntry = { ...entry, sourceSitemap: file.url };
+            if (isStratified) {
+                addToReservoir(section.reservoir, sourcedEntry);
+            } else if (firstCome.size < options.maxUrls) {
+                firstCome.set(entry.loc, sourcedEntry);
+            }
+            if (newUrls % PROGRESS_INTERVAL === 0) {
+                onProgress({ sitemapUrl: file.url, pagesFound: seenUrls.seen.size, lastUrlFound });
+            }
+        }
+    }
+
+    inspectSitemapFile(inventory.validator, {
+        url: file.url,
+        format: parsed.format,
+        decodedBytes,
+        depth: file.depth,
+        parentSitemap: file.parentSitemap,
+        entries: parsed.entries,
+        childSitemaps: parsed.sitemaps,
+        duplicateLocs,
+    });
+
+    return {
+        format: parsed.format,
+        decodedBytes,
+        urlCount: parsed.entries.length,
+        childSitemaps: parsed.sitemaps,
+        newUrls,
+        pagesFound: seenUrls.seen.size,
+        lastUrlFound,
+        sampleFull: !isStratified && firstCome.size >= options.maxUrls,
+    };
+};
+
+/**
+ * Decodes, parses, dedupes and samples one fetched sitemap file, and checks it against the protocol.
+ * Failures are returned rather than thrown, tagged with the stage that failed.
+ */
+export const processSitemapFile = async (
+    inventory: SitemapInventory,
+    file: SitemapFileInput,
+    onProgress: (progress: SitemapInventoryProgress) => void
+): Promise<SitemapFileOutcome> => {
+    let decoded: { text: string, decodedBytes: number };
+    try {
+        decoded = await decodeSitemapBody(file.body);
+    } catch (e) {
+        return { status: 'failed', stage: 'read', error: e instanceof Error ? e.message : String(e) };
+    }
+    try {
+        return { status: 'parsed', result: addSitemapFile(inventory, file, decoded.text, decoded.decodedBytes, onProgress) };
+    } catch (e) {
+        return { status: 'failed', stage: 'parse', error: e instanceof Error ? e.message : String(e) };
+    }
+};
+
+/**
+ * Draws the final sample (proportionally across sections in stratified mode, repeatably) and ranks it.
+ */
+export const finishSitemapInventory = (inventory: SitemapInventory): SitemapInventoryResult => {
+    const { options, sections, seenUrls } = inventory;
+    const sectionList = Array.from(sections.entries());
+    let coverage: SectionCoverage[];
+    let entries: SitemapEntry[];
+
+    if (options.samplingMode === 'stratified') {
+        const quotas = allocateProportionalQuotas(sectionList.map(([, section]) => section.total), options.maxUrls);
+        entries = [];
+        coverage = sectionList.map(([sitemap, section], i) => {
+            const sample = sampleWithoutReplacement(section.reservoir.items, quotas[i], section.reservoir.random);
+            entries.push(...sample);
+            return { sitemap, totalUrls: section.total, sampledUrls: sample.length };
+        });
+    } else {
+        entries = Array.from(inventory.firstCome.values());
+        const sampledPerSection = new Map<string, number>();
+        entries.forEach(e => sampledPerSection.set(e.sourceSitemap!, (sampledPerSection.get(e.sourceSitemap!) || 0) + 1));
+        coverage = sectionList.map(([sitemap, section]) => ({ sitemap, totalUrls: section.total, sampledUrls: sampledPerSection.get(sitemap) || 0 }));
+    }
+
+    return {
+        entries: rankUrls(entries, options.urlNormalization),
+        coverage: coverage.sort((a, b) => b.totalUrls - a.totalUrls),
+        totalUrlsFound: seenUrls.seen.size,
+        sitemapFindings: buildSitemapFindings(inventory.validator),
+        urlVariantsMerged: seenUrls.mergedCount,
+        mergedVariants: getMergedVariantGroups(seenUrls),
+    };
+};
+
+// --- Messages exchanged with the sitemap worker ---
+
+export type SitemapWorkerRequest =
+    | { type: 'init'; options: SitemapInventoryOptions }
+    | { type: 'file'; id: number; file: SitemapFileInput }
+    | { type: 'finish'; id: number };
+
+export type SitemapWorkerResponse =
+    | { type: 'ready' }
+    | { type: 'progress'; progress: SitemapInventoryProgress }
+    | { type: 'file'; id: number; outcome: SitemapFileOutcome }
+    | { type: 'finished'; id: number; result: SitemapInventoryResult }
+    | { type: 'error'; id: number; error: string };
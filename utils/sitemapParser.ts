@@ -0,0 +1,164 @@
+import type { SitemapEntry, SitemapImage, SitemapVideo, SitemapNews, HreflangAlternate, SitemapFormat } from '../types';
+import { parseXml, findDescendants } from './xmlParser';
+import type { XmlElement } from './xmlParser';
+
+export interface ParsedSitemap {
+    format: SitemapFormat;
+    sitemaps: string[];       // Child sitemaps (only for sitemap indexes)
+    entries: SitemapEntry[];  // Page entries with whatever metadata the format carries
+}
+
+const CHANGEFREQ_VALUES: SitemapEntry['changefreq'][] = ['always', 'hourly', 'daily', 'weekly', 'monthly', 'yearly', 'never'];
+
+// Namespaced extension elements (image:image, xhtml:link, ...) are matched by local name so
+// we don't depend on the prefix a given CMS happens to declare.
+const childElements = (parent: XmlElement, localName: string): XmlElement[] =>
+    parent.children.filter(el => el.localName === localName);
+
+const childText = (parent: XmlElement, localName: string): string | undefined =>
+    childElements(parent, localName)[0]?.text.trim() || undefined;
+
+const toIsoDate = (value: string | undefined): string | undefined => {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const parseImages = (urlEl: XmlElement): SitemapImage[] =>
+    childElements(urlEl, 'image')
+        .map(img => ({
+            loc: childText(img, 'loc') || '',
+            title: childText(img, 'title'),
+            caption: childText(img, 'caption'),
+        }))
+        .filter(img => img.loc);
+
+const parseVideos = (urlEl: XmlElement): SitemapVideo[] =>
+    childElements(urlEl, 'video').map(video => {
+        const duration = Number(childText(video, 'duration'));
+        return {
+            title: childText(video, 'title'),
+            description: childText(video, 'description'),
+            thumbnailLoc: childText(video, 'thumbnail_loc'),
+            contentLoc: childText(video, 'content_loc'),
+            playerLoc: childText(video, 'player_loc'),
+            duration: Number.isFinite(duration) && duration > 0 ? duration : undefined,
+            publicationDate: childText(video, 'publication_date'),
+        };
+    });
+
+const parseNews = (urlEl: XmlElement): SitemapNews | undefined => {
+    const news = childElements(urlEl, 'news')[0];
+    if (!news) return undefined;
+    const publication = childElements(news, 'publication')[0];
+    return {
+        publicationName: publication ? childText(publication, 'name') : undefined,
+        language: publication ? childText(publication, 'language') : undefined,
+        title: childText(news, 'title'),
+        publicationDate: childText(news, 'publication_date'),
+    };
+};
+
+const parseAlternates = (urlEl: XmlElement): HreflangAlternate[] =>
+    childElements(urlEl, 'link')
+        .filter(link => link.attributes.rel === 'alternate' && link.attributes.hreflang && link.attributes.href)
+        .map(link => ({ hreflang: link.attributes.hreflang.trim(), href: link.attributes.href.trim() }));
+
+const parseUrlElement = (urlEl: XmlElement): SitemapEntry | null => {
+    const loc = childText(urlEl, 'loc');
+    if (!loc) return null;
+
+    const entry: SitemapEntry = { loc };
+
+    const lastmod = childText(urlEl, 'lastmod');
+    if (lastmod) entry.lastmod = lastmod;
+
+    const changefreq = childText(urlEl, 'changefreq')?.toLowerCase() as SitemapEntry['changefreq'];
+    if (changefreq && CHANGEFREQ_VALUES.includes(changefreq)) entry.changefreq = changefreq;
+
+    const priority = parseFloat(childText(urlEl, 'priority') || '');
+    if (!isNaN(priority)) entry.priority = Math.min(1, Math.max(0, priority));
+
+    const images = parseImages(urlEl);
+    if (images.length > 0) entry.images = images;
+
+    const videos = parseVideos(urlEl);
+    if (videos.length > 0) entry.videos = videos;
+
+    const news = parseNews(urlEl);
+    if (news) entry.news = news;
+
+    const alternates = parseAlternates(urlEl);
+    if (alternates.length > 0) entry.alternates = alternates;
+
+    return entry;
+};
+
+/**
+ * Plain-text sitemaps are one absolute URL per line (sitemap protocol, section "Text file").
+ */
+const parseTextSitemap = (text: string): ParsedSitemap => {
+    const entries = text
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => /^https?:\/\/\S+$/i.test(line))
+        .map(loc => ({ loc }));
+    return { format: 'text', sitemaps: [], entries };
+};
+
+const parseXmlSitemap = (text: string): ParsedSitemap => {
+    const root = parseXml(text);
+
+    switch (root.localName.toLowerCase()) {
+        case 'sitemapindex': {
+            const sitemaps = childElements(root, 'sitemap')
+                .map(el => childText(el, 'loc'))
+                .filter(Boolean) as string[];
+            return { format: 'sitemapindex', sitemaps, entries: [] };
+        }
+        case 'urlset': {
+            const entries = childElements(root, 'url')
+                .map(parseUrlElement)
+                .filter(Boolean) as SitemapEntry[];
+            return { format: 'urlset', sitemaps: [], entries };
+        }
+        case 'rss':
+        case 'rdf': {
+            // RSS 2.0 (<rss><channel><item>) and RSS 1.0 (<rdf:RDF><item>)
+            const entries = findDescendants(root, 'item').map(item => {
+                const loc = childText(item, 'link');
+                if (!loc) return null;
+                const lastmod = toIsoDate(childText(item, 'pubDate') || childText(item, 'date'));
+                return lastmod ? { loc, lastmod } : { loc };
+            }).filter(Boolean) as SitemapEntry[];
+            return { format: 'rss', sitemaps: [], entries };
+        }
+        case 'feed': {
+            // Atom: prefer rel="alternate" (or rel-less) links, which point to the HTML page
+            const entries = childElements(root, 'entry').map(entry => {
+                const links = childElements(entry, 'link');
+                const pageLink = links.find(l => !l.attributes.rel || l.attributes.rel === 'alternate') || links[0];
+                const loc = pageLink?.attributes.href?.trim();
+                if (!loc) return null;
+                const lastmod = toIsoDate(childText(entry, 'updated') || childText(entry, 'published'));
+                return lastmod ? { loc, lastmod } : { loc };
+            }).filter(Boolean) as SitemapEntry[];
+            return { format: 'atom', sitemaps: [], entries };
+        }
+        default:
+            throw new Error(`Unsupported sitemap root element <${root.name}>`);
+    }
+};
+
+/**
+ * Parses any format the sitemap protocol allows: XML sitemaps and indexes, RSS/Atom feeds and plain-text URL lists.
+ * Doesn't touch the DOM, so it runs in the sitemap worker as well as on the main thread.
+ * @param text The (already decompressed) sitemap body.
+ */
+export const parseSitemapContent = (text: string): ParsedSitemap => {
+    const trimmed = text.replace(/^\uFEFF/, '').trim();
+    if (trimmed.startsWith('<')) {
+        return parseXmlSitemap(trimmed);
+    }
+    return parseTextSitemap(trimmed);
+};
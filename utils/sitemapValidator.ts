@@ -0,0 +1,202 @@
+import type { AuditFinding, SitemapEntry, SitemapFormat } from '../types';
+
+// Limits from the sitemap protocol (sitemaps.org). Size is measured uncompressed.
+export const SITEMAP_MAX_URLS = 50000;
+export const SITEMAP_MAX_BYTES = 50 * 1024 * 1024;
+
+const MAX_EXAMPLES = 10;
+// Allow a day of clock skew before calling a lastmod "in the future"
+const FUTURE_TOLERANCE_MS = 24 * 60 * 60 * 1000;
+
+// W3C Datetime, the only format the protocol allows: YYYY, YYYY-MM, YYYY-MM-DD or a full timestamp with a timezone
+const W3C_DATETIME = /^(\d{4})(?:-(\d{2})(?:-(\d{2})(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2}))?)?)?$/;
+
+type SitemapRule = 'too-many-urls' | 'too-large' | 'relative-url' | 'cross-host' | 'duplicate-loc' | 'invalid-lastmod' | 'nested-index';
+
+interface RuleTally {
+    count: number;
+    examples: string[];
+    sitemaps: Set<string>;
+}
+
+export interface SitemapValidationState {
+    tallies: Map<SitemapRule, RuleTally>;
+    // http/https mixing is judged across the whole site, so both sides are tallied and the minority reported
+    protocols: Record<'http:' | 'https:', RuleTally>;
+    filesInspected: number;
+}
+
+export interface InspectedSitemapFile {
+    url: string;
+    format: SitemapFormat;
+    decodedBytes: number;
+    depth: number;              // 0 for seed sitemaps, 1 for children of an index, ...
+    parentSitemap?: string;
+    entries: SitemapEntry[];
+    childSitemaps: string[];
+    duplicateLocs: string[];    // Entries whose <loc> was already seen in this or an earlier file
+}
+
+const createTally = (): RuleTally => ({ count: 0, examples: [], sitemaps: new Set() });
+
+export const createSitemapValidator = (): SitemapValidationState => ({
+    tallies: new Map(),
+    protocols: { 'http:': createTally(), 'https:': createTally() },
+    filesInspected: 0,
+});
+
+const record = (tally: RuleTally, sitemapUrl: string, example: string) => {
+    tally.count++;
+    tally.sitemaps.add(sitemapUrl);
+    if (tally.examples.length < MAX_EXAMPLES) tally.examples.push(example);
+};
+
+const recordRule = (state: SitemapValidationState, rule: SitemapRule, sitemapUrl: string, example: string) => {
+    let tally = state.tallies.get(rule);
+    if (!tally) {
+        tally = createTally();
+        state.tallies.set(rule, tally);
+    }
+    record(tally, sitemapUrl, example);
+};
+
+export const isValidLastmod = (value: string, now = Date.now()): boolean => {
+    const match = W3C_DATETIME.exec(value.trim());
+    if (!match) return false;
+    const [, year, month, day] = match;
+    if (month && (Number(month) < 1 || Number(month) > 12)) return false;
+    if (day) {
+        const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+        if (date.getUTCDate() !== Number(day)) return false;
+    }
+    const time = new Date(value).getTime();
+    return !isNaN(time) && time <= now + FUTURE_TOLERANCE_MS;
+};
+
+/**
+ * Checks one fetched sitemap file against the protocol and accumulates the problems in `state`.
+ * Only counts and a few examples are kept, so it is safe to run over very large inventories.
+ */
+export const inspectSitemapFile = (state: SitemapValidationState, file: InspectedSitemapFile) => {
+    state.filesInspected++;
+    const sitemapHost = new URL(file.url).host;
+    const itemCount = file.format === 'sitemapindex' ? file.childSitemaps.length : file.entries.length;
+
+    if (itemCount > SITEMAP_MAX_URLS) {
+        recordRule(state, 'too-many-urls', file.url, `${file.url}: ${itemCount.toLocaleString()} ${file.format === 'sitemapindex' ? 'sitemaps' : 'URLs'} (limit ${SITEMAP_MAX_URLS.toLocaleString()})`);
+    }
+    if (file.decodedBytes > SITEMAP_MAX_BYTES) {
+        recordRule(state, 'too-large', file.url, `${file.url}: ${(file.decodedBytes / (1024 * 1024)).toFixed(1)} MB uncompressed (limit 50 MB)`);
+    }
+    if (file.format === 'sitemapindex' && file.depth > 0) {
+        recordRule(state, 'nested-index', file.url, `${file.url} is a sitemap index listed inside ${file.parentSitemap || 'another index'}`);
+    }
+
+    const locs = file.format === 'sitemapindex' ? file.childSitemaps : file.entries.map(e => e.loc);
+    locs.forEach(loc => {
+        let parsed: URL;
+        try {
+            parsed = new URL(loc);
+        } catch (e) {
+            recordRule(state, 'relative-url', file.url, `${file.url}: <loc>${loc}</loc>`);
+            return;
+        }
+        if (parsed.host !== sitemapHost) {
+            recordRule(state, 'cross-host', file.url, `${file.url}: ${loc}`);
+        }
+        if (parsed.protocol === 'http:' || parsed.protocol === 'https:') {
+            record(state.protocols[parsed.protocol], file.url, loc);
+        }
+    });
+
+    file.duplicateLocs.forEach(loc => recordRule(state, 'duplicate-loc', file.url, `${file.url}: ${loc}`));
+
+    // RSS/Atom dates are normalized by the parser, so only XML urlsets carry lastmod values as written
+    if (file.format === 'urlset') {
+        const now = Date.now();
+        file.entries.forEach(entry => {
+            if (entry.lastmod && !isValidLastmod(entry.lastmod, now)) {
+                recordRule(state, 'invalid-lastmod', file.url, `${entry.loc}: lastmod "${entry.lastmod}"`);
+            }
+        });
+    }
+};
+
+const RULE_DETAILS: Record<SitemapRule, { title: (count: number) => string; priority: AuditFinding['priority']; description: string }> = {
+    'too-many-urls': {
+        title: count => `Split ${count} sitemap file${count === 1 ? '' : 's'} exceeding the 50,000-URL limit`,
+        priority: 'high',
+        description: 'Search engines may reject a sitemap file with more than 50,000 entries entirely. Split it into several files listed in a sitemap index.',
+    },
+    'too-large': {
+        title: count => `Split ${count} sitemap file${count === 1 ? '' : 's'} larger than 50 MB uncompressed`,
+        priority: 'high',
+        description: 'The size limit applies to the uncompressed file; gzip doesn\'t help. Oversized files may be ignored. Split them and reference the parts from a sitemap index.',
+    },
+    'relative-url': {
+        title: count => `Replace ${count} relative URL${count === 1 ? '' : 's'} in sitemaps with absolute URLs`,
+        priority: 'high',
+        description: 'Every <loc> must be a fully-qualified URL including the protocol. Relative entries are invalid and are ignored by search engines.',
+    },
+    'cross-host': {
+        title: count => `Review ${count} sitemap entr${count === 1 ? 'y' : 'ies'} pointing at a different host`,
+        priority: 'medium',
+        description: 'A sitemap may only list URLs on its own host unless cross-submission is proven through the other host\'s robots.txt. Move these entries into a sitemap hosted on the right domain, or fix www/non-www inconsistencies.',
+    },
+    'duplicate-loc': {
+        title: count => `Remove ${count} duplicate sitemap entr${count === 1 ? 'y' : 'ies'}`,
+        priority: 'low',
+        description: 'The same URL is listed more than once, within a file or across files. Duplicates waste crawl budget and usually point at a generator bug.',
+    },
+    'invalid-lastmod': {
+        title: count => `Fix ${count} invalid lastmod date${count === 1 ? '' : 's'}`,
+        priority: 'low',
+        description: 'lastmod must be a W3C Datetime (e.g. 2024-05-01 or 2024-05-01T10:00:00+00:00) and must not be in the future. Search engines ignore lastmod values from sites that get it wrong.',
+    },
+    'nested-index': {
+        title: count => `Flatten ${count} sitemap index${count === 1 ? '' : 'es'} nested inside another index`,
+        priority: 'medium',
+        description: 'A sitemap index may only list sitemaps, not other indexes. Search engines don\'t follow nested indexes, so the URLs below them may never be discovered. List the child sitemaps directly.',
+    },
+};
+
+const toFinding = (rule: SitemapRule, tally: RuleTally): AuditFinding => {
+    const details = RULE_DETAILS[rule];
+    return {
+        id: `sitemap-${rule}`,
+        category: 'sitemap-protocol',
+        title: details.title(tally.count),
+        priority: details.priority,
+        description: details.description,
+        affectedUrls: Array.from(tally.sitemaps),
+        evidence: tally.count > tally.examples.length
+            ? [...tally.examples, `...and ${(tally.count - tally.examples.length).toLocaleString()} more`]
+            : tally.examples,
+    };
+};
+
+/**
+ * Turns the accumulated tallies into findings, most severe first.
+ */
+export const buildSitemapFindings = (state: SitemapValidationState): AuditFinding[] => {
+    const findings = Array.from(state.tallies.entries()).map(([rule, tally]) => toFinding(rule, tally));
+
+    const { 'http:': http, 'https:': https } = state.protocols;
+    if (http.count > 0 && https.count > 0) {
+        const [minority, minorityLabel, majorityLabel] = http.count <= https.count ? [http, 'http', 'https'] : [https, 'https', 'http'];
+        findings.push({
+            id: 'sitemap-mixed-protocol',
+            category: 'sitemap-protocol',
+            title: `Align ${minority.count} sitemap URL${minority.count === 1 ? '' : 's'} using ${minorityLabel}:// with the rest of the site (${majorityLabel}://)`,
+            priority: 'medium',
+            description: 'The sitemaps mix http and https URLs. List only the canonical protocol; the other variant should redirect to it.',
+            affectedUrls: Array.from(minority.sitemaps),
+            evidence: minority.count > minority.examples.length
+                ? [...minority.examples, `...and ${(minority.count - minority.examples.length).toLocaleString()} more`]
+                : minority.examples,
+        });
+    }
+
+    const priorityOrder: Record<AuditFinding['priority'], number> = { high: 0, medium: 1, low: 2 };
+    return findings.sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority]);
+};
@@ -0,0 +1,119 @@
+import type { StructuredDataFormat } from '../types';
+
+// A schema.org item in one shape regardless of the syntax it was written in, so one set of rules validates all three
+export type SchemaValue = string | SchemaNode;
+
+export interface SchemaNode {
+    format: StructuredDataFormat;
+    types: string[];
+    properties: Record<string, SchemaValue[]>;
+}
+
+// Elements whose Microdata value is a URL attribute rather than their text (HTML Living Standard, "itemprop" values)
+const MICRODATA_URL_ATTRIBUTES: Record<string, string> = {
+    a: 'href', area: 'href', link: 'href',
+    img: 'src', audio: 'src', video: 'src', source: 'src', track: 'src', embed: 'src', iframe: 'src',
+    object: 'data',
+};
+
+const cleanText = (value: string | null | undefined): string => (value || '').replace(/\s+/g, ' ').trim();
+
+const stripVocabulary = (name: string): string => name.trim().replace(/^(https?:\/\/)?(www\.)?schema\.org\//i, '').replace(/^schema:/i, '');
+
+const splitNames = (value: string | null): string[] => (value || '').split(/\s+/).filter(Boolean).map(stripVocabulary);
+
+const addProperty = (node: SchemaNode, name: string, value: SchemaValue) => {
+    // Prefixed names that survive stripping belong to other vocabularies (og:, article:, dc:...)
+    if (!name || name.includes(':')) return;
+    if (!node.properties[name]) node.properties[name] = [];
+    node.properties[name].push(value);
+};
+
+// --- JSON-LD ---
+
+const fromJsonLd = (value: unknown): SchemaValue[] => {
+    if (value === null || value === undefined) return [];
+    if (Array.isArray(value)) return value.flatMap(fromJsonLd);
+    if (typeof value === 'object') {
+        const object = value as Record<string, unknown>;
+        return '@value' in object ? fromJsonLd(object['@value']) : [jsonLdNode(object)];
+    }
+    return [String(value)];
+};
+
+const jsonLdNode = (object: Record<string, unknown>): SchemaNode => {
+    const type = object['@type'];
+    const node: SchemaNode = {
+        format: 'json-ld',
+        types: (Array.isArray(type) ? type : [type]).filter((t): t is string => typeof t === 'string').map(stripVocabulary),
+        properties: {},
+    };
+    Object.entries(object).forEach(([key, value]) => {
+        if (key.startsWith('@')) return;
+        fromJsonLd(value).forEach(item => addProperty(node, stripVocabulary(key), item));
+    });
+    return node;
+};
+
+// Top-level items of one <script type="application/ld+json"> block: the root object(s) and any @graph members
+const jsonLdRoots = (block: unknown): SchemaNode[] => {
+    if (Array.isArray(block)) return block.flatMap(jsonLdRoots);
+    if (!block || typeof block !== 'object') return [];
+    const object = block as Record<string, unknown>;
+    const graph = '@graph' in object ? jsonLdRoots(object['@graph']) : [];
+    return '@type' in object ? [jsonLdNode(object), ...graph] : graph;
+};
+
+// --- Microdata ---
+
+const nearestAncestorWith = (el: Element, attribute: string): Element | null => {
+    let parent = el.parentElement;
+    while (parent && !parent.hasAttribute(attribute)) parent = parent.parentElement;
+    return parent;
+};
+
+const microdataValue = (el: Element): string => {
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'meta') return cleanText(el.getAttribute('content'));
+    if (tag in MICRODATA_URL_ATTRIBUTES) return cleanText(el.getAttribute(MICRODATA_URL_ATTRIBUTES[tag]));
+    if (tag === 'data' || tag === 'meter') return cleanText(el.getAttribute('value'));
+    if (tag === 'time') return cleanText(el.getAttribute('datetime') || el.textContent);
+    return cleanText(el.textContent);
+};
+
+const microdataNode = (scope: Element): SchemaNode => {
+    const node: SchemaNode = { format: 'microdata', types: splitNames(scope.getAttribute('itemtype')), properties: {} };
+    scope.querySelectorAll('[itemprop]').forEach(el => {
+        // Properties of items nested inside this one belong to those items
+        if (nearestAncestorWith(el, 'itemscope') !== scope) return;
+        const value = el.hasAttribute('itemscope') ? microdataNode(el) : microdataValue(el);
+        splitNames(el.getAttribute('itemprop')).forEach(name => addProperty(node, name, value));
+    });
+    return node;
+};
+
+// --- RDFa (Lite) ---
+
+const rdfaValue = (el: Element): string =>
+    cleanText(el.getAttribute('content') ?? el.getAttribute('href') ?? el.getAttribute('src') ?? el.getAttribute('resource') ?? el.textContent);
+
+const rdfaNode = (subject: Element): SchemaNode => {
+    const node: SchemaNode = { format: 'rdfa', types: splitNames(subject.getAttribute('typeof')), properties: {} };
+    subject.querySelectorAll('[property]').forEach(el => {
+        if (nearestAncestorWith(el, 'typeof') !== subject) return;
+        const value = el.hasAttribute('typeof') ? rdfaNode(el) : rdfaValue(el);
+        splitNames(el.getAttribute('property')).forEach(name => addProperty(node, name, value));
+    });
+    return node;
+};
+
+/**
+ * Collects the top-level schema.org items of a page from its parsed JSON-LD blocks, Microdata
+ * (`itemscope`/`itemprop`) and RDFa (`typeof`/`property`), as nested `SchemaNode`s.
+ * Call before the document is stripped for word counting.
+ */
+export const extractStructuredData = (doc: Document, jsonLdBlocks: unknown[]): SchemaNode[] => [
+    ...jsonLdBlocks.flatMap(jsonLdRoots),
+    ...Array.from(doc.querySelectorAll('[itemscope]:not([itemprop])')).map(microdataNode),
+    ...Array.from(doc.querySelectorAll('[typeof]:not([property])')).map(rdfaNode),
+];
@@ -0,0 +1,116 @@
+import type { UrlNormalizationRules, UrlVariantGroup } from '../types';
+
+// Click IDs and campaign tags that never change what a page shows
+export const DEFAULT_TRACKING_PARAMS = [
+    'utm_*', 'gclid', 'gbraid', 'wbraid', 'dclid', 'fbclid', 'msclkid', 'yclid', 'twclid', 'igshid',
+    'mc_cid', 'mc_eid', '_ga', '_gl', '_hsenc', '_hsmi', 'mkt_tok', 'srsltid',
+];
+
+export const DEFAULT_URL_NORMALIZATION: UrlNormalizationRules = {
+    trailingSlash: 'strip',
+    stripTrackingParams: true,
+    trackingParams: DEFAULT_TRACKING_PARAMS,
+    lowercasePath: false,
+    stripFragment: true,
+    sortQueryParams: true,
+};
+
+// Paths that end in a file name never get a trailing slash added
+const FILE_EXTENSION = /\.[a-z0-9]{1,5}$/i;
+
+const isTrackingParam = (name: string, patterns: string[]): boolean => {
+    const lowerName = name.toLowerCase();
+    return patterns.some(pattern => {
+        const lowerPattern = pattern.trim().toLowerCase();
+        if (!lowerPattern) return false;
+        return lowerPattern.endsWith('*') ? lowerName.startsWith(lowerPattern.slice(0, -1)) : lowerName === lowerPattern;
+    });
+};
+
+/**
+ * Reduces a URL to the identity used for deduplication, ranking and cache keys. The result is for
+ * comparing URLs; keep requesting the URL the site actually published. Anything that isn't an
+ * absolute http(s) URL is returned unchanged.
+ */
+export const normalizeUrl = (url: string, rules: UrlNormalizationRules = DEFAULT_URL_NORMALIZATION): string => {
+    let parsed: URL;
+    try {
+        parsed = new URL(url.trim());
+    } catch (e) {
+        return url;
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return url;
+
+    // The URL parser already lower-cases the host and drops default ports
+    if (rules.stripFragment) parsed.hash = '';
+
+    if (parsed.search) {
+        const params = Array.from(parsed.searchParams.entries())
+            .filter(([name]) => !(rules.stripTrackingParams && isTrackingParam(name, rules.trackingParams)));
+        // Sorting by name only is stable, so repeated parameters keep their relative order
+        if (rules.sortQueryParams) params.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        parsed.search = new URLSearchParams(params).toString();
+    }
+
+    let path = parsed.pathname;
+    if (rules.lowercasePath) path = path.toLowerCase();
+    if (path !== '/') {
+        if (rules.trailingSlash === 'strip') {
+            path = path.replace(/\/+$/, '') || '/';
+        } else if (rules.trailingSlash === 'add' && !path.endsWith('/') && !FILE_EXTENSION.test(path)) {
+            path += '/';
+        }
+    }
+    parsed.pathname = path;
+
+    return parsed.toString();
+};
+
+// --- Variant tracking: which raw URLs collapsed into the same identity ---
+
+const MAX_RECORDED_GROUPS = 200;
+
+export interface UrlVariantTracker {
+    // Identity -> first raw URL seen for it ('' when the raw URL was already canonical, to save memory)
+    seen: Map<string, string>;
+    mergedUrls: Set<string>; // Every raw variant counted as merged, so a repeat isn't counted again
+    groups: Map<string, string[]>; // Capped sample of the merges, for display
+    mergedCount: number;
+}
+
+export const createUrlVariantTracker = (): UrlVariantTracker => ({
+    seen: new Map(),
+    mergedUrls: new Set(),
+    groups: new Map(),
+    mergedCount: 0,
+});
+
+/**
+ * Registers a raw URL under its normalized identity. The first URL seen for an identity is 'new';
+ * the exact same URL again is a 'repeat'; a different spelling of it is a 'variant' and is recorded
+ * as merged.
+ */
+export const registerUrlVariant = (tracker: UrlVariantTracker, rawUrl: string, canonical: string): 'new' | 'repeat' | 'variant' => {
+    const firstRaw = tracker.seen.get(canonical);
+    if (firstRaw === undefined) {
+        tracker.seen.set(canonical, rawUrl === canonical ? '' : rawUrl);
+        return 'new';
+    }
+
+    const first = firstRaw || canonical;
+    if (rawUrl === first) return 'repeat';
+
+    if (tracker.mergedUrls.has(rawUrl)) return 'repeat';
+    tracker.mergedUrls.add(rawUrl);
+    tracker.mergedCount++;
+    let group = tracker.groups.get(canonical);
+    if (!group && tracker.groups.size < MAX_RECORDED_GROUPS) {
+        group = [first];
+        tracker.groups.set(canonical, group);
+    }
+    group?.push(rawUrl);
+    return 'variant';
+};
+
+export const getMergedVariantGroups = (tracker: UrlVariantTracker): UrlVariantGroup[] =>
+    Array.from(tracker.groups.entries()).map(([canonical, variants]) => ({ canonical, variants }));
@@ -0,0 +1,147 @@
+export interface XmlElement {
+    name: string;                           // Qualified name as written, e.g. "image:image"
+    localName: string;                      // Name without the namespace prefix, e.g. "image"
+    attributes: Record<string, string>;     // Keyed by qualified attribute name
+    children: XmlElement[];
+    text: string;                           // Direct text and CDATA content, entities decoded
+}
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeEntities = (value: string): string => {
+    if (!value.includes('&')) return value;
+    return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const codePoint = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            try {
+                return String.fromCodePoint(codePoint);
+            } catch (e) {
+                return match;
+            }
+        }
+        // Unknown named entities (HTML's &nbsp; etc.) are left as written rather than failing the whole file
+        return NAMED_ENTITIES[entity] ?? match;
+    });
+};
+
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const parseError = (detail: string) => new Error(`XML Parse Error: ${detail}`);
+
+/**
+ * A small, non-validating XML parser that builds an element tree without the DOM, so sitemaps can be
+ * parsed inside a Web Worker where `DOMParser` isn't available. Handles comments, CDATA, processing
+ * instructions and DOCTYPEs; rejects unclosed or mismatched tags.
+ */
+export const parseXml = (xml: string): XmlElement => {
+    let root: XmlElement | null = null;
+    const stack: XmlElement[] = [];
+    let pos = 0;
+
+    const appendText = (value: string, raw: boolean) => {
+        const current = stack[stack.length - 1];
+        if (current) {
+            current.text += raw ? value : decodeEntities(value);
+        } else if (value.trim()) {
+            throw parseError('text outside the root element');
+        }
+    };
+
+    const skipPast = (terminator: string, from: number): number => {
+        const end = xml.indexOf(terminator, from);
+        if (end === -1) throw parseError(`missing "${terminator}"`);
+        return end + terminator.length;
+    };
+
+    while (pos < xml.length) {
+        const lt = xml.indexOf('<', pos);
+        if (lt === -1) {
+            appendText(xml.slice(pos), false);
+            break;
+        }
+        if (lt > pos) appendText(xml.slice(pos, lt), false);
+
+        if (xml.startsWith('<!--', lt)) {
+            pos = skipPast('-->', lt + 4);
+        } else if (xml.startsWith('<![CDATA[', lt)) {
+            const end = xml.indexOf(']]>', lt + 9);
+            if (end === -1) throw parseError('unterminated CDATA section');
+            appendText(xml.slice(lt + 9, end), true);
+            pos = end + 3;
+        } else if (xml.startsWith('<?', lt)) {
+            pos = skipPast('?>', lt + 2);
+        } else if (xml.startsWith('<!', lt)) {
+            // DOCTYPE, possibly with an internal subset in [...]
+            const close = xml.indexOf('>', lt);
+            const subset = xml.indexOf('[', lt);
+            pos = subset !== -1 && (close === -1 || subset < close) ? skipPast(']>', subset) : skipPast('>', lt);
+        } else if (xml[lt + 1] === '/') {
+            const end = xml.indexOf('>', lt);
+            if (end === -1) throw parseError('unterminated closing tag');
+            const name = xml.slice(lt + 2, end).trim();
+            const open = stack.pop();
+            if (!open || open.name !== name) throw parseError(`unexpected </${name}>`);
+            pos = end + 1;
+        } else {
+            // Find the end of the start tag, ignoring ">" inside quoted attribute values
+            let i = lt + 1;
+            let quote = '';
+            for (; i < xml.length; i++) {
+                const c = xml[i];
+                if (quote) {
+                    if (c === quote) quote = '';
+                } else if (c === '"' || c === "'") {
+                    quote = c;
+                } else if (c === '>') {
+                    break;
+                }
+            }
+            if (i >= xml.length) throw parseError('unterminated start tag');
+
+            let inner = xml.slice(lt + 1, i);
+            const selfClosing = inner.endsWith('/');
+            if (selfClosing) inner = inner.slice(0, -1);
+            const name = /^[^\s/>]+/.exec(inner)?.[0];
+            if (!name) throw parseError('element without a name');
+
+            const attributes: Record<string, string> = {};
+            ATTRIBUTE.lastIndex = name.length;
+            let match: RegExpExecArray | null;
+            while ((match = ATTRIBUTE.exec(inner)) !== null) {
+                attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+            }
+
+            const colon = name.indexOf(':');
+            const element: XmlElement = { name, localName: colon === -1 ? name : name.slice(colon + 1), attributes, children: [], text: '' };
+            const parent = stack[stack.length - 1];
+            if (parent) {
+                parent.children.push(element);
+            } else if (root) {
+                throw parseError('more than one root element');
+            } else {
+                root = element;
+            }
+            if (!selfClosing) stack.push(element);
+            pos = i + 1;
+        }
+    }
+
+    if (stack.length > 0) throw parseError(`<${stack[stack.length - 1].name}> is never closed`);
+    if (!root) throw parseError('no root element');
+    return root;
+};
+
+/**
+ * Every element below `parent` with the given local name, in document order.
+ */
+export const findDescendants = (parent: XmlElement, localName: string): XmlElement[] => {
+    const found: XmlElement[] = [];
+    const walk = (element: XmlElement) => {
+        element.children.forEach(child => {
+            if (child.localName === localName) found.push(child);
+            walk(child);
+        });
+    };
+    walk(parent);
+    return found;
+};
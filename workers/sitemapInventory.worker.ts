@@ -0,0 +1,39 @@
+import { createSitemapInventory, processSitemapFile, finishSitemapInventory } from '../utils/sitemapInventory';
+import type { SitemapInventory, SitemapWorkerRequest, SitemapWorkerResponse } from '../utils/sitemapInventory';
+
+// Parses, dedupes, samples and ranks sitemap files for one crawl, so multi-megabyte sitemaps don't
+// block the UI. The main thread keeps fetching; see services/sitemapWorkerClient.ts.
+
+const scope = self as unknown as {
+    onmessage: ((event: MessageEvent<SitemapWorkerRequest>) => void) | null;
+    postMessage: (message: SitemapWorkerResponse) => void;
+};
+
+let inventory: SitemapInventory | null = null;
+
+scope.onmessage = async (event) => {
+    const request = event.data;
+    switch (request.type) {
+        case 'init':
+            inventory = createSitemapInventory(request.options);
+            scope.postMessage({ type: 'ready' });
+            break;
+        case 'file': {
+            if (!inventory) {
+                scope.postMessage({ type: 'file', id: request.id, outcome: { status: 'failed', stage: 'parse', error: 'Sitemap worker was not initialized.' } });
+                break;
+            }
+            const outcome = await processSitemapFile(inventory, request.file, progress => scope.postMessage({ type: 'progress', progress }));
+            scope.postMessage({ type: 'file', id: request.id, outcome });
+            break;
+        }
+        case 'finish':
+            try {
+                if (!inventory) throw new Error('Sitemap worker was not initialized.');
+                scope.postMessage({ type: 'finished', id: request.id, result: finishSitemapInventory(inventory) });
+            } catch (e) {
+                scope.postMessage({ type: 'error', id: request.id, error: e instanceof Error ? e.message : String(e) });
+            }
+            break;
+    }
+};